@@ -9,6 +9,8 @@ import Settings from "@/pages/Settings";
 import NotFound from "@/pages/NotFound";
 import Nutrition from "@/pages/Nutrition";
 import Admin from "@/pages/Admin";
+import ExerciseLibrary from "@/pages/ExerciseLibrary";
+import ExerciseDetail from "@/pages/ExerciseDetail";
 import { AuthProvider } from "@/components/AuthProvider";
 import { hideSplashScreen } from "vite-plugin-splash-screen/runtime";
 import { ThemeProvider } from "@/components/ThemeProvider";
@@ -94,6 +96,8 @@ function App() {
               <Route path="/auth" element={<Auth />} />
               <Route path="/nutrition" element={<Nutrition />} />
               <Route path="/settings" element={<Settings />} />
+              <Route path="/exercises" element={<ExerciseLibrary />} />
+              <Route path="/exercises/:id" element={<ExerciseDetail />} />
               <Route path="/admin" element={
                 <AdminProtectedRoute>
                   <Admin />
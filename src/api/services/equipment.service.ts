@@ -0,0 +1,65 @@
+import { api } from "../config";
+import { EquipmentProfile } from "@/types/workout";
+
+export const equipmentService = {
+  async getProfiles(): Promise<EquipmentProfile[]> {
+    const { data: { user } } = await api.supabase.auth.getUser();
+    if (!user) throw new Error("User not found");
+
+    const { data, error } = await api.supabase
+      .from("equipment_profiles")
+      .select("id, name, equipment_ids, is_default")
+      .eq("user_id", user.id)
+      .order("created_at");
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  async saveProfile(profile: EquipmentProfile) {
+    const { data: { user } } = await api.supabase.auth.getUser();
+    if (!user) throw new Error("User not found");
+
+    const fields = {
+      name: profile.name,
+      equipment_ids: profile.equipment_ids,
+      updated_at: new Date().toISOString(),
+    };
+
+    const { error } = profile.id
+      ? await api.supabase.from("equipment_profiles").update(fields).eq("id", profile.id)
+      : await api.supabase.from("equipment_profiles").insert({ ...fields, is_default: profile.is_default ?? false, user_id: user.id });
+
+    if (error) throw error;
+  },
+
+  async deleteProfile(id: string) {
+    const { error } = await api.supabase
+      .from("equipment_profiles")
+      .delete()
+      .eq("id", id);
+
+    if (error) throw error;
+  },
+
+  // Makes a profile the default, clearing the flag on the previous one
+  async setDefaultProfile(id: string) {
+    const { data: { user } } = await api.supabase.auth.getUser();
+    if (!user) throw new Error("User not found");
+
+    const { error: clearError } = await api.supabase
+      .from("equipment_profiles")
+      .update({ is_default: false })
+      .eq("user_id", user.id)
+      .eq("is_default", true);
+
+    if (clearError) throw clearError;
+
+    const { error } = await api.supabase
+      .from("equipment_profiles")
+      .update({ is_default: true })
+      .eq("id", id);
+
+    if (error) throw error;
+  },
+};
@@ -1,9 +1,38 @@
-
 import { api } from "../config";
 import type { Database } from "@/integrations/supabase/types";
+import { summarizeExerciseSessions } from "@/lib/history-utils";
+import { RecordSet, computePersonalRecords } from "@/lib/pr-utils";
+import { GeneratorCandidate } from "@/lib/workout-generator";
+import { MuscleSet } from "@/lib/muscle-volume";
+import { CustomExercise, ExerciseTemplate, MovementPattern, TrackingType } from "@/types/workout";
+import { parseTemplateMuscles } from "@/lib/muscle-utils";
+import { muscleService } from "./muscle.service";
 
 type Exercise = Database["public"]["Tables"]["exercises"]["Row"];
 
+// Sets of one exercise shown in its history
+const HISTORY_SET_LIMIT = 1000;
+
+// Stays within the API's default row limit
+const SET_PAGE_SIZE = 1000;
+
+const LIBRARY_SELECT = "*, exercise_muscles (role, muscles (*)), exercise_equipment (equipment_id)";
+
+const toLibraryTemplate = ({
+  exercise_muscles,
+  exercise_equipment,
+  ...template
+}: Database["public"]["Tables"]["exercise_templates"]["Row"] & {
+  exercise_muscles: unknown;
+  exercise_equipment: { equipment_id: number }[];
+}): ExerciseTemplate => ({
+  ...template,
+  tracking_type: template.tracking_type as TrackingType,
+  movement_pattern: template.movement_pattern as MovementPattern | null,
+  muscles: parseTemplateMuscles(exercise_muscles),
+  equipment_ids: exercise_equipment.map(link => link.equipment_id),
+});
+
 export const exerciseService = {
   async getExerciseTemplates() {
     const { data, error } = await api.supabase
@@ -14,30 +43,232 @@ export const exerciseService = {
     return data;
   },
 
-  async getExerciseHistory(exerciseName: string) {
-    const { data: workoutIds, error: workoutIdsError } = await api.supabase
-      .from("workouts")
-      .select("id");
-      
-    if (workoutIdsError) throw workoutIdsError;
-    
-    if (!workoutIds || workoutIds.length === 0) {
-      return [];
+  // Templates with their muscles and equipment, for browsing and filtering
+  async getLibrary(): Promise<ExerciseTemplate[]> {
+    const { data, error } = await api.supabase
+      .from("exercise_templates")
+      .select(LIBRARY_SELECT)
+      .order("name");
+
+    if (error) throw error;
+    return (data || []).map(toLibraryTemplate);
+  },
+
+  async getLibraryExercise(id: string): Promise<ExerciseTemplate> {
+    const { data, error } = await api.supabase
+      .from("exercise_templates")
+      .select(LIBRARY_SELECT)
+      .eq("id", id)
+      .single();
+
+    if (error) throw error;
+    return toLibraryTemplate(data);
+  },
+
+  // Creates a custom exercise for the current user, or updates one of theirs
+  async saveCustomExercise(exercise: CustomExercise, id?: string): Promise<ExerciseTemplate> {
+    const { data: { user } } = await api.supabase.auth.getUser();
+    if (!user) throw new Error("User not authenticated");
+
+    const { muscles, equipment_ids, ...template } = exercise;
+
+    // Routines and history match exercises by name, so a custom exercise can't share one with the catalogue
+    const { data: clashes, error: clashError } = await api.supabase
+      .from("exercise_templates")
+      .select("id")
+      .is("user_id", null)
+      .ilike("name", template.name.replace(/[\\%_]/g, "\\$&"))
+      .limit(1);
+
+    if (clashError) throw clashError;
+    if (clashes.length > 0) {
+      throw new Error(`${template.name} is already in the exercise library. Pick it from there or use a different name.`);
     }
 
-    const { data: exercisesData, error: exercisesError } = await api.supabase
-      .from("exercises")
+    const { data, error } = id
+      ? await api.supabase
+          .from("exercise_templates")
+          .update(template)
+          .eq("id", id)
+          .eq("user_id", user.id)
+          .select()
+          .single()
+      : await api.supabase
+          .from("exercise_templates")
+          .insert({ ...template, user_id: user.id })
+          .select()
+          .single();
+
+    if (error) throw error;
+
+    await muscleService.setTemplateMuscles(data.id, muscles);
+    await this.setTemplateEquipment(data.id, equipment_ids);
+    return this.getLibraryExercise(data.id);
+  },
+
+  async deleteCustomExercise(id: string) {
+    const { data: { user } } = await api.supabase.auth.getUser();
+    if (!user) throw new Error("User not authenticated");
+
+    const { error } = await api.supabase
+      .from("exercise_templates")
+      .delete()
+      .eq("id", id)
+      .eq("user_id", user.id);
+
+    if (error) throw error;
+  },
+
+  // Replaces the equipment an exercise template needs
+  async setTemplateEquipment(templateId: string, equipmentIds: number[]) {
+    const { error: deleteError } = await api.supabase
+      .from("exercise_equipment")
+      .delete()
+      .eq("exercise_id", templateId);
+
+    if (deleteError) throw deleteError;
+    if (equipmentIds.length === 0) return;
+
+    const { error } = await api.supabase
+      .from("exercise_equipment")
+      .insert(equipmentIds.map(equipment_id => ({ exercise_id: templateId, equipment_id })));
+
+    if (error) throw error;
+  },
+
+  // Moves history and routines logged under one name onto an exercise template
+  async mergeExercises(sourceName: string, targetTemplateId: string) {
+    const { error } = await api.supabase.rpc("merge_exercises", {
+      source_name: sourceName,
+      target_template_id: targetTemplateId,
+    });
+
+    if (error) throw error;
+  },
+
+  async getEquipment() {
+    const { data, error } = await api.supabase
+      .from("equipment")
+      .select("*")
+      .order("name");
+
+    if (error) throw error;
+    return data;
+  },
+
+  // Templates with the equipment they need and the muscles they train
+  async getGeneratorCandidates(): Promise<GeneratorCandidate[]> {
+    const { data, error } = await api.supabase
+      .from("exercise_templates")
       .select(`
+        id,
         name,
-        weight,
+        tracking_type,
+        exercise_equipment (equipment_id),
+        exercise_muscles (muscle_id, role)
+      `);
+
+    if (error) throw error;
+    return (data || []).map(template => ({
+      id: template.id,
+      name: template.name,
+      tracking_type: template.tracking_type as TrackingType,
+      equipmentIds: template.exercise_equipment.map(link => link.equipment_id),
+      muscleIds: template.exercise_muscles.filter(link => link.role !== "secondary").map(link => link.muscle_id),
+      secondaryMuscleIds: template.exercise_muscles.filter(link => link.role === "secondary").map(link => link.muscle_id),
+    }));
+  },
+
+  async getLoggedExerciseNames() {
+    const { data, error } = await api.supabase.rpc("get_logged_exercise_names");
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  // The most recent sessions of an exercise, up to HISTORY_SET_LIMIT sets
+  async getExerciseHistory(exerciseName: string) {
+    const { data: { user } } = await api.supabase.auth.getUser();
+    if (!user) throw new Error("User not authenticated");
+
+    const { data, error } = await api.supabase
+      .from("set_logs")
+      .select(`
+        completed_workout_id,
         reps,
-        sets,
-        workout_id
+        weight,
+        duration_seconds,
+        distance_meters,
+        set_type,
+        completed_workouts (
+          completed_at,
+          title,
+          workouts (
+            title
+          )
+        )
       `)
-      .eq("name", exerciseName)
-      .in("workout_id", workoutIds.map(w => w.id));
+      .eq("user_id", user.id)
+      .eq("exercise_name", exerciseName)
+      .order("completed_at", { ascending: false })
+      .limit(HISTORY_SET_LIMIT);
+
+    if (error) throw error;
+
+    // At the limit the oldest session may be cut short, so leave it out
+    const rows = data || [];
+    const oldestSessionId = rows.length === HISTORY_SET_LIMIT ? rows[rows.length - 1].completed_workout_id : null;
+    return summarizeExerciseSessions(rows.filter(row => row.completed_workout_id !== oldestSessionId));
+  },
+
+  async getLoggedSets(exerciseNames: string[]) {
+    const { data: { user } } = await api.supabase.auth.getUser();
+    if (!user) throw new Error("User not authenticated");
+
+    if (exerciseNames.length === 0) {
+      return [];
+    }
+
+    // Records need every set, so page past the API's row limit until none are left
+    const sets: RecordSet[] = [];
+    for (let from = 0; ; from += SET_PAGE_SIZE) {
+      const { data, error } = await api.supabase
+        .from("set_logs")
+        .select("exercise_name, completed_workout_id, reps, weight, set_type, completed_at")
+        .eq("user_id", user.id)
+        .in("exercise_name", exerciseNames)
+        .order("completed_at", { ascending: true })
+        .order("id", { ascending: true })
+        .range(from, from + SET_PAGE_SIZE - 1);
+
+      if (error) throw error;
+      sets.push(...data);
+      if (data.length < SET_PAGE_SIZE) return sets;
+    }
+  },
+
+  // Working and warm-up sets since a date, with the catalogue template of their exercise
+  async getSetsSince(since: Date): Promise<MuscleSet[]> {
+    const { data: { user } } = await api.supabase.auth.getUser();
+    if (!user) throw new Error("User not authenticated");
+
+    const { data, error } = await api.supabase
+      .from("set_logs")
+      .select("exercise_name, set_type, completed_at, exercises (template_id)")
+      .eq("user_id", user.id)
+      .gte("completed_at", since.toISOString());
+
+    if (error) throw error;
+    return (data || []).map(set => ({
+      exercise_name: set.exercise_name,
+      set_type: set.set_type,
+      completed_at: set.completed_at,
+      template_id: set.exercises?.template_id ?? null,
+    }));
+  },
 
-    if (exercisesError) throw exercisesError;
-    return exercisesData;
+  async getExercisePersonalRecords(exerciseName: string) {
+    const sets = await this.getLoggedSets([exerciseName]);
+    return computePersonalRecords(exerciseName, sets);
   },
 };
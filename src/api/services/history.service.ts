@@ -0,0 +1,121 @@
+import { api } from "../config";
+import { LoggedSet, SessionEntry, SetType } from "@/types/workout";
+
+export type CompletedSession = {
+  id: string;
+  workout_id: string | null;
+  workout_title: string;
+  duration: number;
+  completed_at: string;
+  notes: string | null;
+};
+
+export const historyService = {
+  async getSessions(): Promise<CompletedSession[]> {
+    const { data: { user } } = await api.supabase.auth.getUser();
+    if (!user) throw new Error("User not authenticated");
+
+    const { data, error } = await api.supabase
+      .from("completed_workouts")
+      .select(`
+        id,
+        workout_id,
+        duration,
+        completed_at,
+        notes,
+        title,
+        workouts (
+          title
+        )
+      `)
+      .eq("user_id", user.id)
+      .order("completed_at", { ascending: false });
+
+    if (error) throw error;
+
+    return data.map(session => ({
+      id: session.id,
+      workout_id: session.workout_id,
+      workout_title: session.workouts?.title || session.title || "Unknown Workout",
+      duration: session.duration,
+      completed_at: session.completed_at,
+      notes: session.notes,
+    }));
+  },
+
+  async getSession(id: string): Promise<SessionEntry> {
+    const { data, error } = await api.supabase
+      .from("completed_workouts")
+      .select("workout_id, title, completed_at, duration, notes, set_logs (*)")
+      .eq("id", id)
+      .single();
+
+    if (error) throw error;
+
+    return {
+      workout_id: data.workout_id,
+      title: data.title,
+      completed_at: data.completed_at,
+      duration: data.duration,
+      notes: data.notes,
+      sets: data.set_logs.map(({ id: _id, completed_workout_id: _session, user_id: _user, ...set }) => ({
+        ...set,
+        set_type: set.set_type as SetType,
+      })),
+    };
+  },
+
+  // Records a session done without the player, e.g. one from before using the app
+  async logSession(entry: SessionEntry) {
+    const { data: { user } } = await api.supabase.auth.getUser();
+    if (!user) throw new Error("User not authenticated");
+
+    const { sets, ...session } = entry;
+    const { data, error } = await api.supabase
+      .from("completed_workouts")
+      .insert({ ...session, user_id: user.id })
+      .select("id")
+      .single();
+
+    if (error) throw error;
+
+    // Don't leave a session without its sets in the history
+    try {
+      await this.insertSets(data.id, user.id, sets);
+    } catch (insertError) {
+      await api.supabase.from("completed_workouts").delete().eq("id", data.id);
+      throw insertError;
+    }
+    return data.id;
+  },
+
+  // Replaces a session's details and all of its sets in one transaction
+  async updateSession(id: string, entry: SessionEntry) {
+    const { sets, ...session } = entry;
+    const { error } = await api.supabase.rpc("update_completed_session", {
+      session_id: id,
+      session,
+      sets,
+    });
+
+    if (error) throw error;
+  },
+
+  async insertSets(sessionId: string, userId: string, sets: LoggedSet[]) {
+    if (sets.length === 0) return;
+
+    const { error } = await api.supabase
+      .from("set_logs")
+      .insert(sets.map(set => ({ ...set, completed_workout_id: sessionId, user_id: userId })));
+
+    if (error) throw error;
+  },
+
+  // Set logs are removed with the session, and progression markers on it move
+  // to the latest remaining session
+  async deleteSession(id: string) {
+    const { error } = await api.supabase.rpc("delete_completed_session", { session_id: id });
+
+    if (error) throw error;
+  },
+};
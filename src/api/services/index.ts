@@ -4,3 +4,9 @@ export * from "./exercise.service";
 export * from "./food.service";
 export * from "./profile.service";
 export * from "./weight.service";
+export * from "./session.service";
+export * from "./schedule.service";
+export * from "./program.service";
+export * from "./equipment.service";
+export * from "./muscle.service";
+export * from "./history.service";
@@ -0,0 +1,45 @@
+import { api } from "../config";
+import { Muscle, MuscleRole } from "@/types/workout";
+import { parseMuscle } from "@/lib/muscle-utils";
+
+export const muscleService = {
+  async getMuscles(): Promise<Muscle[]> {
+    const { data, error } = await api.supabase
+      .from("muscles")
+      .select("*")
+      .order("name");
+
+    if (error) throw error;
+    return (data || []).map(parseMuscle);
+  },
+
+  async getTemplateMuscles(templateId: string): Promise<{ muscle_id: number; role: MuscleRole }[]> {
+    const { data, error } = await api.supabase
+      .from("exercise_muscles")
+      .select("muscle_id, role")
+      .eq("exercise_id", templateId);
+
+    if (error) throw error;
+    return (data || []).map(link => ({
+      muscle_id: link.muscle_id,
+      role: link.role === "secondary" ? "secondary" : "primary",
+    }));
+  },
+
+  // Replaces the muscles linked to an exercise template
+  async setTemplateMuscles(templateId: string, links: { muscle_id: number; role: MuscleRole }[]) {
+    const { error: deleteError } = await api.supabase
+      .from("exercise_muscles")
+      .delete()
+      .eq("exercise_id", templateId);
+
+    if (deleteError) throw deleteError;
+    if (links.length === 0) return;
+
+    const { error } = await api.supabase
+      .from("exercise_muscles")
+      .insert(links.map(link => ({ ...link, exercise_id: templateId })));
+
+    if (error) throw error;
+  },
+};
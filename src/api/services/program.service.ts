@@ -0,0 +1,172 @@
+import { api } from "../config";
+import { workoutService } from "./workout.service";
+import type { Database } from "@/integrations/supabase/types";
+import { Program } from "@/types/workout";
+import { advanceProgram, parseProgramDays, parseProgramWeeks } from "@/lib/program-utils";
+import { LibraryExerciseRow, LibraryProgram } from "@/lib/program-library";
+
+type ProgramRow = Database["public"]["Tables"]["programs"]["Row"];
+
+const toProgram = (row: ProgramRow): Program => ({
+  id: row.id,
+  name: row.name,
+  description: row.description,
+  days: parseProgramDays(row.days),
+  weeks: parseProgramWeeks(row.weeks),
+  is_active: row.is_active,
+  current_week: row.current_week,
+  current_day: row.current_day,
+  started_at: row.started_at,
+  completed_at: row.completed_at,
+});
+
+export const programService = {
+  async getPrograms(): Promise<Program[]> {
+    const { data: { user } } = await api.supabase.auth.getUser();
+    if (!user) throw new Error("User not found");
+
+    const { data, error } = await api.supabase
+      .from("programs")
+      .select("*")
+      .eq("user_id", user.id)
+      .order("created_at", { ascending: false });
+
+    if (error) throw error;
+    return (data || []).map(toProgram);
+  },
+
+  async getActiveProgram(): Promise<Program | null> {
+    const { data: { user } } = await api.supabase.auth.getUser();
+    if (!user) return null;
+
+    const { data, error } = await api.supabase
+      .from("programs")
+      .select("*")
+      .eq("user_id", user.id)
+      .eq("is_active", true)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ? toProgram(data) : null;
+  },
+
+  async saveProgram(program: Program) {
+    const { data: { user } } = await api.supabase.auth.getUser();
+    if (!user) throw new Error("User not found");
+
+    const fields = {
+      name: program.name,
+      description: program.description || null,
+      days: program.days,
+      weeks: program.weeks,
+      updated_at: new Date().toISOString(),
+    };
+
+    const { error } = program.id
+      ? await api.supabase.from("programs").update(fields).eq("id", program.id)
+      : await api.supabase.from("programs").insert({ ...fields, user_id: user.id });
+
+    if (error) throw error;
+  },
+
+  async deleteProgram(id: string) {
+    const { error } = await api.supabase
+      .from("programs")
+      .delete()
+      .eq("id", id);
+
+    if (error) throw error;
+  },
+
+  // Starts a program from week 1, day 1, stopping any other running program
+  async startProgram(id: string) {
+    const { data: { user } } = await api.supabase.auth.getUser();
+    if (!user) throw new Error("User not found");
+
+    const { error: stopError } = await api.supabase
+      .from("programs")
+      .update({ is_active: false })
+      .eq("user_id", user.id)
+      .eq("is_active", true);
+
+    if (stopError) throw stopError;
+
+    const { error } = await api.supabase
+      .from("programs")
+      .update({
+        is_active: true,
+        current_week: 0,
+        current_day: 0,
+        started_at: new Date().toISOString(),
+        completed_at: null,
+      })
+      .eq("id", id);
+
+    if (error) throw error;
+  },
+
+  async stopProgram(id: string) {
+    const { error } = await api.supabase
+      .from("programs")
+      .update({ is_active: false })
+      .eq("id", id);
+
+    if (error) throw error;
+  },
+
+  // Moves the program on by one session and returns it at its new position
+  async advanceProgram(program: Program): Promise<Program> {
+    const next = advanceProgram(program);
+    const completedAt = next.finished ? new Date().toISOString() : null;
+
+    const { error } = await api.supabase
+      .from("programs")
+      .update({
+        current_week: next.current_week,
+        current_day: next.current_day,
+        completed_at: completedAt,
+        is_active: !next.finished,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", program.id);
+
+    if (error) throw error;
+    return { ...program, ...next, completed_at: completedAt, is_active: !next.finished };
+  },
+
+  // Creates a library program's routines and, optionally, a program that runs them
+  async importLibraryProgram(
+    program: LibraryProgram,
+    exercisesByRoutine: LibraryExerciseRow[][],
+    createProgram: boolean
+  ) {
+    const { data: { user } } = await api.supabase.auth.getUser();
+    if (!user) throw new Error("User not found");
+
+    const workoutIds: string[] = [];
+    for (const [index, routine] of program.routines.entries()) {
+      const workout = await workoutService.createRoutine(
+        { title: routine.title, duration: routine.duration, notes: `From the ${program.name} program` },
+        exercisesByRoutine[index]
+      );
+      workoutIds.push(workout.id);
+    }
+
+    if (!createProgram) return;
+
+    const { error } = await api.supabase
+      .from("programs")
+      .insert({
+        user_id: user.id,
+        name: program.name,
+        description: program.description,
+        days: program.schedule.map(index => ({
+          workout_id: workoutIds[index],
+          label: program.routines[index].label,
+        })),
+        weeks: program.weeks,
+      });
+
+    if (error) throw error;
+  },
+};
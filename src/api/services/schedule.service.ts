@@ -0,0 +1,71 @@
+import { api } from "../config";
+import { ScheduleMode, TrainingSchedule } from "@/types/workout";
+import { ScheduledSession, parseScheduleSlots } from "@/lib/schedule-utils";
+
+export const scheduleService = {
+  async getSchedule(): Promise<TrainingSchedule | null> {
+    const { data: { user } } = await api.supabase.auth.getUser();
+    if (!user) throw new Error("User not found");
+
+    const { data, error } = await api.supabase
+      .from("training_schedules")
+      .select("id, mode, slots, start_date")
+      .eq("user_id", user.id)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) return null;
+
+    return {
+      id: data.id,
+      mode: data.mode as ScheduleMode,
+      slots: parseScheduleSlots(data.slots),
+      start_date: data.start_date,
+    };
+  },
+
+  async saveSchedule(schedule: TrainingSchedule) {
+    const { data: { user } } = await api.supabase.auth.getUser();
+    if (!user) throw new Error("User not found");
+
+    const { error } = await api.supabase
+      .from("training_schedules")
+      .upsert({
+        user_id: user.id,
+        mode: schedule.mode,
+        slots: schedule.slots,
+        start_date: schedule.start_date,
+        updated_at: new Date().toISOString(),
+      }, { onConflict: "user_id" });
+
+    if (error) throw error;
+  },
+
+  async deleteSchedule() {
+    const { data: { user } } = await api.supabase.auth.getUser();
+    if (!user) throw new Error("User not found");
+
+    const { error } = await api.supabase
+      .from("training_schedules")
+      .delete()
+      .eq("user_id", user.id);
+
+    if (error) throw error;
+  },
+
+  async getCompletedSessions(start: Date, end: Date): Promise<ScheduledSession[]> {
+    const { data: { user } } = await api.supabase.auth.getUser();
+    if (!user) throw new Error("User not found");
+
+    const { data, error } = await api.supabase
+      .from("completed_workouts")
+      .select("id, workout_id, completed_at")
+      .eq("user_id", user.id)
+      .gte("completed_at", start.toISOString())
+      .lte("completed_at", end.toISOString())
+      .order("completed_at", { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  },
+};
@@ -0,0 +1,113 @@
+import { api } from "../config";
+import type { Json } from "@/integrations/supabase/types";
+import { ActiveWorkoutSession, Exercise, LoggedSet } from "@/types/workout";
+import { EMPTY_WORKOUT_ID } from "@/lib/session-edits";
+
+const STORAGE_KEY = "lifted-active-session";
+
+const readLocalSession = (): ActiveWorkoutSession | null => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : null;
+  } catch (error) {
+    console.error("Error reading saved session:", error);
+    return null;
+  }
+};
+
+export const sessionService = {
+  saveLocalSession(session: ActiveWorkoutSession) {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(session));
+  },
+
+  async saveRemoteSession(session: ActiveWorkoutSession) {
+    const { data: { user } } = await api.supabase.auth.getUser();
+    if (!user) throw new Error("User not authenticated");
+
+    const { error } = await api.supabase
+      .from("rest_timers")
+      .upsert({
+        user_id: user.id,
+        workout_id: session.workout_id === EMPTY_WORKOUT_ID ? null : session.workout_id,
+        workout_title: session.workout_title,
+        current_exercise_index: session.current_exercise_index,
+        current_set_index: session.current_set_index,
+        started_at: session.started_at,
+        is_resting: session.is_resting,
+        is_paused: session.is_paused,
+        end_time: session.rest_ends_at,
+        rest_remaining: session.rest_remaining,
+        is_interval_active: session.is_interval_active ?? false,
+        interval_step_index: session.interval_step_index ?? 0,
+        amrap_rounds: session.amrap_rounds ?? 0,
+        logged_sets: session.logged_sets as unknown as Json,
+        workout_notes: session.workout_notes || null,
+        exercises: (session.exercises ?? null) as unknown as Json,
+        updated_at: session.updated_at,
+      }, { onConflict: "user_id" });
+
+    if (error) throw error;
+  },
+
+  async getActiveSession(): Promise<ActiveWorkoutSession | null> {
+    const localSession = readLocalSession();
+
+    try {
+      const { data: { user } } = await api.supabase.auth.getUser();
+      if (!user) return localSession;
+
+      const { data, error } = await api.supabase
+        .from("rest_timers")
+        .select("*")
+        .eq("user_id", user.id)
+        // Free-form sessions have no routine, but every session has a start time
+        .not("started_at", "is", null)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!data) return localSession;
+
+      const remoteSession: ActiveWorkoutSession = {
+        workout_id: data.workout_id ?? EMPTY_WORKOUT_ID,
+        workout_title: data.workout_title || "Workout",
+        current_exercise_index: data.current_exercise_index,
+        current_set_index: data.current_set_index,
+        started_at: data.started_at,
+        is_resting: data.is_resting,
+        is_paused: data.is_paused,
+        rest_ends_at: data.end_time,
+        rest_remaining: data.rest_remaining,
+        is_interval_active: data.is_interval_active,
+        interval_step_index: data.interval_step_index,
+        amrap_rounds: data.amrap_rounds,
+        logged_sets: data.logged_sets as unknown as LoggedSet[],
+        workout_notes: data.workout_notes || "",
+        exercises: data.exercises as unknown as Exercise[] | null,
+        updated_at: data.updated_at,
+      };
+
+      // Prefer whichever copy was written last
+      if (!localSession || new Date(remoteSession.updated_at) > new Date(localSession.updated_at)) {
+        return remoteSession;
+      }
+      return localSession;
+    } catch (error) {
+      console.error("Error fetching active session:", error);
+      return localSession;
+    }
+  },
+
+  async clearSession() {
+    localStorage.removeItem(STORAGE_KEY);
+
+    const { data: { user } } = await api.supabase.auth.getUser();
+    if (!user) return;
+
+    const { error } = await api.supabase
+      .from("rest_timers")
+      .delete()
+      .eq("user_id", user.id);
+
+    if (error) throw error;
+  },
+};
@@ -4,6 +4,7 @@ import type { Database } from "@/integrations/supabase/types";
 
 type Workout = Database["public"]["Tables"]["workouts"]["Row"];
 type Exercise = Database["public"]["Tables"]["exercises"]["Row"];
+type ExerciseInsert = Database["public"]["Tables"]["exercises"]["Insert"];
 
 export const workoutService = {
   async getWorkouts() {
@@ -44,6 +45,24 @@ export const workoutService = {
     return data;
   },
 
+  // Creates a routine for the current user together with its exercises
+  async createRoutine(
+    routine: Pick<Workout, "title" | "duration" | "notes">,
+    exercises: Omit<ExerciseInsert, "workout_id">[]
+  ) {
+    const { data: { user } } = await api.supabase.auth.getUser();
+    if (!user) throw new Error("User not authenticated");
+
+    const workout = await this.createWorkout({ ...routine, user_id: user.id, default_rest_time: null });
+
+    const { error } = await api.supabase
+      .from("exercises")
+      .insert(exercises.map(exercise => ({ ...exercise, workout_id: workout.id })));
+
+    if (error) throw error;
+    return workout;
+  },
+
   async deleteWorkout(id: string) {
     const { error } = await api.supabase
       .from("workouts")
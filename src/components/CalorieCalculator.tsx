@@ -7,18 +7,22 @@ import { Label } from "@/components/ui/label";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Calculator } from "lucide-react";
+import { HeightInput } from "@/components/HeightInput";
+import { useUnits } from "@/hooks/useUnits";
 
 export function CalorieCalculator({ onCalculate }: { onCalculate: (calories: number) => void }) {
   const [weight, setWeight] = useState<string>("");
-  const [height, setHeight] = useState<string>("");
+  // Height is kept in cm whichever unit it is entered in
+  const [height, setHeight] = useState<number | null>(null);
   const [age, setAge] = useState<string>("");
   const [gender, setGender] = useState<string>("male");
   const [activityLevel, setActivityLevel] = useState<string>("moderate");
   const [goal, setGoal] = useState<string>("maintain");
+  const { weightUnit, heightUnit, fromDisplayWeight } = useUnits();
   
   const calculateBMR = () => {
-    const weightKg = parseFloat(weight);
-    const heightCm = parseFloat(height);
+    const weightKg = fromDisplayWeight(parseFloat(weight));
+    const heightCm = height ?? NaN;
     const ageYears = parseInt(age);
     
     if (isNaN(weightKg) || isNaN(heightCm) || isNaN(ageYears)) {
@@ -80,24 +84,18 @@ export function CalorieCalculator({ onCalculate }: { onCalculate: (calories: num
       <CardContent className="space-y-4">
         <div className="grid grid-cols-2 gap-4">
           <div className="space-y-2">
-            <Label htmlFor="weight">Weight (kg)</Label>
+            <Label htmlFor="weight">Weight ({weightUnit})</Label>
             <Input
               id="weight"
               type="number"
-              placeholder="70"
+              placeholder={weightUnit === "lb" ? "155" : "70"}
               value={weight}
               onChange={(e) => setWeight(e.target.value)}
             />
           </div>
           <div className="space-y-2">
-            <Label htmlFor="height">Height (cm)</Label>
-            <Input
-              id="height"
-              type="number"
-              placeholder="175"
-              value={height}
-              onChange={(e) => setHeight(e.target.value)}
-            />
+            <Label htmlFor="height">Height ({heightUnit === "cm" ? "cm" : "ft/in"})</Label>
+            <HeightInput id="height" value={height} unit={heightUnit} onChange={setHeight} />
           </div>
         </div>
         
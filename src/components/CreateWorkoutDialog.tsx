@@ -1,5 +1,5 @@
 
-import { useState } from "react";
+import { useState, Fragment } from "react";
 import { useForm } from "react-hook-form";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
@@ -13,31 +13,49 @@ import { useToast } from "@/components/ui/use-toast";
 import { useQueryClient } from "@tanstack/react-query";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Card, CardContent, CardHeader } from "@/components/ui/card";
-import { Exercise, ExerciseTemplate } from "@/types/workout";
+import { Exercise, ExerciseTemplate, IntervalSettings, TrackingType } from "@/types/workout";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { v4 as uuidv4 } from "uuid";
 import { Slider } from "@/components/ui/slider";
 import { ExerciseSearch } from "@/components/ExerciseSearch";
 import { useIsMobile } from "@/hooks/use-mobile";
+import { useUnits } from "@/hooks/useUnits";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
+import { linkWithNext, normalizeGroups, unlinkFromNext, updateGroup } from "@/lib/exercise-groups";
+import { GroupHeader, GroupLinkToggle } from "@/components/ExerciseGroupControls";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Checkbox } from "@/components/ui/checkbox";
+import { TRACKING_TYPE_LABELS, formatSetTarget, tracksDistance, tracksReps, tracksTime } from "@/lib/tracking-utils";
+import { describeIntervals } from "@/lib/interval-utils";
+import { parseTemplateMuscles } from "@/lib/muscle-utils";
+import { IntervalSettingsFields } from "@/components/IntervalSettingsFields";
 
 interface ExerciseInputProps {
   onAddExercise: (exercise: Exercise) => void;
   defaultRestTime: number;
   templates: ExerciseTemplate[];
+  onTemplateCreated: (template: ExerciseTemplate) => void;
 }
 
-const ExerciseInput = ({ onAddExercise, defaultRestTime, templates }: ExerciseInputProps) => {
+const ExerciseInput = ({ onAddExercise, defaultRestTime, templates, onTemplateCreated }: ExerciseInputProps) => {
   const [name, setName] = useState("");
   const [sets, setSets] = useState("3");
   const [reps, setReps] = useState("10");
+  const [trackingType, setTrackingType] = useState<TrackingType>("reps");
+  const [duration, setDuration] = useState("60");
+  const [distance, setDistance] = useState("");
+  const [intervals, setIntervals] = useState<IntervalSettings>({});
+  const [warmupSets, setWarmupSets] = useState("0");
+  const [dropSets, setDropSets] = useState("0");
+  const [lastSetToFailure, setLastSetToFailure] = useState(false);
   const [weight, setWeight] = useState("");
   const [notes, setNotes] = useState("");
   const [restTime, setRestTime] = useState(defaultRestTime);
   const [activeTab, setActiveTab] = useState("manual");
   const { toast } = useToast();
   const isMobile = useIsMobile();
+  const { weightUnit, fromDisplayWeight } = useUnits();
 
   const handleAddExercise = () => {
     if (!name) {
@@ -49,7 +67,7 @@ const ExerciseInput = ({ onAddExercise, defaultRestTime, templates }: ExerciseIn
       return;
     }
 
-    if (!sets || !reps) {
+    if (!sets || (tracksReps(trackingType) && !reps)) {
       toast({
         variant: "destructive",
         title: "Sets and reps required",
@@ -58,14 +76,30 @@ const ExerciseInput = ({ onAddExercise, defaultRestTime, templates }: ExerciseIn
       return;
     }
 
+    if ((tracksTime(trackingType) && !duration) || (tracksDistance(trackingType) && !distance)) {
+      toast({
+        variant: "destructive",
+        title: "Target required",
+        description: "Please specify the time or distance for each set."
+      });
+      return;
+    }
+
     const exercise: Exercise = {
       id: uuidv4(),
       name,
       sets: parseInt(sets),
-      reps: parseInt(reps),
-      weight: weight ? parseFloat(weight) : null,
+      reps: parseInt(reps) || 0,
+      weight: weight ? fromDisplayWeight(parseFloat(weight)) : null,
       notes: notes || null,
       rest_time: restTime,
+      tracking_type: trackingType,
+      duration_seconds: tracksTime(trackingType) ? parseInt(duration) : null,
+      distance_meters: tracksDistance(trackingType) ? parseFloat(distance) : null,
+      warmup_sets: parseInt(warmupSets) || 0,
+      drop_sets: parseInt(dropSets) || 0,
+      last_set_to_failure: lastSetToFailure,
+      ...intervals,
     };
 
     onAddExercise(exercise);
@@ -73,6 +107,13 @@ const ExerciseInput = ({ onAddExercise, defaultRestTime, templates }: ExerciseIn
     setName("");
     setSets("3");
     setReps("10");
+    setTrackingType("reps");
+    setDuration("60");
+    setDistance("");
+    setIntervals({});
+    setWarmupSets("0");
+    setDropSets("0");
+    setLastSetToFailure(false);
     setWeight("");
     setNotes("");
   };
@@ -80,6 +121,7 @@ const ExerciseInput = ({ onAddExercise, defaultRestTime, templates }: ExerciseIn
   const handleSelectTemplate = (template: ExerciseTemplate) => {
     setName(template.name);
     setNotes(template.description || "");
+    setTrackingType(template.tracking_type || "reps");
     setActiveTab("manual");
   };
 
@@ -113,6 +155,19 @@ const ExerciseInput = ({ onAddExercise, defaultRestTime, templates }: ExerciseIn
                   className="border-primary/20 focus:border-primary"
                 />
               </div>
+              <div className="space-y-2">
+                <Label htmlFor="tracking-type">Tracking</Label>
+                <Select value={trackingType} onValueChange={(value) => setTrackingType(value as TrackingType)}>
+                  <SelectTrigger id="tracking-type" className="border-primary/20 focus:border-primary">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(TRACKING_TYPE_LABELS) as TrackingType[]).map((type) => (
+                      <SelectItem key={type} value={type}>{TRACKING_TYPE_LABELS[type]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
               <div className="grid grid-cols-2 gap-3">
                 <div className="space-y-2">
                   <Label htmlFor="sets">Sets</Label>
@@ -125,22 +180,82 @@ const ExerciseInput = ({ onAddExercise, defaultRestTime, templates }: ExerciseIn
                     className="border-primary/20 focus:border-primary"
                   />
                 </div>
-                <div className="space-y-2">
-                  <Label htmlFor="reps">Reps</Label>
-                  <Input
-                    id="reps"
-                    type="number"
-                    placeholder="10"
-                    value={reps}
-                    onChange={(e) => setReps(e.target.value)}
-                    className="border-primary/20 focus:border-primary"
-                  />
-                </div>
+                {tracksReps(trackingType) && (
+                  <div className="space-y-2">
+                    <Label htmlFor="reps">Reps</Label>
+                    <Input
+                      id="reps"
+                      type="number"
+                      placeholder="10"
+                      value={reps}
+                      onChange={(e) => setReps(e.target.value)}
+                      className="border-primary/20 focus:border-primary"
+                    />
+                  </div>
+                )}
+                {tracksTime(trackingType) && (
+                  <div className="space-y-2">
+                    <Label htmlFor="duration-seconds">Time (seconds)</Label>
+                    <Input
+                      id="duration-seconds"
+                      type="number"
+                      placeholder="60"
+                      value={duration}
+                      onChange={(e) => setDuration(e.target.value)}
+                      className="border-primary/20 focus:border-primary"
+                    />
+                  </div>
+                )}
+                {tracksDistance(trackingType) && (
+                  <div className="space-y-2">
+                    <Label htmlFor="distance-meters">Distance (m)</Label>
+                    <Input
+                      id="distance-meters"
+                      type="number"
+                      placeholder="400"
+                      value={distance}
+                      onChange={(e) => setDistance(e.target.value)}
+                      className="border-primary/20 focus:border-primary"
+                    />
+                  </div>
+                )}
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="warmup-sets">Warm-up sets</Label>
+                <Input
+                  id="warmup-sets"
+                  type="number"
+                  min="0"
+                  value={warmupSets}
+                  onChange={(e) => setWarmupSets(e.target.value)}
+                  className="border-primary/20 focus:border-primary"
+                />
               </div>
+              <div className="space-y-2">
+                <Label htmlFor="drop-sets">Drop sets</Label>
+                <Input
+                  id="drop-sets"
+                  type="number"
+                  min="0"
+                  value={dropSets}
+                  onChange={(e) => setDropSets(e.target.value)}
+                  className="border-primary/20 focus:border-primary"
+                />
+              </div>
+            </div>
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="last-set-to-failure"
+                checked={lastSetToFailure}
+                onCheckedChange={(checked) => setLastSetToFailure(checked === true)}
+              />
+              <Label htmlFor="last-set-to-failure">Take the last working set to failure</Label>
             </div>
             <div className="grid grid-cols-1 gap-4">
               <div className="space-y-2">
-                <Label htmlFor="weight">Weight (kg, optional)</Label>
+                <Label htmlFor="weight">Weight ({weightUnit}, optional)</Label>
                 <Input
                   id="weight"
                   type="number"
@@ -163,6 +278,7 @@ const ExerciseInput = ({ onAddExercise, defaultRestTime, templates }: ExerciseIn
                 />
               </div>
             </div>
+            <IntervalSettingsFields id="new-exercise" settings={intervals} onChange={setIntervals} />
             <div className="space-y-2">
               <Label htmlFor="notes">Notes (optional)</Label>
               <Textarea
@@ -184,6 +300,10 @@ const ExerciseInput = ({ onAddExercise, defaultRestTime, templates }: ExerciseIn
               templates={templates} 
               onSelectTemplate={handleSelectTemplate} 
               placeholder="Search exercises..."
+              onCustomExerciseCreated={(template) => {
+                onTemplateCreated(template);
+                handleSelectTemplate(template);
+              }}
             />
           </TabsContent>
         </Tabs>
@@ -224,11 +344,14 @@ export const CreateWorkoutDialog = () => {
     try {
       const { data, error } = await supabase
         .from("exercise_templates")
-        .select("*")
+        .select("*, exercise_muscles (role, muscles (*))")
         .order("name");
       
       if (error) throw error;
-      setTemplates(data || []);
+      setTemplates((data || []).map(({ exercise_muscles, ...template }) => ({
+        ...template,
+        muscles: parseTemplateMuscles(exercise_muscles),
+      })) as ExerciseTemplate[]);
     } catch (error: any) {
       console.error("Error fetching exercise templates:", error.message);
     }
@@ -252,7 +375,7 @@ export const CreateWorkoutDialog = () => {
     // Swap the exercises
     [newExercises[index], newExercises[newIndex]] = [newExercises[newIndex], newExercises[index]];
     
-    setExercises(newExercises);
+    setExercises(normalizeGroups(newExercises));
   };
 
   const onSubmit = async (data: any) => {
@@ -378,56 +501,77 @@ export const CreateWorkoutDialog = () => {
                 onAddExercise={(exercise) => setExercises([...exercises, exercise])}
                 defaultRestTime={defaultRestTime}
                 templates={templates}
+                onTemplateCreated={(template) => setTemplates([...templates, template])}
               />
 
               {exercises.length > 0 && (
                 <div className="max-h-[300px] overflow-y-auto pr-1 mt-4">
                   <div className="space-y-2">
                     {exercises.map((exercise, index) => (
-                      <Card key={exercise.id} className="border-gray-200 dark:border-gray-700">
-                        <CardContent className="p-3 flex justify-between items-center">
-                          <div className="flex-1">
-                            <div className="flex items-center gap-2">
-                              <Badge variant="outline">#{index + 1}</Badge>
-                              <div className="font-medium">{exercise.name}</div>
+                      <Fragment key={exercise.id}>
+                        {exercise.group_id && exercise.group_type && exercises[index - 1]?.group_id !== exercise.group_id && (
+                          <GroupHeader
+                            groupType={exercise.group_type}
+                            rounds={exercise.group_rounds || exercise.sets}
+                            onTypeChange={(type) => setExercises(updateGroup(exercises, exercise.group_id, { group_type: type }))}
+                            onRoundsChange={(rounds) => setExercises(updateGroup(exercises, exercise.group_id, { group_rounds: rounds }))}
+                          />
+                        )}
+                        <Card className="border-gray-200 dark:border-gray-700">
+                          <CardContent className="p-3 flex justify-between items-center">
+                            <div className="flex-1">
+                              <div className="flex items-center gap-2">
+                                <Badge variant="outline">#{index + 1}</Badge>
+                                <div className="font-medium">{exercise.name}</div>
+                              </div>
+                              <div className="text-sm text-muted-foreground mt-1 flex gap-2">
+                                <span className="bg-secondary/10 p-1 px-2 rounded-md">{exercise.sets} × {formatSetTarget(exercise)}</span>
+                                <span className="bg-secondary/10 p-1 px-2 rounded-md flex items-center">
+                                  <Clock className="h-3 w-3 mr-1 opacity-70" /> {exercise.rest_time}s
+                                </span>
+                                {exercise.interval_mode && (
+                                  <span className="bg-secondary/10 p-1 px-2 rounded-md">{describeIntervals(exercise)}</span>
+                                )}
+                              </div>
                             </div>
-                            <div className="text-sm text-muted-foreground mt-1 flex gap-2">
-                              <span className="bg-secondary/10 p-1 px-2 rounded-md">{exercise.sets} × {exercise.reps}</span>
-                              <span className="bg-secondary/10 p-1 px-2 rounded-md flex items-center">
-                                <Clock className="h-3 w-3 mr-1 opacity-70" /> {exercise.rest_time}s
-                              </span>
+                            <div className="flex items-center gap-1">
+                              <Button 
+                                variant="ghost" 
+                                size="sm"
+                                onClick={() => moveExercise(index, 'up')}
+                                className="text-gray-500" 
+                                disabled={index === 0}
+                              >
+                                <MoveUp className="h-4 w-4" />
+                              </Button>
+                              <Button 
+                                variant="ghost" 
+                                size="sm"
+                                onClick={() => moveExercise(index, 'down')}
+                                className="text-gray-500"
+                                disabled={index === exercises.length - 1}
+                              >
+                                <MoveDown className="h-4 w-4" />
+                              </Button>
+                              <Button 
+                                variant="ghost" 
+                                size="sm" 
+                                onClick={() => setExercises(normalizeGroups(exercises.filter((_, i) => i !== index)))} 
+                                className="text-destructive hover:text-destructive/90"
+                              >
+                                <XCircle className="h-4 w-4" />
+                              </Button>
                             </div>
-                          </div>
-                          <div className="flex items-center gap-1">
-                            <Button 
-                              variant="ghost" 
-                              size="sm"
-                              onClick={() => moveExercise(index, 'up')}
-                              className="text-gray-500" 
-                              disabled={index === 0}
-                            >
-                              <MoveUp className="h-4 w-4" />
-                            </Button>
-                            <Button 
-                              variant="ghost" 
-                              size="sm"
-                              onClick={() => moveExercise(index, 'down')}
-                              className="text-gray-500"
-                              disabled={index === exercises.length - 1}
-                            >
-                              <MoveDown className="h-4 w-4" />
-                            </Button>
-                            <Button 
-                              variant="ghost" 
-                              size="sm" 
-                              onClick={() => setExercises(exercises.filter((_, i) => i !== index))} 
-                              className="text-destructive hover:text-destructive/90"
-                            >
-                              <XCircle className="h-4 w-4" />
-                            </Button>
-                          </div>
-                        </CardContent>
-                      </Card>
+                          </CardContent>
+                        </Card>
+                        {index < exercises.length - 1 && (
+                          <GroupLinkToggle
+                            linked={!!exercise.group_id && exercises[index + 1].group_id === exercise.group_id}
+                            onLink={() => setExercises(linkWithNext(exercises, index))}
+                            onUnlink={() => setExercises(unlinkFromNext(exercises, index))}
+                          />
+                        )}
+                      </Fragment>
                     ))}
                   </div>
                 </div>
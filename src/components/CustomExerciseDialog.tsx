@@ -0,0 +1,234 @@
+import { useEffect, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/components/ui/use-toast";
+import { exerciseService } from "@/api/services/exercise.service";
+import { muscleService } from "@/api/services/muscle.service";
+import { ExerciseTemplate, MuscleRole, TrackingType } from "@/types/workout";
+import { MUSCLE_ROLE_LABELS, getMuscleDisplayName } from "@/lib/muscle-utils";
+import { TRACKING_TYPE_LABELS } from "@/lib/tracking-utils";
+
+const NOT_TRAINED = "none";
+
+interface CustomExerciseDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // The custom exercise to edit; a new one is created without it
+  exercise?: ExerciseTemplate | null;
+  defaultName?: string;
+  onSaved?: (template: ExerciseTemplate) => void;
+}
+
+export function CustomExerciseDialog({ open, onOpenChange, exercise, defaultName, onSaved }: CustomExerciseDialogProps) {
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [instructions, setInstructions] = useState("");
+  const [mediaUrl, setMediaUrl] = useState("");
+  const [trackingType, setTrackingType] = useState<TrackingType>("reps");
+  const [roles, setRoles] = useState<Record<number, MuscleRole>>({});
+  const [equipmentIds, setEquipmentIds] = useState<number[]>([]);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: muscles = [] } = useQuery({
+    queryKey: ["muscles"],
+    queryFn: () => muscleService.getMuscles(),
+    enabled: open,
+  });
+
+  const { data: equipment = [] } = useQuery({
+    queryKey: ["equipment"],
+    queryFn: () => exerciseService.getEquipment(),
+    enabled: open,
+  });
+
+  useEffect(() => {
+    if (!open) return;
+    setName(exercise?.name || defaultName || "");
+    setDescription(exercise?.description || "");
+    setInstructions(exercise?.instructions || "");
+    setMediaUrl(exercise?.media_url || "");
+    setTrackingType(exercise?.tracking_type || "reps");
+    setRoles(Object.fromEntries((exercise?.muscles || []).map(link => [link.muscle.id, link.role])));
+    setEquipmentIds(exercise?.equipment_ids || []);
+  }, [open, exercise, defaultName]);
+
+  const handleRoleChange = (muscleId: number, value: string) => {
+    setRoles(prev => {
+      const { [muscleId]: _removed, ...rest } = prev;
+      return value === NOT_TRAINED ? rest : { ...rest, [muscleId]: value as MuscleRole };
+    });
+  };
+
+  const toggleEquipment = (id: number) => {
+    setEquipmentIds(prev => prev.includes(id) ? prev.filter(item => item !== id) : [...prev, id]);
+  };
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      toast({
+        variant: "destructive",
+        title: "Exercise name required",
+        description: "Please enter a name for the exercise.",
+      });
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const template = await exerciseService.saveCustomExercise({
+        name: name.trim(),
+        description: description.trim(),
+        instructions: instructions.trim() || null,
+        media_url: mediaUrl.trim() || null,
+        tracking_type: trackingType,
+        muscles: Object.entries(roles).map(([muscleId, role]) => ({ muscle_id: Number(muscleId), role })),
+        equipment_ids: equipmentIds,
+      }, exercise?.id);
+
+      queryClient.invalidateQueries({ queryKey: ["exerciseLibrary"] });
+      queryClient.invalidateQueries({ queryKey: ["exerciseTemplates"] });
+      queryClient.invalidateQueries({ queryKey: ["generatorCandidates"] });
+
+      toast({
+        title: exercise ? "Exercise updated" : "Exercise created",
+        description: `${template.name} is available in your routines.`,
+      });
+      onSaved?.(template);
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error saving exercise",
+        description: (error as Error).message,
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[600px]">
+        <DialogHeader>
+          <DialogTitle>{exercise ? "Edit Custom Exercise" : "New Custom Exercise"}</DialogTitle>
+          <DialogDescription>
+            Custom exercises are only visible to you and keep your history under one name.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="max-h-[60vh] pr-3">
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="custom-exercise-name">Name</Label>
+                <Input id="custom-exercise-name" value={name} onChange={(e) => setName(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label>Tracking</Label>
+                <Select value={trackingType} onValueChange={(value) => setTrackingType(value as TrackingType)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(TRACKING_TYPE_LABELS) as TrackingType[]).map(type => (
+                      <SelectItem key={type} value={type}>{TRACKING_TYPE_LABELS[type]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="custom-exercise-description">Description</Label>
+              <Textarea
+                id="custom-exercise-description"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                rows={2}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="custom-exercise-instructions">Instructions (one step per line)</Label>
+              <Textarea
+                id="custom-exercise-instructions"
+                value={instructions}
+                onChange={(e) => setInstructions(e.target.value)}
+                rows={3}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="custom-exercise-media">Image or video URL</Label>
+              <Input
+                id="custom-exercise-media"
+                value={mediaUrl}
+                onChange={(e) => setMediaUrl(e.target.value)}
+                placeholder="https://youtube.com/watch?v=..."
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Muscles trained</Label>
+              <div className="space-y-1">
+                {muscles.map(muscle => (
+                  <div key={muscle.id} className="flex items-center justify-between gap-2 text-sm">
+                    <span>{getMuscleDisplayName(muscle)}</span>
+                    <Select
+                      value={roles[muscle.id] ?? NOT_TRAINED}
+                      onValueChange={(value) => handleRoleChange(muscle.id, value)}
+                    >
+                      <SelectTrigger className="h-8 w-32 text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NOT_TRAINED}>Not trained</SelectItem>
+                        {(Object.keys(MUSCLE_ROLE_LABELS) as MuscleRole[]).map(role => (
+                          <SelectItem key={role} value={role}>{MUSCLE_ROLE_LABELS[role]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Equipment needed</Label>
+              <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+                {equipment.map(item => (
+                  <div key={item.id} className="flex items-center space-x-2">
+                    <Checkbox
+                      id={`custom-equipment-${item.id}`}
+                      checked={equipmentIds.includes(item.id)}
+                      onCheckedChange={() => toggleEquipment(item.id)}
+                    />
+                    <Label htmlFor={`custom-equipment-${item.id}`} className="text-sm font-normal">{item.name}</Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+        </ScrollArea>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button type="button" onClick={handleSave} disabled={saving}>
+            {exercise ? "Save Changes" : "Create Exercise"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
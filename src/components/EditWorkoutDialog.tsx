@@ -1,5 +1,5 @@
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, Fragment } from "react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -8,16 +8,35 @@ import { Trash2, Plus, Save, Search, Clock, Pencil, ListPlus, Dumbbell, BarChart
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/components/ui/use-toast";
 import { useQueryClient } from "@tanstack/react-query";
-import { ExerciseTemplate } from "@/types/workout";
+import {
+  ExerciseGroupType,
+  ExerciseTemplate,
+  IntervalMode,
+  IntervalSettings,
+  IntervalStep,
+  ProgressionSettings,
+  ProgressionType,
+  TrackingType
+} from "@/types/workout";
 import { Textarea } from "@/components/ui/textarea";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { ExerciseSearch } from "@/components/ExerciseSearch";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Separator } from "@/components/ui/separator";
 import { useIsMobile } from "@/hooks/use-mobile";
+import { useUnits } from "@/hooks/useUnits";
 import { Badge } from "@/components/ui/badge";
 import { Card, CardContent } from "@/components/ui/card";
 import { Slider } from "@/components/ui/slider";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Checkbox } from "@/components/ui/checkbox";
+import { PROGRESSION_LABELS, percentageWeight } from "@/lib/progression-utils";
+import { linkWithNext, normalizeGroups, unlinkFromNext, updateGroup } from "@/lib/exercise-groups";
+import { GroupHeader, GroupLinkToggle } from "@/components/ExerciseGroupControls";
+import { TRACKING_TYPE_LABELS, formatSetTarget, tracksDistance, tracksReps, tracksTime } from "@/lib/tracking-utils";
+import { describeIntervals } from "@/lib/interval-utils";
+import { IntervalSettingsFields } from "@/components/IntervalSettingsFields";
+import type { Json } from "@/integrations/supabase/types";
 
 interface EditWorkoutDialogProps {
   workoutId: string;
@@ -25,7 +44,7 @@ interface EditWorkoutDialogProps {
   onOpenChange: (open: boolean) => void;
 }
 
-interface Exercise {
+interface Exercise extends Partial<ProgressionSettings>, IntervalSettings {
   id: string;
   name: string;
   sets: number;
@@ -34,8 +53,64 @@ interface Exercise {
   rest_time?: number;
   notes?: string;
   order?: number;
+  group_id?: string | null;
+  group_type?: ExerciseGroupType | null;
+  group_rounds?: number | null;
+  tracking_type?: TrackingType;
+  duration_seconds?: number | null;
+  distance_meters?: number | null;
+  warmup_sets?: number;
+  drop_sets?: number;
+  last_set_to_failure?: boolean;
 }
 
+const NUMERIC_FIELDS: (keyof Exercise)[] = [
+  'sets', 'reps', 'weight', 'rest_time',
+  'progression_increment', 'rep_range_min', 'rep_range_max',
+  'training_max', 'training_max_percent', 'deload_after', 'deload_percent',
+  'duration_seconds', 'distance_meters', 'warmup_sets', 'drop_sets'
+];
+
+// Entered in the user's weight unit and stored in kg
+const WEIGHT_FIELDS: (keyof Exercise)[] = ['weight', 'progression_increment', 'training_max'];
+
+const progressionFields = (exercise: Exercise) => ({
+  progression_type: exercise.progression_type || 'none',
+  progression_increment: exercise.progression_increment ?? null,
+  rep_range_min: exercise.rep_range_min ?? null,
+  rep_range_max: exercise.rep_range_max ?? null,
+  training_max: exercise.training_max ?? null,
+  training_max_percent: exercise.training_max_percent ?? null,
+  deload_after: exercise.deload_after ?? null,
+  deload_percent: exercise.deload_percent ?? null
+});
+
+const groupFields = (exercise: Exercise) => ({
+  group_id: exercise.group_id ?? null,
+  group_type: exercise.group_type ?? null,
+  group_rounds: exercise.group_rounds ?? null
+});
+
+const trackingFields = (exercise: Exercise) => ({
+  tracking_type: exercise.tracking_type || 'reps',
+  duration_seconds: exercise.duration_seconds ?? null,
+  distance_meters: exercise.distance_meters ?? null
+});
+
+const setTypeFields = (exercise: Exercise) => ({
+  warmup_sets: exercise.warmup_sets || 0,
+  drop_sets: exercise.drop_sets || 0,
+  last_set_to_failure: exercise.last_set_to_failure || false
+});
+
+const intervalFields = (exercise: Exercise) => ({
+  interval_mode: exercise.interval_mode ?? null,
+  interval_work: exercise.interval_work ?? null,
+  interval_rest: exercise.interval_rest ?? null,
+  interval_rounds: exercise.interval_rounds ?? null,
+  interval_sequence: (exercise.interval_sequence ?? null) as Json
+});
+
 interface Workout {
   id: string;
   title: string;
@@ -53,6 +128,7 @@ export function EditWorkoutDialog({ workoutId, open, onOpenChange }: EditWorkout
   const [templates, setTemplates] = useState<ExerciseTemplate[]>([]);
   const [editMode, setEditMode] = useState<string | null>(null);
   const isMobile = useIsMobile();
+  const { weightUnit, toDisplayWeight, fromDisplayWeight, formatWeight } = useUnits();
   
   useEffect(() => {
     if (open && workoutId) {
@@ -72,7 +148,7 @@ export function EditWorkoutDialog({ workoutId, open, onOpenChange }: EditWorkout
         .order("name");
       
       if (error) throw error;
-      setTemplates(data || []);
+      setTemplates((data || []) as ExerciseTemplate[]);
     } catch (error: any) {
       console.error("Error fetching exercise templates:", error.message);
     }
@@ -92,7 +168,7 @@ export function EditWorkoutDialog({ workoutId, open, onOpenChange }: EditWorkout
       
       const { data: exercisesData, error: exercisesError } = await supabase
         .from("exercises")
-        .select("id, name, sets, reps, weight, rest_time, notes, order")
+        .select("id, name, sets, reps, weight, rest_time, notes, order, progression_type, progression_increment, rep_range_min, rep_range_max, training_max, training_max_percent, deload_after, deload_percent, group_id, group_type, group_rounds, tracking_type, duration_seconds, distance_meters, warmup_sets, drop_sets, last_set_to_failure, interval_mode, interval_work, interval_rest, interval_rounds, interval_sequence")
         .eq("workout_id", workoutId)
         .order('order', { ascending: true, nullsFirst: false });
       
@@ -100,7 +176,14 @@ export function EditWorkoutDialog({ workoutId, open, onOpenChange }: EditWorkout
       
       setWorkout({
         ...workoutData,
-        exercises: exercisesData || []
+        exercises: (exercisesData || []).map(exercise => ({
+          ...exercise,
+          progression_type: exercise.progression_type as ProgressionType,
+          group_type: exercise.group_type as ExerciseGroupType | null,
+          tracking_type: exercise.tracking_type as TrackingType,
+          interval_mode: exercise.interval_mode as IntervalMode | null,
+          interval_sequence: exercise.interval_sequence as unknown as IntervalStep[] | null
+        }))
       });
     } catch (error: any) {
       console.error("Error fetching workout details:", error);
@@ -144,7 +227,12 @@ export function EditWorkoutDialog({ workoutId, open, onOpenChange }: EditWorkout
               weight: exercise.weight,
               rest_time: exercise.rest_time,
               notes: exercise.notes,
-              order: index
+              order: index,
+              ...progressionFields(exercise),
+              ...groupFields(exercise),
+              ...trackingFields(exercise),
+              ...intervalFields(exercise),
+              ...setTypeFields(exercise)
             });
           
           if (error) throw error;
@@ -158,7 +246,12 @@ export function EditWorkoutDialog({ workoutId, open, onOpenChange }: EditWorkout
               weight: exercise.weight,
               rest_time: exercise.rest_time,
               notes: exercise.notes,
-              order: index  // Update order based on current position
+              order: index,  // Update order based on current position
+              ...progressionFields(exercise),
+              ...groupFields(exercise),
+              ...trackingFields(exercise),
+              ...intervalFields(exercise),
+              ...setTypeFields(exercise)
             })
             .eq("id", exercise.id);
           
@@ -189,12 +282,23 @@ export function EditWorkoutDialog({ workoutId, open, onOpenChange }: EditWorkout
     if (!workout) return;
     
     const newExercises = [...workout.exercises];
-    newExercises[index] = {
+    let parsed = NUMERIC_FIELDS.includes(field)
+      ? (value === '' ? null : Number(value))
+      : value;
+    if (WEIGHT_FIELDS.includes(field)) {
+      parsed = fromDisplayWeight(parsed);
+    }
+    const updated: Exercise = {
       ...newExercises[index],
-      [field]: field === 'sets' || field === 'reps' || field === 'weight' || field === 'rest_time'
-        ? Number(value)
-        : value
+      [field]: parsed
     };
+
+    // Percentage-based exercises derive their weight from the training max
+    if (updated.progression_type === 'percentage') {
+      updated.weight = percentageWeight(updated.training_max, updated.training_max_percent, weightUnit) ?? updated.weight;
+    }
+
+    newExercises[index] = updated;
     
     setWorkout({
       ...workout,
@@ -235,6 +339,7 @@ export function EditWorkoutDialog({ workoutId, open, onOpenChange }: EditWorkout
       weight: 0,
       rest_time: 60,
       notes: template.description,
+      tracking_type: template.tracking_type || 'reps',
       order: workout.exercises.length
     };
     
@@ -253,7 +358,7 @@ export function EditWorkoutDialog({ workoutId, open, onOpenChange }: EditWorkout
     if (!workout) return;
     
     const exerciseToRemove = workout.exercises[index];
-    const newExercises = workout.exercises.filter((_, i) => i !== index);
+    const newExercises = normalizeGroups(workout.exercises.filter((_, i) => i !== index));
     
     setWorkout({
       ...workout,
@@ -299,10 +404,15 @@ export function EditWorkoutDialog({ workoutId, open, onOpenChange }: EditWorkout
     
     setWorkout({
       ...workout,
-      exercises: newExercises
+      exercises: normalizeGroups(newExercises)
     });
   };
 
+  const setExercises = (exercises: Exercise[]) => {
+    if (!workout) return;
+    setWorkout({ ...workout, exercises });
+  };
+
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className={`sm:max-w-[700px] ${isMobile ? 'p-3' : ''} max-w-[95vw]`}>
@@ -391,6 +501,10 @@ export function EditWorkoutDialog({ workoutId, open, onOpenChange }: EditWorkout
                           templates={templates} 
                           onSelectTemplate={addTemplateExercise}
                           placeholder="Search by name or muscle..."
+                          onCustomExerciseCreated={(template) => {
+                            setTemplates([...templates, template]);
+                            addTemplateExercise(template);
+                          }}
                         />
                       </div>
                     </PopoverContent>
@@ -411,155 +525,393 @@ export function EditWorkoutDialog({ workoutId, open, onOpenChange }: EditWorkout
               ) : (
                 <div className="space-y-4 pr-1">
                   {workout.exercises.map((exercise, index) => (
-                    <Card key={exercise.id} className={`overflow-hidden border ${editMode === exercise.id ? 'border-primary border-2' : 'border-gray-200 dark:border-gray-700'}`}>
-                      <CardContent className="p-0">
-                        <div className="flex justify-between items-start p-4 bg-secondary/10">
-                          <div className="flex items-center">
-                            <Badge variant="outline" className="mr-2 bg-background">#{index + 1}</Badge>
-                            <h4 className="font-medium">{exercise.name || "New Exercise"}</h4>
-                          </div>
-                          <div className="flex gap-1">
-                            <Button
-                              variant="ghost"
-                              size="sm"
-                              onClick={() => moveExercise(index, 'up')}
-                              disabled={index === 0}
-                              className="h-8 text-gray-500"
-                            >
-                              <MoveUp className="h-3.5 w-3.5" />
-                            </Button>
-                            <Button
-                              variant="ghost"
-                              size="sm"
-                              onClick={() => moveExercise(index, 'down')}
-                              disabled={index === workout.exercises.length - 1}
-                              className="h-8 text-gray-500"
-                            >
-                              <MoveDown className="h-3.5 w-3.5" />
-                            </Button>
-                            <Button
-                              variant="ghost"
-                              size="sm"
-                              onClick={() => setEditMode(editMode === exercise.id ? null : exercise.id)}
-                              className="h-8 text-primary hover:text-primary/90 hover:bg-primary/10"
-                            >
-                              {editMode === exercise.id ? "Done" : "Edit"}
-                            </Button>
-                            <Button
-                              variant="ghost"
-                              size="sm"
-                              onClick={() => removeExercise(index)}
-                              className="h-8 text-destructive hover:text-destructive/90 hover:bg-destructive/10"
-                            >
-                              <Trash2 className="h-3.5 w-3.5" />
-                            </Button>
+                    <Fragment key={exercise.id}>
+                      {exercise.group_id && exercise.group_type && workout.exercises[index - 1]?.group_id !== exercise.group_id && (
+                        <GroupHeader
+                          groupType={exercise.group_type}
+                          rounds={exercise.group_rounds || exercise.sets}
+                          onTypeChange={(type) => setExercises(updateGroup(workout.exercises, exercise.group_id, { group_type: type }))}
+                          onRoundsChange={(rounds) => setExercises(updateGroup(workout.exercises, exercise.group_id, { group_rounds: rounds }))}
+                        />
+                      )}
+                      <Card className={`overflow-hidden border ${editMode === exercise.id ? 'border-primary border-2' : 'border-gray-200 dark:border-gray-700'}`}>
+                        <CardContent className="p-0">
+                          <div className="flex justify-between items-start p-4 bg-secondary/10">
+                            <div className="flex items-center">
+                              <Badge variant="outline" className="mr-2 bg-background">#{index + 1}</Badge>
+                              <h4 className="font-medium">{exercise.name || "New Exercise"}</h4>
+                            </div>
+                            <div className="flex gap-1">
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => moveExercise(index, 'up')}
+                                disabled={index === 0}
+                                className="h-8 text-gray-500"
+                              >
+                                <MoveUp className="h-3.5 w-3.5" />
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => moveExercise(index, 'down')}
+                                disabled={index === workout.exercises.length - 1}
+                                className="h-8 text-gray-500"
+                              >
+                                <MoveDown className="h-3.5 w-3.5" />
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => setEditMode(editMode === exercise.id ? null : exercise.id)}
+                                className="h-8 text-primary hover:text-primary/90 hover:bg-primary/10"
+                              >
+                                {editMode === exercise.id ? "Done" : "Edit"}
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => removeExercise(index)}
+                                className="h-8 text-destructive hover:text-destructive/90 hover:bg-destructive/10"
+                              >
+                                <Trash2 className="h-3.5 w-3.5" />
+                              </Button>
+                            </div>
                           </div>
-                        </div>
                         
-                        {editMode === exercise.id ? (
-                          <div className="p-4 space-y-4 bg-background">
-                            <div className="space-y-2">
-                              <Label htmlFor={`exercise-name-${index}`}>Exercise Name</Label>
-                              <Input
-                                id={`exercise-name-${index}`}
-                                value={exercise.name}
-                                onChange={(e) => handleExerciseChange(index, 'name', e.target.value)}
-                                className="border-primary/20 focus:border-primary"
-                              />
-                            </div>
-                            
-                            <div className="grid grid-cols-2 gap-3">
+                          {editMode === exercise.id ? (
+                            <div className="p-4 space-y-4 bg-background">
                               <div className="space-y-2">
-                                <Label htmlFor={`exercise-sets-${index}`}>Sets</Label>
+                                <Label htmlFor={`exercise-name-${index}`}>Exercise Name</Label>
                                 <Input
-                                  id={`exercise-sets-${index}`}
-                                  type="number"
-                                  min="1"
-                                  value={exercise.sets}
-                                  onChange={(e) => handleExerciseChange(index, 'sets', e.target.value)}
+                                  id={`exercise-name-${index}`}
+                                  value={exercise.name}
+                                  onChange={(e) => handleExerciseChange(index, 'name', e.target.value)}
                                   className="border-primary/20 focus:border-primary"
                                 />
                               </div>
+                            
                               <div className="space-y-2">
-                                <Label htmlFor={`exercise-reps-${index}`}>Reps</Label>
-                                <Input
-                                  id={`exercise-reps-${index}`}
-                                  type="number"
-                                  min="1"
-                                  value={exercise.reps}
-                                  onChange={(e) => handleExerciseChange(index, 'reps', e.target.value)}
-                                  className="border-primary/20 focus:border-primary"
-                                />
+                                <Label htmlFor={`exercise-tracking-${index}`}>Tracking</Label>
+                                <Select
+                                  value={exercise.tracking_type || 'reps'}
+                                  onValueChange={(value) => handleExerciseChange(index, 'tracking_type', value)}
+                                >
+                                  <SelectTrigger id={`exercise-tracking-${index}`} className="border-primary/20 focus:border-primary">
+                                    <SelectValue />
+                                  </SelectTrigger>
+                                  <SelectContent>
+                                    {(Object.keys(TRACKING_TYPE_LABELS) as TrackingType[]).map((type) => (
+                                      <SelectItem key={type} value={type}>{TRACKING_TYPE_LABELS[type]}</SelectItem>
+                                    ))}
+                                  </SelectContent>
+                                </Select>
                               </div>
-                            </div>
                             
-                            <div className="grid grid-cols-2 gap-3">
-                              <div className="space-y-2">
-                                <Label htmlFor={`exercise-weight-${index}`}>Weight (kg)</Label>
-                                <Input
-                                  id={`exercise-weight-${index}`}
-                                  type="number"
-                                  min="0"
-                                  step="0.5"
-                                  value={exercise.weight || 0}
-                                  onChange={(e) => handleExerciseChange(index, 'weight', e.target.value)}
-                                  className="border-primary/20 focus:border-primary"
-                                />
+                              <div className="grid grid-cols-2 gap-3">
+                                <div className="space-y-2">
+                                  <Label htmlFor={`exercise-sets-${index}`}>Sets</Label>
+                                  <Input
+                                    id={`exercise-sets-${index}`}
+                                    type="number"
+                                    min="1"
+                                    value={exercise.sets}
+                                    onChange={(e) => handleExerciseChange(index, 'sets', e.target.value)}
+                                    className="border-primary/20 focus:border-primary"
+                                  />
+                                </div>
+                                {tracksReps(exercise.tracking_type) && (
+                                  <div className="space-y-2">
+                                    <Label htmlFor={`exercise-reps-${index}`}>Reps</Label>
+                                    <Input
+                                      id={`exercise-reps-${index}`}
+                                      type="number"
+                                      min="1"
+                                      value={exercise.reps}
+                                      onChange={(e) => handleExerciseChange(index, 'reps', e.target.value)}
+                                      className="border-primary/20 focus:border-primary"
+                                    />
+                                  </div>
+                                )}
+                                {tracksTime(exercise.tracking_type) && (
+                                  <div className="space-y-2">
+                                    <Label htmlFor={`exercise-duration-${index}`}>Time (seconds)</Label>
+                                    <Input
+                                      id={`exercise-duration-${index}`}
+                                      type="number"
+                                      min="1"
+                                      value={exercise.duration_seconds ?? ""}
+                                      onChange={(e) => handleExerciseChange(index, 'duration_seconds', e.target.value)}
+                                      className="border-primary/20 focus:border-primary"
+                                    />
+                                  </div>
+                                )}
+                                {tracksDistance(exercise.tracking_type) && (
+                                  <div className="space-y-2">
+                                    <Label htmlFor={`exercise-distance-${index}`}>Distance (m)</Label>
+                                    <Input
+                                      id={`exercise-distance-${index}`}
+                                      type="number"
+                                      min="0"
+                                      value={exercise.distance_meters ?? ""}
+                                      onChange={(e) => handleExerciseChange(index, 'distance_meters', e.target.value)}
+                                      className="border-primary/20 focus:border-primary"
+                                    />
+                                  </div>
+                                )}
                               </div>
+                            
+                              <div className="grid grid-cols-2 gap-3">
+                                <div className="space-y-2">
+                                  <Label htmlFor={`exercise-weight-${index}`}>Weight ({weightUnit})</Label>
+                                  <Input
+                                    id={`exercise-weight-${index}`}
+                                    type="number"
+                                    min="0"
+                                    step="0.5"
+                                    value={toDisplayWeight(exercise.weight || 0)}
+                                    onChange={(e) => handleExerciseChange(index, 'weight', e.target.value)}
+                                    className="border-primary/20 focus:border-primary"
+                                  />
+                                </div>
                               
-                              <div className="space-y-2">
-                                <Label htmlFor={`exercise-rest-${index}`}>Rest Time ({exercise.rest_time || 60} sec)</Label>
-                                <Slider 
-                                  id={`exercise-rest-${index}`}
-                                  min={10} 
-                                  max={180} 
-                                  step={5} 
-                                  value={[exercise.rest_time || 60]}
-                                  onValueChange={(value) => handleExerciseChange(index, 'rest_time', value[0])}
+                                <div className="space-y-2">
+                                  <Label htmlFor={`exercise-rest-${index}`}>Rest Time ({exercise.rest_time || 60} sec)</Label>
+                                  <Slider 
+                                    id={`exercise-rest-${index}`}
+                                    min={10} 
+                                    max={180} 
+                                    step={5} 
+                                    value={[exercise.rest_time || 60]}
+                                    onValueChange={(value) => handleExerciseChange(index, 'rest_time', value[0])}
+                                  />
+                                </div>
+                              </div>
+                            
+                              <div className="grid grid-cols-2 gap-3">
+                                <div className="space-y-2">
+                                  <Label htmlFor={`exercise-warmups-${index}`}>Warm-up sets</Label>
+                                  <Input
+                                    id={`exercise-warmups-${index}`}
+                                    type="number"
+                                    min="0"
+                                    value={exercise.warmup_sets ?? 0}
+                                    onChange={(e) => handleExerciseChange(index, 'warmup_sets', e.target.value)}
+                                    className="border-primary/20 focus:border-primary"
+                                  />
+                                </div>
+                                <div className="space-y-2">
+                                  <Label htmlFor={`exercise-drops-${index}`}>Drop sets</Label>
+                                  <Input
+                                    id={`exercise-drops-${index}`}
+                                    type="number"
+                                    min="0"
+                                    value={exercise.drop_sets ?? 0}
+                                    onChange={(e) => handleExerciseChange(index, 'drop_sets', e.target.value)}
+                                    className="border-primary/20 focus:border-primary"
+                                  />
+                                </div>
+                              </div>
+                              <div className="flex items-center space-x-2">
+                                <Checkbox
+                                  id={`exercise-failure-${index}`}
+                                  checked={exercise.last_set_to_failure || false}
+                                  onCheckedChange={(checked) => handleExerciseChange(index, 'last_set_to_failure', checked === true)}
                                 />
+                                <Label htmlFor={`exercise-failure-${index}`}>Take the last working set to failure</Label>
+                              </div>
+                            
+                              <div className="space-y-3 rounded-md border p-3">
+                                <div className="space-y-2">
+                                  <Label htmlFor={`exercise-progression-${index}`}>Progression</Label>
+                                  <Select
+                                    value={exercise.progression_type || 'none'}
+                                    onValueChange={(value) => handleExerciseChange(index, 'progression_type', value)}
+                                  >
+                                    <SelectTrigger id={`exercise-progression-${index}`} className="border-primary/20 focus:border-primary">
+                                      <SelectValue placeholder="Select a scheme" />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                      {(Object.keys(PROGRESSION_LABELS) as ProgressionType[]).map((type) => (
+                                        <SelectItem key={type} value={type}>{PROGRESSION_LABELS[type]}</SelectItem>
+                                      ))}
+                                    </SelectContent>
+                                  </Select>
+                                </div>
+
+                                {exercise.progression_type && exercise.progression_type !== 'none' && (
+                                  <>
+                                    <div className="space-y-2">
+                                      <Label htmlFor={`exercise-increment-${index}`}>
+                                        {exercise.progression_type === 'percentage' ? 'Training max increase' : 'Weight increase'} ({weightUnit})
+                                      </Label>
+                                      <Input
+                                        id={`exercise-increment-${index}`}
+                                        type="number"
+                                        min="0"
+                                        step="0.5"
+                                        placeholder="2.5"
+                                        value={toDisplayWeight(exercise.progression_increment) ?? ""}
+                                        onChange={(e) => handleExerciseChange(index, 'progression_increment', e.target.value)}
+                                        className="border-primary/20 focus:border-primary"
+                                      />
+                                    </div>
+
+                                    {exercise.progression_type === 'double' && (
+                                      <div className="grid grid-cols-2 gap-3">
+                                        <div className="space-y-2">
+                                          <Label htmlFor={`exercise-rep-min-${index}`}>Min reps</Label>
+                                          <Input
+                                            id={`exercise-rep-min-${index}`}
+                                            type="number"
+                                            min="1"
+                                            value={exercise.rep_range_min ?? ""}
+                                            onChange={(e) => handleExerciseChange(index, 'rep_range_min', e.target.value)}
+                                            className="border-primary/20 focus:border-primary"
+                                          />
+                                        </div>
+                                        <div className="space-y-2">
+                                          <Label htmlFor={`exercise-rep-max-${index}`}>Max reps</Label>
+                                          <Input
+                                            id={`exercise-rep-max-${index}`}
+                                            type="number"
+                                            min="1"
+                                            value={exercise.rep_range_max ?? ""}
+                                            onChange={(e) => handleExerciseChange(index, 'rep_range_max', e.target.value)}
+                                            className="border-primary/20 focus:border-primary"
+                                          />
+                                        </div>
+                                      </div>
+                                    )}
+
+                                    {exercise.progression_type === 'percentage' && (
+                                      <div className="grid grid-cols-2 gap-3">
+                                        <div className="space-y-2">
+                                          <Label htmlFor={`exercise-tm-${index}`}>Training max ({weightUnit})</Label>
+                                          <Input
+                                            id={`exercise-tm-${index}`}
+                                            type="number"
+                                            min="0"
+                                            step="0.5"
+                                            value={toDisplayWeight(exercise.training_max) ?? ""}
+                                            onChange={(e) => handleExerciseChange(index, 'training_max', e.target.value)}
+                                            className="border-primary/20 focus:border-primary"
+                                          />
+                                        </div>
+                                        <div className="space-y-2">
+                                          <Label htmlFor={`exercise-tm-percent-${index}`}>% of training max</Label>
+                                          <Input
+                                            id={`exercise-tm-percent-${index}`}
+                                            type="number"
+                                            min="0"
+                                            max="100"
+                                            value={exercise.training_max_percent ?? ""}
+                                            onChange={(e) => handleExerciseChange(index, 'training_max_percent', e.target.value)}
+                                            className="border-primary/20 focus:border-primary"
+                                          />
+                                        </div>
+                                      </div>
+                                    )}
+
+                                    <div className="grid grid-cols-2 gap-3">
+                                      <div className="space-y-2">
+                                        <Label htmlFor={`exercise-deload-after-${index}`}>Deload after (failed sessions)</Label>
+                                        <Input
+                                          id={`exercise-deload-after-${index}`}
+                                          type="number"
+                                          min="0"
+                                          placeholder="Off"
+                                          value={exercise.deload_after ?? ""}
+                                          onChange={(e) => handleExerciseChange(index, 'deload_after', e.target.value)}
+                                          className="border-primary/20 focus:border-primary"
+                                        />
+                                      </div>
+                                      <div className="space-y-2">
+                                        <Label htmlFor={`exercise-deload-percent-${index}`}>Deload by (%)</Label>
+                                        <Input
+                                          id={`exercise-deload-percent-${index}`}
+                                          type="number"
+                                          min="0"
+                                          max="100"
+                                          placeholder="10"
+                                          value={exercise.deload_percent ?? ""}
+                                          onChange={(e) => handleExerciseChange(index, 'deload_percent', e.target.value)}
+                                          className="border-primary/20 focus:border-primary"
+                                        />
+                                      </div>
+                                    </div>
+                                  </>
+                                )}
                               </div>
-                            </div>
                             
-                            <div className="space-y-2">
-                              <Label htmlFor={`exercise-notes-${index}`}>Notes</Label>
-                              <Textarea
-                                id={`exercise-notes-${index}`}
-                                value={exercise.notes || ""}
-                                onChange={(e) => handleExerciseChange(index, 'notes', e.target.value)}
-                                placeholder="Any notes about this exercise..."
-                                className="max-h-[80px] border-primary/20 focus:border-primary"
+                              <IntervalSettingsFields
+                                id={`exercise-${index}`}
+                                settings={exercise}
+                                onChange={(settings) => setExercises(workout.exercises.map((item, i) => i === index ? { ...item, ...settings } : item))}
                               />
-                            </div>
-                          </div>
-                        ) : (
-                          <div className="p-4 space-y-2">
-                            <div className="grid grid-cols-3 gap-2 text-sm">
-                              <div className="bg-secondary/10 p-2 rounded">
-                                <p className="text-muted-foreground">Sets</p>
-                                <p className="font-medium">{exercise.sets}</p>
+                            
+                              <div className="space-y-2">
+                                <Label htmlFor={`exercise-notes-${index}`}>Notes</Label>
+                                <Textarea
+                                  id={`exercise-notes-${index}`}
+                                  value={exercise.notes || ""}
+                                  onChange={(e) => handleExerciseChange(index, 'notes', e.target.value)}
+                                  placeholder="Any notes about this exercise..."
+                                  className="max-h-[80px] border-primary/20 focus:border-primary"
+                                />
                               </div>
-                              <div className="bg-secondary/10 p-2 rounded">
-                                <p className="text-muted-foreground">Reps</p>
-                                <p className="font-medium">{exercise.reps}</p>
+                            </div>
+                          ) : (
+                            <div className="p-4 space-y-2">
+                              <div className="grid grid-cols-3 gap-2 text-sm">
+                                <div className="bg-secondary/10 p-2 rounded">
+                                  <p className="text-muted-foreground">Sets</p>
+                                  <p className="font-medium">
+                                    {exercise.sets}
+                                    {!!exercise.warmup_sets && <span className="text-xs text-muted-foreground"> +{exercise.warmup_sets} warm-up</span>}
+                                    {!!exercise.drop_sets && <span className="text-xs text-muted-foreground"> +{exercise.drop_sets} drop</span>}
+                                  </p>
+                                </div>
+                                <div className="bg-secondary/10 p-2 rounded">
+                                  <p className="text-muted-foreground">{TRACKING_TYPE_LABELS[exercise.tracking_type || 'reps']}</p>
+                                  <p className="font-medium">{tracksReps(exercise.tracking_type) ? exercise.reps : formatSetTarget(exercise)}</p>
+                                </div>
+                                <div className="bg-secondary/10 p-2 rounded">
+                                  <p className="text-muted-foreground">Weight</p>
+                                  <p className="font-medium">{formatWeight(exercise.weight || 0)}</p>
+                                </div>
                               </div>
-                              <div className="bg-secondary/10 p-2 rounded">
-                                <p className="text-muted-foreground">Weight</p>
-                                <p className="font-medium">{exercise.weight || 0} kg</p>
+                              <div className="flex items-center text-sm mt-2">
+                                <Clock className="h-3.5 w-3.5 mr-1.5 text-muted-foreground" />
+                                <span>{exercise.rest_time || 60} sec rest</span>
+                                {exercise.progression_type && exercise.progression_type !== 'none' && (
+                                  <Badge variant="secondary" className="ml-2">
+                                    {PROGRESSION_LABELS[exercise.progression_type]}
+                                  </Badge>
+                                )}
+                                {exercise.interval_mode && (
+                                  <Badge variant="secondary" className="ml-2">
+                                    {describeIntervals(exercise)}
+                                  </Badge>
+                                )}
                               </div>
+                              {exercise.notes && (
+                                <div className="text-sm mt-2 text-muted-foreground border-t pt-2">
+                                  {exercise.notes}
+                                </div>
+                              )}
                             </div>
-                            <div className="flex items-center text-sm mt-2">
-                              <Clock className="h-3.5 w-3.5 mr-1.5 text-muted-foreground" />
-                              <span>{exercise.rest_time || 60} sec rest</span>
-                            </div>
-                            {exercise.notes && (
-                              <div className="text-sm mt-2 text-muted-foreground border-t pt-2">
-                                {exercise.notes}
-                              </div>
-                            )}
-                          </div>
-                        )}
-                      </CardContent>
-                    </Card>
+                          )}
+                        </CardContent>
+                      </Card>
+                      {index < workout.exercises.length - 1 && (
+                        <GroupLinkToggle
+                          linked={!!exercise.group_id && workout.exercises[index + 1].group_id === exercise.group_id}
+                          onLink={() => setExercises(linkWithNext(workout.exercises, index))}
+                          onUnlink={() => setExercises(unlinkFromNext(workout.exercises, index))}
+                        />
+                      )}
+                    </Fragment>
                   ))}
                 </div>
               )}
@@ -0,0 +1,170 @@
+import { useState } from "react";
+import { Edit, Plus, Save, Star, Trash2 } from "lucide-react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/components/ui/use-toast";
+import { equipmentService } from "@/api/services/equipment.service";
+import { exerciseService } from "@/api/services/exercise.service";
+import { EquipmentProfile } from "@/types/workout";
+import { EQUIPMENT_PROFILE_PRESETS, getPresetEquipmentIds } from "@/lib/equipment-utils";
+
+export function EquipmentProfileSettings() {
+  const [editing, setEditing] = useState<EquipmentProfile | null>(null);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: profiles = [] } = useQuery({
+    queryKey: ["equipmentProfiles"],
+    queryFn: () => equipmentService.getProfiles(),
+  });
+
+  const { data: equipment = [] } = useQuery({
+    queryKey: ["equipment"],
+    queryFn: () => exerciseService.getEquipment(),
+  });
+
+  const runAction = async (action: () => Promise<void>, title: string) => {
+    try {
+      setSaving(true);
+      await action();
+      queryClient.invalidateQueries({ queryKey: ["equipmentProfiles"] });
+      toast({ title });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error updating equipment profiles",
+        description: (error as Error).message,
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSave = () => {
+    if (!editing) return;
+    if (!editing.name.trim()) {
+      toast({
+        variant: "destructive",
+        title: "Profile name required",
+        description: "Please enter a name for the profile.",
+      });
+      return;
+    }
+
+    runAction(async () => {
+      // The first profile becomes the default
+      await equipmentService.saveProfile({
+        ...editing,
+        name: editing.name.trim(),
+        is_default: editing.is_default ?? profiles.length === 0,
+      });
+      setEditing(null);
+    }, "Equipment profile saved");
+  };
+
+  const toggleEquipment = (id: number) => {
+    if (!editing) return;
+    const ids = editing.equipment_ids.includes(id)
+      ? editing.equipment_ids.filter(item => item !== id)
+      : [...editing.equipment_ids, id];
+    setEditing({ ...editing, equipment_ids: ids });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Equipment Profiles</CardTitle>
+        <CardDescription>
+          What you can train with at each place. The default profile is used to suggest exercise swaps in the player.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {profiles.map(profile => (
+          <div key={profile.id} className="flex items-center gap-2">
+            <div className="flex-grow">
+              <span className="font-medium">{profile.name}</span>
+              {profile.is_default && <Badge className="ml-2">Default</Badge>}
+              <p className="text-xs text-muted-foreground">{profile.equipment_ids.length} pieces of equipment</p>
+            </div>
+            {!profile.is_default && (
+              <Button
+                variant="ghost"
+                size="icon"
+                title="Make default"
+                disabled={saving}
+                onClick={() => runAction(() => equipmentService.setDefaultProfile(profile.id), `${profile.name} is now your default`)}
+              >
+                <Star className="h-4 w-4" />
+              </Button>
+            )}
+            <Button variant="ghost" size="icon" onClick={() => setEditing(profile)}>
+              <Edit className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="text-destructive hover:text-destructive/90"
+              disabled={saving}
+              onClick={() => runAction(() => equipmentService.deleteProfile(profile.id), "Equipment profile deleted")}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+
+        {editing ? (
+          <div className="space-y-3 rounded-md border p-3">
+            <div className="space-y-2">
+              <Label htmlFor="equipment-profile-name">Name</Label>
+              <Input
+                id="equipment-profile-name"
+                value={editing.name}
+                onChange={(e) => setEditing({ ...editing, name: e.target.value })}
+              />
+            </div>
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+              {equipment.map(item => (
+                <div key={item.id} className="flex items-center space-x-2">
+                  <Checkbox
+                    id={`profile-equipment-${item.id}`}
+                    checked={editing.equipment_ids.includes(item.id)}
+                    onCheckedChange={() => toggleEquipment(item.id)}
+                  />
+                  <Label htmlFor={`profile-equipment-${item.id}`} className="text-sm font-normal">{item.name}</Label>
+                </div>
+              ))}
+            </div>
+            <div className="flex gap-2">
+              <Button onClick={handleSave} disabled={saving}>
+                <Save className="mr-2 h-4 w-4" /> Save Profile
+              </Button>
+              <Button variant="outline" onClick={() => setEditing(null)} disabled={saving}>Cancel</Button>
+            </div>
+          </div>
+        ) : (
+          <div className="flex flex-wrap gap-2">
+            {EQUIPMENT_PROFILE_PRESETS.map(preset => (
+              <Button
+                key={preset.name}
+                variant="outline"
+                size="sm"
+                onClick={() => setEditing({ name: preset.name, equipment_ids: getPresetEquipmentIds(preset, equipment) })}
+              >
+                <Plus className="mr-1 h-4 w-4" /> {preset.name}
+              </Button>
+            ))}
+            <Button variant="outline" size="sm" onClick={() => setEditing({ name: "", equipment_ids: [] })}>
+              <Plus className="mr-1 h-4 w-4" /> Custom
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
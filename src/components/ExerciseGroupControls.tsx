@@ -0,0 +1,68 @@
+import { Link2, Unlink } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ExerciseGroupType } from "@/types/workout";
+import { GROUP_TYPE_LABELS } from "@/lib/exercise-groups";
+
+interface GroupLinkToggleProps {
+  linked: boolean;
+  onLink: () => void;
+  onUnlink: () => void;
+}
+
+export function GroupLinkToggle({ linked, onLink, onUnlink }: GroupLinkToggleProps) {
+  return (
+    <div className="flex justify-center -my-1">
+      <Button
+        type="button"
+        variant="ghost"
+        size="sm"
+        className={`h-6 text-xs ${linked ? "text-primary" : "text-muted-foreground"}`}
+        onClick={linked ? onUnlink : onLink}
+      >
+        {linked ? (
+          <>
+            <Unlink className="h-3 w-3 mr-1" /> Unlink
+          </>
+        ) : (
+          <>
+            <Link2 className="h-3 w-3 mr-1" /> Link as superset
+          </>
+        )}
+      </Button>
+    </div>
+  );
+}
+
+interface GroupHeaderProps {
+  groupType: ExerciseGroupType;
+  rounds: number;
+  onTypeChange: (type: ExerciseGroupType) => void;
+  onRoundsChange: (rounds: number) => void;
+}
+
+export function GroupHeader({ groupType, rounds, onTypeChange, onRoundsChange }: GroupHeaderProps) {
+  return (
+    <div className="flex items-center gap-2 rounded-md bg-primary/10 px-3 py-2">
+      <Select value={groupType} onValueChange={(value) => onTypeChange(value as ExerciseGroupType)}>
+        <SelectTrigger className="h-8 w-[130px] bg-background">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {(Object.keys(GROUP_TYPE_LABELS) as ExerciseGroupType[]).map((type) => (
+            <SelectItem key={type} value={type}>{GROUP_TYPE_LABELS[type]}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Input
+        type="number"
+        min="1"
+        value={rounds}
+        onChange={(e) => onRoundsChange(Math.max(1, Number(e.target.value)))}
+        className="h-8 w-16 bg-background"
+      />
+      <span className="text-sm text-muted-foreground">rounds</span>
+    </div>
+  );
+}
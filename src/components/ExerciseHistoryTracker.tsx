@@ -1,37 +1,43 @@
 
 import { useState, useEffect } from "react";
-import { supabase } from "@/integrations/supabase/client";
+import { exerciseService } from "@/api/services/exercise.service";
+import { ExerciseSessionHistory } from "@/types/workout";
+import { ExercisePersonalRecords, RecordEntry } from "@/lib/pr-utils";
+import { formatDistance, formatDuration } from "@/lib/tracking-utils";
 import { useToast } from "@/components/ui/use-toast";
+import { useUnits } from "@/hooks/useUnits";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Button } from "@/components/ui/button";
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from "recharts";
 import { format } from "date-fns";
-import { ChevronDown, LineChart, History } from "lucide-react";
+import { ChevronDown, LineChart, History, Trophy } from "lucide-react";
 import { Skeleton } from "@/components/ui/skeleton";
 
-interface ExerciseHistoryRecord {
-  exercise_name: string;
-  weight: number;
-  reps: number;
-  sets: number;
-  date: string;
-  workout_title: string;
+interface ExerciseHistoryTrackerProps {
+  // Show only this exercise instead of letting the user pick one
+  exerciseName?: string;
 }
 
-export function ExerciseHistoryTracker() {
+export function ExerciseHistoryTracker({ exerciseName }: ExerciseHistoryTrackerProps = {}) {
   const [exercises, setExercises] = useState<string[]>([]);
-  const [selectedExercise, setSelectedExercise] = useState<string>("");
-  const [history, setHistory] = useState<ExerciseHistoryRecord[]>([]);
+  const [selectedExercise, setSelectedExercise] = useState<string>(exerciseName || "");
+  const [history, setHistory] = useState<ExerciseSessionHistory[]>([]);
+  const [records, setRecords] = useState<ExercisePersonalRecords | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [isHistoryLoading, setIsHistoryLoading] = useState(false);
   const [viewMode, setViewMode] = useState<"table" | "chart">("chart");
+  const { weightUnit, toDisplayWeight, formatWeight } = useUnits();
   const { toast } = useToast();
 
   useEffect(() => {
-    fetchExerciseNames();
-  }, []);
+    if (exerciseName) {
+      setSelectedExercise(exerciseName);
+    } else {
+      fetchExerciseNames();
+    }
+  }, [exerciseName]);
 
   useEffect(() => {
     if (selectedExercise) {
@@ -42,33 +48,7 @@ export function ExerciseHistoryTracker() {
   const fetchExerciseNames = async () => {
     setIsLoading(true);
     try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) throw new Error("User not authenticated");
-
-      // First, get the user's workout IDs
-      const { data: workoutIds, error: workoutError } = await supabase
-        .from("workouts")
-        .select("id")
-        .eq("user_id", user.id);
-
-      if (workoutError) throw workoutError;
-      
-      if (!workoutIds || workoutIds.length === 0) {
-        setExercises([]);
-        setIsLoading(false);
-        return;
-      }
-
-      // Then use those IDs to get exercise names
-      const { data: exerciseData, error: exerciseError } = await supabase
-        .from("exercises")
-        .select("name")
-        .in("workout_id", workoutIds.map(w => w.id));
-
-      if (exerciseError) throw exerciseError;
-
-      // Get unique exercise names
-      const uniqueExercises = [...new Set(exerciseData?.map(item => item.name) || [])];
+      const uniqueExercises = await exerciseService.getLoggedExerciseNames();
       setExercises(uniqueExercises);
       
       // Select the first exercise by default if available
@@ -90,86 +70,12 @@ export function ExerciseHistoryTracker() {
   const fetchExerciseHistory = async (exerciseName: string) => {
     setIsHistoryLoading(true);
     try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) throw new Error("User not authenticated");
-
-      // First get the user's workout IDs
-      const { data: workoutIds, error: workoutIdsError } = await supabase
-        .from("workouts")
-        .select("id")
-        .eq("user_id", user.id);
-        
-      if (workoutIdsError) throw workoutIdsError;
-      
-      if (!workoutIds || workoutIds.length === 0) {
-        setHistory([]);
-        setIsHistoryLoading(false);
-        return;
-      }
-
-      // Get the exercises with the selected name from the user's workouts
-      const { data: exercisesData, error: exercisesError } = await supabase
-        .from("exercises")
-        .select(`
-          name,
-          weight,
-          reps,
-          sets,
-          workout_id
-        `)
-        .eq("name", exerciseName)
-        .in("workout_id", workoutIds.map(w => w.id));
-
-      if (exercisesError) throw exercisesError;
-      
-      if (!exercisesData || exercisesData.length === 0) {
-        setHistory([]);
-        setIsHistoryLoading(false);
-        return;
-      }
-
-      // Get all workout_ids from the exercises
-      const exerciseWorkoutIds = exercisesData.map(ex => ex.workout_id);
-
-      // Get workout details and completed dates
-      const { data: workoutsData, error: workoutsError } = await supabase
-        .from("workouts")
-        .select(`
-          id,
-          title,
-          completed_workouts (
-            completed_at
-          )
-        `)
-        .in("id", exerciseWorkoutIds);
-
-      if (workoutsError) throw workoutsError;
-
-      // Map the data together
-      const formattedHistory: ExerciseHistoryRecord[] = [];
-      
-      for (const workout of workoutsData || []) {
-        // Skip if no completed workouts
-        if (!workout.completed_workouts || workout.completed_workouts.length === 0) {
-          continue;
-        }
-        
-        // Find matching exercise
-        const exercise = exercisesData.find(e => e.workout_id === workout.id);
-        if (!exercise) continue;
-        
-        // Add to history
-        formattedHistory.push({
-          exercise_name: exercise.name,
-          weight: exercise.weight || 0,
-          reps: exercise.reps,
-          sets: exercise.sets,
-          date: format(new Date(workout.completed_workouts[0].completed_at), 'MMM dd, yyyy'),
-          workout_title: workout.title
-        });
-      }
-
-      setHistory(formattedHistory);
+      const [sessions, personalRecords] = await Promise.all([
+        exerciseService.getExerciseHistory(exerciseName),
+        exerciseService.getExercisePersonalRecords(exerciseName)
+      ]);
+      setHistory(sessions);
+      setRecords(personalRecords);
     } catch (error: any) {
       console.error("Error fetching exercise history:", error.message);
       toast({
@@ -182,19 +88,43 @@ export function ExerciseHistoryTracker() {
     }
   };
 
-  // Format data for the chart
-  const chartData = history.map(record => ({
-    date: record.date,
-    weight: record.weight,
-    volume: record.weight * record.sets * record.reps
-  })).reverse();
+  const formatSessionDate = (completedAt: string) => format(new Date(completedAt), 'MMM dd, yyyy');
+
+  // Timed and distance exercises log no reps, so only show the columns that were tracked
+  const hasDuration = history.some(session => session.total_duration > 0);
+  const hasDistance = history.some(session => session.total_distance > 0);
+  const hasReps = history.some(session => session.total_reps > 0) || (!hasDuration && !hasDistance);
+
+  // One chart point per completed session, oldest first
+  const chartData = history.map(session => ({
+    date: formatSessionDate(session.completed_at),
+    topSet: toDisplayWeight(session.top_set_weight),
+    volume: toDisplayWeight(session.volume),
+    duration: session.total_duration,
+    distance: session.total_distance
+  }));
+
+  // Most recent sessions first in the table
+  const tableData = [...history].reverse();
+
+  const recordRows: { label: string; entry: RecordEntry | null; display: (entry: RecordEntry) => string }[] = records ? [
+    { label: "Heaviest Weight", entry: records.heaviestWeight, display: (entry) => `${formatWeight(entry.weight)} × ${entry.reps}` },
+    { label: "Est. 1RM (Epley)", entry: records.bestEstimatedOneRepMax.epley, display: (entry) => formatWeight(entry.value) },
+    { label: "Est. 1RM (Brzycki)", entry: records.bestEstimatedOneRepMax.brzycki, display: (entry) => formatWeight(entry.value) },
+    { label: "Best Session Volume", entry: records.bestSessionVolume, display: (entry) => formatWeight(entry.value) },
+    ...records.bestRepsByWeight.map(entry => ({
+      label: `Most Reps @ ${formatWeight(entry.weight)}`,
+      entry,
+      display: (record: RecordEntry) => `${record.reps} reps`
+    }))
+  ] : [];
 
   return (
     <Card className="w-full">
       <CardHeader className="flex flex-row items-center justify-between">
         <CardTitle className="flex items-center">
           <History className="mr-2 h-5 w-5" />
-          Exercise History Tracker
+          {exerciseName ? "Your History" : "Exercise History Tracker"}
         </CardTitle>
         <div className="flex space-x-2">
           <Button
@@ -217,28 +147,30 @@ export function ExerciseHistoryTracker() {
       </CardHeader>
       <CardContent>
         <div className="space-y-4">
-          <div>
-            <label className="text-sm font-medium">Select Exercise</label>
-            {isLoading ? (
-              <Skeleton className="h-10 w-full" />
-            ) : (
-              <Select
-                value={selectedExercise}
-                onValueChange={setSelectedExercise}
-              >
-                <SelectTrigger>
-                  <SelectValue placeholder="Select an exercise" />
-                </SelectTrigger>
-                <SelectContent>
-                  {exercises.map((exercise) => (
-                    <SelectItem key={exercise} value={exercise}>
-                      {exercise}
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
-            )}
-          </div>
+          {!exerciseName && (
+            <div>
+              <label className="text-sm font-medium">Select Exercise</label>
+              {isLoading ? (
+                <Skeleton className="h-10 w-full" />
+              ) : (
+                <Select
+                  value={selectedExercise}
+                  onValueChange={setSelectedExercise}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select an exercise" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {exercises.map((exercise) => (
+                      <SelectItem key={exercise} value={exercise}>
+                        {exercise}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            </div>
+          )}
 
           {isHistoryLoading ? (
             <div className="space-y-2">
@@ -259,8 +191,18 @@ export function ExerciseHistoryTracker() {
                   <YAxis yAxisId="right" orientation="right" stroke="#82ca9d" />
                   <Tooltip />
                   <Legend />
-                  <Bar yAxisId="left" dataKey="weight" name="Weight (kg)" fill="#8884d8" />
-                  <Bar yAxisId="right" dataKey="volume" name="Volume (weight × sets × reps)" fill="#82ca9d" />
+                  {hasReps && (
+                    <Bar yAxisId="left" dataKey="topSet" name={`Top Set (${weightUnit})`} fill="#8884d8" />
+                  )}
+                  {hasReps && (
+                    <Bar yAxisId="right" dataKey="volume" name={`Total Volume (${weightUnit} × reps)`} fill="#82ca9d" />
+                  )}
+                  {hasDuration && (
+                    <Bar yAxisId="left" dataKey="duration" name="Total Time (s)" fill="#8884d8" />
+                  )}
+                  {hasDistance && (
+                    <Bar yAxisId="right" dataKey="distance" name="Total Distance (m)" fill="#82ca9d" />
+                  )}
                 </BarChart>
               </ResponsiveContainer>
             </div>
@@ -271,29 +213,64 @@ export function ExerciseHistoryTracker() {
                   <TableRow>
                     <TableHead>Date</TableHead>
                     <TableHead>Workout</TableHead>
-                    <TableHead>Weight (kg)</TableHead>
+                    {hasReps && <TableHead>Top Set ({weightUnit})</TableHead>}
                     <TableHead>Sets</TableHead>
-                    <TableHead>Reps</TableHead>
-                    <TableHead className="text-right">Volume</TableHead>
+                    {hasReps && <TableHead>Total Reps</TableHead>}
+                    {hasDuration && <TableHead>Total Time</TableHead>}
+                    {hasDistance && <TableHead>Total Distance</TableHead>}
+                    {hasReps && <TableHead className="text-right">Volume</TableHead>}
                   </TableRow>
                 </TableHeader>
                 <TableBody>
-                  {history.map((record, i) => (
-                    <TableRow key={i}>
-                      <TableCell>{record.date}</TableCell>
-                      <TableCell>{record.workout_title}</TableCell>
-                      <TableCell>{record.weight || 0}</TableCell>
-                      <TableCell>{record.sets}</TableCell>
-                      <TableCell>{record.reps}</TableCell>
-                      <TableCell className="text-right">
-                        {(record.weight || 0) * record.sets * record.reps}
-                      </TableCell>
+                  {tableData.map((session) => (
+                    <TableRow key={session.completed_workout_id}>
+                      <TableCell>{formatSessionDate(session.completed_at)}</TableCell>
+                      <TableCell>{session.workout_title}</TableCell>
+                      {hasReps && <TableCell>{toDisplayWeight(session.top_set_weight)} × {session.top_set_reps}</TableCell>}
+                      <TableCell>{session.sets}</TableCell>
+                      {hasReps && <TableCell>{session.total_reps}</TableCell>}
+                      {hasDuration && <TableCell>{formatDuration(session.total_duration)}</TableCell>}
+                      {hasDistance && <TableCell>{formatDistance(session.total_distance)}</TableCell>}
+                      {hasReps && (
+                        <TableCell className="text-right">
+                          {toDisplayWeight(session.volume)}
+                        </TableCell>
+                      )}
                     </TableRow>
                   ))}
                 </TableBody>
               </Table>
             </div>
           )}
+
+          {!isHistoryLoading && recordRows.some(row => row.entry) && (
+            <div className="space-y-2">
+              <h3 className="text-sm font-medium flex items-center">
+                <Trophy className="mr-2 h-4 w-4 text-yellow-500" />
+                Personal Records
+              </h3>
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Record</TableHead>
+                      <TableHead>Best</TableHead>
+                      <TableHead className="text-right">Date</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {recordRows.filter(row => row.entry).map((row) => (
+                      <TableRow key={row.label}>
+                        <TableCell>{row.label}</TableCell>
+                        <TableCell className="font-medium">{row.display(row.entry)}</TableCell>
+                        <TableCell className="text-right">{formatSessionDate(row.entry.completed_at)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </div>
+          )}
         </div>
       </CardContent>
     </Card>
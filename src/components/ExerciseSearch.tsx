@@ -1,18 +1,29 @@
 
 import { useState, useEffect } from "react";
 import { Input } from "@/components/ui/input";
-import { Search } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Plus, Search } from "lucide-react";
+import { CustomExerciseDialog } from "@/components/CustomExerciseDialog";
 import { ExerciseTemplate } from "@/types/workout";
-import { formatMuscleName, formatMuscleNameList } from "@/lib/format-utils";
+import { formatTemplateMuscles } from "@/lib/muscle-utils";
+import { searchExercises } from "@/lib/exercise-library";
 
 interface ExerciseSearchProps {
   templates: ExerciseTemplate[];
   onSelectTemplate: (template: ExerciseTemplate) => void;
   placeholder?: string;
+  // Offers to create a custom exercise when nothing matches
+  onCustomExerciseCreated?: (template: ExerciseTemplate) => void;
 }
 
-export function ExerciseSearch({ templates, onSelectTemplate, placeholder = "Search exercises..." }: ExerciseSearchProps) {
+// Muscles from the taxonomy, or the legacy free-text column for templates not yet linked
+const muscleLabel = (template: ExerciseTemplate) =>
+  formatTemplateMuscles(template.muscles) || template.target_muscle || "";
+
+export function ExerciseSearch({ templates, onSelectTemplate, placeholder = "Search exercises...", onCustomExerciseCreated }: ExerciseSearchProps) {
   const [searchQuery, setSearchQuery] = useState("");
+  const [isCreatingCustom, setIsCreatingCustom] = useState(false);
   const [filteredTemplates, setFilteredTemplates] = useState<ExerciseTemplate[]>(templates);
 
   useEffect(() => {
@@ -21,14 +32,7 @@ export function ExerciseSearch({ templates, onSelectTemplate, placeholder = "Sea
       return;
     }
 
-    const query = searchQuery.toLowerCase();
-    const filtered = templates.filter(
-      template => 
-        template.name.toLowerCase().includes(query) || 
-        (template.target_muscle && template.target_muscle.toLowerCase().includes(query))
-    );
-    
-    setFilteredTemplates(filtered);
+    setFilteredTemplates(searchExercises(templates, searchQuery).map(result => result.template));
   }, [searchQuery, templates]);
 
   return (
@@ -45,9 +49,17 @@ export function ExerciseSearch({ templates, onSelectTemplate, placeholder = "Sea
 
       <div className="space-y-1 max-h-[300px] overflow-y-auto pr-1">
         {filteredTemplates.length === 0 ? (
-          <p className="text-center py-4 text-sm text-muted-foreground dark:text-gray-400">
-            No matching exercises found
-          </p>
+          <div className="text-center py-4 space-y-2">
+            <p className="text-sm text-muted-foreground dark:text-gray-400">
+              No matching exercises found
+            </p>
+            {onCustomExerciseCreated && searchQuery.trim() && (
+              <Button type="button" variant="outline" size="sm" onClick={() => setIsCreatingCustom(true)}>
+                <Plus className="mr-1.5 h-4 w-4" />
+                Create "{searchQuery.trim()}" as a custom exercise
+              </Button>
+            )}
+          </div>
         ) : (
           filteredTemplates.map((template) => (
             <div
@@ -55,16 +67,33 @@ export function ExerciseSearch({ templates, onSelectTemplate, placeholder = "Sea
               className="p-2 rounded-md hover:bg-accent dark:hover:bg-gray-700 cursor-pointer transition-colors"
               onClick={() => onSelectTemplate(template)}
             >
-              <div className="font-medium dark:text-white">{template.name}</div>
-              {template.target_muscle && (
+              <div className="font-medium dark:text-white">
+                {template.name}
+                {template.user_id && (
+                  <Badge variant="outline" className="ml-2 text-2xs">Custom</Badge>
+                )}
+              </div>
+              {muscleLabel(template) && (
                 <div className="text-xs text-muted-foreground dark:text-gray-400">
-                  {formatMuscleNameList(template.target_muscle)}
+                  {muscleLabel(template)}
                 </div>
               )}
             </div>
           ))
         )}
       </div>
+
+      {onCustomExerciseCreated && (
+        <CustomExerciseDialog
+          open={isCreatingCustom}
+          onOpenChange={setIsCreatingCustom}
+          defaultName={searchQuery.trim()}
+          onSaved={(template) => {
+            setSearchQuery("");
+            onCustomExerciseCreated(template);
+          }}
+        />
+      )}
     </div>
   );
 }
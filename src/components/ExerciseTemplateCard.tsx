@@ -5,6 +5,7 @@ import { Button } from "@/components/ui/button";
 import { Plus, Info } from "lucide-react";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { useUnits } from "@/hooks/useUnits";
 
 interface ExerciseTemplateCardProps {
   name: string;
@@ -32,6 +33,7 @@ export function ExerciseTemplateCard({ name, description, mediaUrl, targetMuscle
   const [sets, setSets] = useState(3);
   const [reps, setReps] = useState(10);
   const [weight, setWeight] = useState<number | null>(null);
+  const { weightUnit, toDisplayWeight, fromDisplayWeight } = useUnits();
 
   return (
     <Card className="overflow-hidden">
@@ -105,13 +107,13 @@ export function ExerciseTemplateCard({ name, description, mediaUrl, targetMuscle
             />
           </div>
           <div>
-            <Label htmlFor={`weight-${name}`} className="text-xs text-gray-500">Weight (kg)</Label>
+            <Label htmlFor={`weight-${name}`} className="text-xs text-gray-500">Weight ({weightUnit})</Label>
             <Input
               id={`weight-${name}`}
               type="number"
               min="0"
-              value={weight || ""}
-              onChange={(e) => setWeight(e.target.value ? Number(e.target.value) : null)}
+              value={toDisplayWeight(weight) || ""}
+              onChange={(e) => setWeight(e.target.value ? fromDisplayWeight(Number(e.target.value)) : null)}
               className="h-8"
               placeholder="Optional"
             />
@@ -0,0 +1,63 @@
+import { Input } from "@/components/ui/input";
+import { HeightUnit } from "@/types/workout";
+import { cmToFeetInches, feetInchesToCm } from "@/lib/units";
+
+interface HeightInputProps {
+  id: string;
+  // Height in cm, or null when empty
+  value: number | null;
+  unit: HeightUnit;
+  onChange: (cm: number | null) => void;
+  disabled?: boolean;
+}
+
+export function HeightInput({ id, value, unit, onChange, disabled }: HeightInputProps) {
+  if (unit === "cm") {
+    return (
+      <Input
+        id={id}
+        type="number"
+        placeholder="175"
+        value={value ?? ""}
+        onChange={(e) => onChange(e.target.value === "" ? null : Number(e.target.value))}
+        disabled={disabled}
+      />
+    );
+  }
+
+  const { feet, inches } = value ? cmToFeetInches(value) : { feet: null, inches: null };
+
+  const handleChange = (nextFeet: string, nextInches: string) => {
+    if (nextFeet === "" && nextInches === "") {
+      onChange(null);
+      return;
+    }
+    onChange(feetInchesToCm(Number(nextFeet) || 0, Number(nextInches) || 0));
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <Input
+        id={id}
+        type="number"
+        min="0"
+        placeholder="5"
+        value={feet ?? ""}
+        onChange={(e) => handleChange(e.target.value, inches?.toString() ?? "")}
+        disabled={disabled}
+      />
+      <span className="text-sm text-muted-foreground">ft</span>
+      <Input
+        type="number"
+        min="0"
+        max="11.9"
+        step="0.5"
+        placeholder="9"
+        value={inches ?? ""}
+        onChange={(e) => handleChange(feet?.toString() ?? "", e.target.value)}
+        disabled={disabled}
+      />
+      <span className="text-sm text-muted-foreground">in</span>
+    </div>
+  );
+}
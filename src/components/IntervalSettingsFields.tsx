@@ -0,0 +1,167 @@
+import { Plus, XCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { IntervalMode, IntervalSettings, IntervalStep } from "@/types/workout";
+import { INTERVAL_DEFAULTS, INTERVAL_MODE_LABELS, describeIntervals } from "@/lib/interval-utils";
+
+interface IntervalSettingsFieldsProps {
+  id: string;
+  settings: IntervalSettings;
+  onChange: (settings: IntervalSettings) => void;
+}
+
+const toNumber = (value: string) => value === "" ? null : Number(value);
+
+export function IntervalSettingsFields({ id, settings, onChange }: IntervalSettingsFieldsProps) {
+  const mode = settings.interval_mode || null;
+  const sequence = settings.interval_sequence || [];
+
+  const handleModeChange = (value: string) => {
+    if (value === "none") {
+      onChange({ interval_mode: null, interval_work: null, interval_rest: null, interval_rounds: null, interval_sequence: null });
+      return;
+    }
+    const nextMode = value as IntervalMode;
+    onChange({ interval_mode: nextMode, ...INTERVAL_DEFAULTS[nextMode] });
+  };
+
+  const updateStep = (index: number, changes: Partial<IntervalStep>) => {
+    onChange({
+      ...settings,
+      interval_sequence: sequence.map((step, i) => i === index ? { ...step, ...changes } : step)
+    });
+  };
+
+  return (
+    <div className="space-y-3 rounded-md border p-3">
+      <div className="space-y-2">
+        <Label htmlFor={`${id}-interval-mode`}>Interval mode</Label>
+        <Select value={mode || "none"} onValueChange={handleModeChange}>
+          <SelectTrigger id={`${id}-interval-mode`} className="border-primary/20 focus:border-primary">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="none">None (sets and rest)</SelectItem>
+            {(Object.keys(INTERVAL_MODE_LABELS) as IntervalMode[]).map((type) => (
+              <SelectItem key={type} value={type}>{INTERVAL_MODE_LABELS[type]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {mode && mode !== "custom" && (
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-2">
+            <Label htmlFor={`${id}-interval-work`}>
+              {mode === "amrap" ? "Time cap (seconds)" : mode === "emom" ? "Interval (seconds)" : "Work (seconds)"}
+            </Label>
+            <Input
+              id={`${id}-interval-work`}
+              type="number"
+              min="1"
+              value={settings.interval_work ?? ""}
+              onChange={(e) => onChange({ ...settings, interval_work: toNumber(e.target.value) })}
+              className="border-primary/20 focus:border-primary"
+            />
+          </div>
+          {mode === "tabata" && (
+            <div className="space-y-2">
+              <Label htmlFor={`${id}-interval-rest`}>Rest (seconds)</Label>
+              <Input
+                id={`${id}-interval-rest`}
+                type="number"
+                min="0"
+                value={settings.interval_rest ?? ""}
+                onChange={(e) => onChange({ ...settings, interval_rest: toNumber(e.target.value) })}
+                className="border-primary/20 focus:border-primary"
+              />
+            </div>
+          )}
+          {mode !== "amrap" && (
+            <div className="space-y-2">
+              <Label htmlFor={`${id}-interval-rounds`}>Rounds</Label>
+              <Input
+                id={`${id}-interval-rounds`}
+                type="number"
+                min="1"
+                value={settings.interval_rounds ?? ""}
+                onChange={(e) => onChange({ ...settings, interval_rounds: toNumber(e.target.value) })}
+                className="border-primary/20 focus:border-primary"
+              />
+            </div>
+          )}
+        </div>
+      )}
+
+      {mode === "custom" && (
+        <div className="space-y-2">
+          {sequence.map((step, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <Input
+                value={step.label}
+                onChange={(e) => updateStep(index, { label: e.target.value })}
+                placeholder="Label"
+                className="h-8 flex-1 border-primary/20 focus:border-primary"
+              />
+              <Select value={step.kind} onValueChange={(value) => updateStep(index, { kind: value as IntervalStep["kind"] })}>
+                <SelectTrigger className="h-8 w-[90px] border-primary/20">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="work">Work</SelectItem>
+                  <SelectItem value="rest">Rest</SelectItem>
+                </SelectContent>
+              </Select>
+              <Input
+                type="number"
+                min="1"
+                value={step.seconds}
+                onChange={(e) => updateStep(index, { seconds: Number(e.target.value) })}
+                className="h-8 w-20 border-primary/20 focus:border-primary"
+              />
+              <span className="text-xs text-muted-foreground">s</span>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="h-8 px-2 text-destructive hover:text-destructive/90"
+                onClick={() => onChange({ ...settings, interval_sequence: sequence.filter((_, i) => i !== index) })}
+              >
+                <XCircle className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <div className="flex items-center gap-2">
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => onChange({
+                ...settings,
+                interval_sequence: [...sequence, { label: "Work", seconds: 30, kind: "work" }]
+              })}
+            >
+              <Plus className="h-3.5 w-3.5 mr-1.5" />
+              Add interval
+            </Button>
+            <Input
+              id={`${id}-interval-rounds`}
+              type="number"
+              min="1"
+              value={settings.interval_rounds ?? ""}
+              onChange={(e) => onChange({ ...settings, interval_rounds: toNumber(e.target.value) })}
+              className="h-8 w-16 border-primary/20 focus:border-primary"
+            />
+            <span className="text-sm text-muted-foreground">rounds</span>
+          </div>
+        </div>
+      )}
+
+      {mode && (
+        <p className="text-xs text-muted-foreground">{describeIntervals(settings)}</p>
+      )}
+    </div>
+  );
+}
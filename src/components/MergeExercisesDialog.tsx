@@ -0,0 +1,146 @@
+import { useState } from "react";
+import { Merge } from "lucide-react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/components/ui/use-toast";
+import { ExerciseSearch } from "@/components/ExerciseSearch";
+import { exerciseService } from "@/api/services/exercise.service";
+import { ExerciseTemplate } from "@/types/workout";
+import { suggestMergeTarget } from "@/lib/exercise-library";
+
+export function MergeExercisesDialog() {
+  const [open, setOpen] = useState(false);
+  const [sourceName, setSourceName] = useState("");
+  const [target, setTarget] = useState<ExerciseTemplate | null>(null);
+  const [merging, setMerging] = useState(false);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: loggedNames = [] } = useQuery({
+    queryKey: ["loggedExerciseNames"],
+    queryFn: () => exerciseService.getLoggedExerciseNames(),
+    enabled: open,
+  });
+
+  const { data: templates = [] } = useQuery({
+    queryKey: ["exerciseLibrary"],
+    queryFn: () => exerciseService.getLibrary(),
+    enabled: open,
+  });
+
+  // Names from history and the user's own custom exercises can be merged away
+  const sourceNames = [...new Set([
+    ...loggedNames,
+    ...templates.filter(template => template.user_id).map(template => template.name),
+  ])].sort();
+
+  const handleSourceChange = (name: string) => {
+    setSourceName(name);
+    setTarget(suggestMergeTarget(name, templates));
+  };
+
+  const handleOpenChange = (newOpen: boolean) => {
+    setOpen(newOpen);
+    if (!newOpen) {
+      setSourceName("");
+      setTarget(null);
+    }
+  };
+
+  const handleMerge = async () => {
+    if (!sourceName || !target) return;
+
+    try {
+      setMerging(true);
+      await exerciseService.mergeExercises(sourceName, target.id);
+
+      queryClient.invalidateQueries({ queryKey: ["loggedExerciseNames"] });
+      queryClient.invalidateQueries({ queryKey: ["exerciseLibrary"] });
+      queryClient.invalidateQueries({ queryKey: ["routines"] });
+      queryClient.invalidateQueries({ queryKey: ["workoutStats"] });
+      queryClient.invalidateQueries({ queryKey: ["muscleLoads"] });
+
+      toast({
+        title: "Exercises merged",
+        description: `Everything logged as ${sourceName} is now ${target.name}.`,
+      });
+      handleOpenChange(false);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error merging exercises",
+        description: (error as Error).message,
+      });
+    } finally {
+      setMerging(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <Merge className="mr-2 h-4 w-4" />
+          Merge
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[550px]">
+        <DialogHeader>
+          <DialogTitle>Merge Exercises</DialogTitle>
+          <DialogDescription>
+            When two names are the same exercise, move the history and routines of one onto the other.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Merge</Label>
+            <Select value={sourceName} onValueChange={handleSourceChange}>
+              <SelectTrigger>
+                <SelectValue placeholder="Pick a logged or custom exercise" />
+              </SelectTrigger>
+              <SelectContent>
+                {sourceNames.map(name => (
+                  <SelectItem key={name} value={name}>{name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Into {target && <span className="font-semibold">{target.name}</span>}</Label>
+            <ExerciseSearch
+              templates={templates.filter(template => template.name !== sourceName)}
+              onSelectTemplate={setTarget}
+              placeholder="Search for the exercise to keep..."
+            />
+          </div>
+
+          {sourceName && target && (
+            <Alert>
+              <AlertDescription>
+                Sets and routines named {sourceName} will be renamed to {target.name}
+                {templates.some(template => template.user_id && template.name === sourceName) &&
+                  `, and your custom exercise ${sourceName} will be deleted`}
+                . This can't be undone.
+              </AlertDescription>
+            </Alert>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)} disabled={merging}>
+            Cancel
+          </Button>
+          <Button onClick={handleMerge} disabled={!sourceName || !target || merging}>
+            Merge
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
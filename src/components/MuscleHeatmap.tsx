@@ -0,0 +1,171 @@
+import { useState } from "react";
+import { subDays } from "date-fns";
+import { AlertTriangle } from "lucide-react";
+import { useQuery } from "@tanstack/react-query";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useAuth } from "@/components/AuthProvider";
+import { exerciseService } from "@/api/services/exercise.service";
+import { muscleService } from "@/api/services/muscle.service";
+import {
+  BODY_REGION_LABELS,
+  BodyRegion,
+  MIN_WEEKLY_SETS,
+  RegionLoad,
+  TARGET_WEEKLY_SETS,
+  computeMuscleLoads,
+  groupByRegion
+} from "@/lib/muscle-volume";
+
+type Shape = { cx: number; cy: number; rx: number; ry: number };
+
+// Front view on the left half of the drawing, back view on the right
+const REGION_SHAPES: Record<BodyRegion, Shape[]> = {
+  shoulders: [
+    { cx: 30, cy: 42, rx: 8, ry: 6 }, { cx: 70, cy: 42, rx: 8, ry: 6 },
+    { cx: 130, cy: 42, rx: 8, ry: 6 }, { cx: 170, cy: 42, rx: 8, ry: 6 },
+  ],
+  chest: [{ cx: 42, cy: 50, rx: 9, ry: 7 }, { cx: 58, cy: 50, rx: 9, ry: 7 }],
+  biceps: [{ cx: 24, cy: 62, rx: 5, ry: 10 }, { cx: 76, cy: 62, rx: 5, ry: 10 }],
+  forearms: [
+    { cx: 20, cy: 86, rx: 4, ry: 11 }, { cx: 80, cy: 86, rx: 4, ry: 11 },
+    { cx: 120, cy: 86, rx: 4, ry: 11 }, { cx: 180, cy: 86, rx: 4, ry: 11 },
+  ],
+  abs: [{ cx: 50, cy: 76, rx: 7, ry: 15 }],
+  obliques: [{ cx: 38, cy: 76, rx: 4, ry: 12 }, { cx: 62, cy: 76, rx: 4, ry: 12 }],
+  quads: [{ cx: 42, cy: 122, rx: 8, ry: 20 }, { cx: 58, cy: 122, rx: 8, ry: 20 }],
+  calves: [
+    { cx: 42, cy: 168, rx: 5, ry: 16 }, { cx: 58, cy: 168, rx: 5, ry: 16 },
+    { cx: 142, cy: 168, rx: 6, ry: 16 }, { cx: 158, cy: 168, rx: 6, ry: 16 },
+  ],
+  traps: [{ cx: 150, cy: 38, rx: 14, ry: 6 }],
+  lats: [{ cx: 140, cy: 62, rx: 9, ry: 14 }, { cx: 160, cy: 62, rx: 9, ry: 14 }],
+  triceps: [{ cx: 124, cy: 62, rx: 5, ry: 10 }, { cx: 176, cy: 62, rx: 5, ry: 10 }],
+  lower_back: [{ cx: 150, cy: 84, rx: 8, ry: 8 }],
+  glutes: [{ cx: 142, cy: 102, rx: 9, ry: 8 }, { cx: 158, cy: 102, rx: 9, ry: 8 }],
+  hamstrings: [{ cx: 142, cy: 128, rx: 8, ry: 17 }, { cx: 158, cy: 128, rx: 8, ry: 17 }],
+};
+
+type HeatmapMode = "volume" | "recovery";
+
+const regionFill = (load: RegionLoad | undefined, mode: HeatmapMode) => {
+  if (mode === "volume") {
+    const heat = Math.min(1, (load?.weeklySets || 0) / TARGET_WEEKLY_SETS);
+    return { fill: "hsl(var(--primary))", fillOpacity: 0.1 + heat * 0.9 };
+  }
+  // Red when just trained, through amber, to green once recovered
+  const hue = Math.round((load?.recovery ?? 1) * 120);
+  return { fill: `hsl(${hue}, 70%, 50%)`, fillOpacity: 0.8 };
+};
+
+export function MuscleHeatmap() {
+  const [mode, setMode] = useState<HeatmapMode>("volume");
+  const { isProSubscriber } = useAuth();
+
+  const { data: loads, isLoading } = useQuery({
+    queryKey: ["muscleLoads"],
+    queryFn: async () => {
+      const [sets, candidates, muscles] = await Promise.all([
+        exerciseService.getSetsSince(subDays(new Date(), 14)),
+        exerciseService.getGeneratorCandidates(),
+        muscleService.getMuscles(),
+      ]);
+      return computeMuscleLoads(sets, candidates, muscles);
+    },
+    enabled: isProSubscriber,
+  });
+
+  // Stats are a Pro feature; WorkoutStats already shows the upgrade prompt
+  if (!isProSubscriber) return null;
+
+  const regions = groupByRegion(loads || []);
+  const neglected = (loads || []).filter(load => load.status === "neglected");
+  const lowVolume = (loads || []).filter(load => load.status !== "neglected" && load.weeklySets < MIN_WEEKLY_SETS);
+
+  return (
+    <Card className="mt-4">
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div>
+          <CardTitle>Muscle Balance</CardTitle>
+          <CardDescription>
+            {mode === "volume"
+              ? `Working sets per muscle over the last 7 days. Full colour is ${TARGET_WEEKLY_SETS} sets.`
+              : "How recovered each muscle is, from time since it was last trained and how hard."}
+          </CardDescription>
+        </div>
+        <Tabs value={mode} onValueChange={(value) => setMode(value as HeatmapMode)}>
+          <TabsList>
+            <TabsTrigger value="volume">Volume</TabsTrigger>
+            <TabsTrigger value="recovery">Recovery</TabsTrigger>
+          </TabsList>
+        </Tabs>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="h-64 bg-gray-100 dark:bg-gray-800 animate-pulse rounded-lg" />
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <svg viewBox="0 0 200 195" className="w-full max-w-sm mx-auto" role="img" aria-label="Muscle heatmap">
+              {[50, 150].map(cx => (
+                <g key={cx} className="fill-muted">
+                  <circle cx={cx} cy={18} r={10} />
+                  <rect x={cx - 20} y={34} width={40} height={66} rx={10} />
+                  <rect x={cx - 18} y={96} width={36} height={92} rx={8} />
+                </g>
+              ))}
+              {(Object.keys(REGION_SHAPES) as BodyRegion[]).map(region => {
+                const load = regions.get(region);
+                return (
+                  <g key={region} {...regionFill(load, mode)} className="stroke-background" strokeWidth={0.5}>
+                    <title>
+                      {BODY_REGION_LABELS[region]}: {Math.round((load?.weeklySets || 0) * 10) / 10} sets, {Math.round((load?.recovery ?? 1) * 100)}% recovered
+                    </title>
+                    {REGION_SHAPES[region].map((shape, index) => (
+                      <ellipse key={index} {...shape} />
+                    ))}
+                  </g>
+                );
+              })}
+              <text x={50} y={194} textAnchor="middle" className="fill-muted-foreground text-[7px]">Front</text>
+              <text x={150} y={194} textAnchor="middle" className="fill-muted-foreground text-[7px]">Back</text>
+            </svg>
+
+            <div className="space-y-3">
+              {neglected.length > 0 && (
+                <Alert>
+                  <AlertTriangle className="h-4 w-4" />
+                  <AlertTitle>Not trained in over a week</AlertTitle>
+                  <AlertDescription>
+                    {neglected.map(load => load.name).join(", ")}
+                  </AlertDescription>
+                </Alert>
+              )}
+              {lowVolume.length > 0 && (
+                <Alert>
+                  <AlertTitle>Low volume this week</AlertTitle>
+                  <AlertDescription>
+                    Fewer than {MIN_WEEKLY_SETS} working sets: {lowVolume.map(load => load.name).join(", ")}
+                  </AlertDescription>
+                </Alert>
+              )}
+              <div className="space-y-1 text-sm">
+                {(loads || [])
+                  .filter(load => load.weeklySets > 0)
+                  .sort((a, b) => b.weeklySets - a.weeklySets)
+                  .map(load => (
+                    <div key={load.muscleId} className="flex justify-between gap-2">
+                      <span>{load.name}</span>
+                      <span className="text-muted-foreground">
+                        {Math.round(load.weeklySets * 10) / 10} sets · {Math.round(load.recovery * 100)}% recovered
+                      </span>
+                    </div>
+                  ))}
+              </div>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
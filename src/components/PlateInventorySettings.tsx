@@ -0,0 +1,143 @@
+import { useEffect, useState } from "react";
+import { Plus, Save, XCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/components/ui/use-toast";
+import { profileService } from "@/api/services/profile.service";
+import { useUnits } from "@/hooks/useUnits";
+import { PlateInventoryItem } from "@/types/workout";
+import { DEFAULT_BAR_WEIGHT, DEFAULT_PLATE_INVENTORY, parsePlateInventory } from "@/lib/plate-utils";
+
+export function PlateInventorySettings() {
+  const [barWeight, setBarWeight] = useState(DEFAULT_BAR_WEIGHT);
+  const [plates, setPlates] = useState<PlateInventoryItem[]>(DEFAULT_PLATE_INVENTORY);
+  const [loading, setLoading] = useState(false);
+  const { toast } = useToast();
+  const { weightUnit, toDisplayWeight, fromDisplayWeight } = useUnits();
+
+  useEffect(() => {
+    const fetchInventory = async () => {
+      try {
+        const profile = await profileService.getProfile();
+        if (profile) {
+          setBarWeight(profile.bar_weight || DEFAULT_BAR_WEIGHT);
+          setPlates(parsePlateInventory(profile.plate_inventory));
+        }
+      } catch (error) {
+        console.error("Error fetching plate inventory:", error);
+      }
+    };
+
+    fetchInventory();
+  }, []);
+
+  const updatePlate = (index: number, changes: Partial<PlateInventoryItem>) => {
+    setPlates(plates.map((plate, i) => i === index ? { ...plate, ...changes } : plate));
+  };
+
+  const handleSave = async () => {
+    try {
+      setLoading(true);
+      const inventory = plates
+        .filter(plate => plate.weight > 0 && plate.count > 0)
+        .sort((a, b) => b.weight - a.weight);
+
+      await profileService.updateProfile({ bar_weight: barWeight, plate_inventory: inventory });
+      setPlates(inventory);
+
+      toast({
+        title: "Settings updated",
+        description: "Your bar and plate inventory have been saved.",
+      });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error updating settings",
+        description: (error as Error).message,
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Bar & Plates</CardTitle>
+        <CardDescription>
+          Used by the plate calculator and warm-up ramps in the workout player.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center gap-3">
+          <Label htmlFor="bar-weight" className="flex-grow font-medium">Bar weight ({weightUnit})</Label>
+          <Input
+            id="bar-weight"
+            type="number"
+            min="0"
+            step="0.5"
+            value={toDisplayWeight(barWeight)}
+            onChange={(e) => setBarWeight(fromDisplayWeight(Number(e.target.value)))}
+            className="w-24"
+            disabled={loading}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <div className="grid grid-cols-[1fr_1fr_auto] gap-2 text-sm text-gray-500">
+            <span>Plate ({weightUnit})</span>
+            <span>Plates owned</span>
+            <span className="w-9" />
+          </div>
+          {plates.map((plate, index) => (
+            <div key={index} className="grid grid-cols-[1fr_1fr_auto] gap-2">
+              <Input
+                type="number"
+                min="0"
+                step="0.25"
+                value={toDisplayWeight(plate.weight)}
+                onChange={(e) => updatePlate(index, { weight: fromDisplayWeight(Number(e.target.value)) })}
+                disabled={loading}
+              />
+              <Input
+                type="number"
+                min="0"
+                value={plate.count}
+                onChange={(e) => updatePlate(index, { count: Number(e.target.value) })}
+                disabled={loading}
+              />
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => setPlates(plates.filter((_, i) => i !== index))}
+                className="text-destructive hover:text-destructive/90"
+                disabled={loading}
+              >
+                <XCircle className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <p className="text-sm text-gray-500">
+            Plates are loaded in pairs, so an odd plate is left on the rack.
+          </p>
+        </div>
+
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setPlates([...plates, { weight: 0, count: 2 }])}
+            disabled={loading}
+          >
+            <Plus className="h-4 w-4 mr-1" /> Add plate
+          </Button>
+          <Button size="sm" onClick={handleSave} disabled={loading}>
+            <Save className="h-4 w-4 mr-1" /> Save
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,233 @@
+import { useEffect, useState } from "react";
+import { Plus, XCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/components/ui/use-toast";
+import { programService } from "@/api/services/program.service";
+import { Program, ProgramDay, ProgramWeek } from "@/types/workout";
+import { DEFAULT_PROGRAM_WEEK, DEFAULT_PROGRAM_WEEKS } from "@/lib/program-utils";
+
+interface ProgramDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // The program to edit, or null to create one
+  program: Program | null;
+  routines: { id: string; title: string }[];
+  onSaved: () => void;
+}
+
+export function ProgramDialog({ open, onOpenChange, program, routines, onSaved }: ProgramDialogProps) {
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [days, setDays] = useState<ProgramDay[]>([]);
+  const [weeks, setWeeks] = useState<ProgramWeek[]>(DEFAULT_PROGRAM_WEEKS);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!open) return;
+    setName(program?.name || "");
+    setDescription(program?.description || "");
+    setDays(program?.days || [{ workout_id: null, label: null }]);
+    setWeeks(program?.weeks || DEFAULT_PROGRAM_WEEKS);
+  }, [open, program]);
+
+  const updateDay = (index: number, changes: Partial<ProgramDay>) => {
+    setDays(days.map((day, i) => i === index ? { ...day, ...changes } : day));
+  };
+
+  const updateWeek = (index: number, changes: Partial<ProgramWeek>) => {
+    setWeeks(weeks.map((week, i) => i === index ? { ...week, ...changes } : week));
+  };
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      toast({
+        variant: "destructive",
+        title: "Program name required",
+        description: "Please enter a name for the program.",
+      });
+      return;
+    }
+
+    if (days.length === 0 || days.some(day => !day.workout_id) || weeks.length === 0) {
+      toast({
+        variant: "destructive",
+        title: "Incomplete program",
+        description: "Pick a routine for every session and add at least one week.",
+      });
+      return;
+    }
+
+    try {
+      setSaving(true);
+      await programService.saveProgram({
+        ...program,
+        name: name.trim(),
+        description: description || null,
+        days,
+        weeks,
+        current_week: program?.current_week ?? 0,
+        current_day: program?.current_day ?? 0,
+      });
+      toast({
+        title: program ? "Program updated" : "Program created",
+        description: `${name.trim()} has been saved.`,
+      });
+      onSaved();
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error saving program",
+        description: (error as Error).message,
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[600px]">
+        <DialogHeader>
+          <DialogTitle>{program ? "Edit Program" : "Create Program"}</DialogTitle>
+          <DialogDescription>
+            Run your routines in order each week, with the weight and sets scaled per week.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="max-h-[60vh] pr-3">
+          <div className="space-y-5">
+            <div className="space-y-2">
+              <Label htmlFor="program-name">Name</Label>
+              <Input
+                id="program-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g., 4-week strength block"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="program-description">Description (optional)</Label>
+              <Textarea
+                id="program-description"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                className="min-h-[60px]"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Sessions each week</Label>
+              {days.map((day, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <span className="w-12 text-sm text-muted-foreground">Day {index + 1}</span>
+                  <Input
+                    value={day.label || ""}
+                    onChange={(e) => updateDay(index, { label: e.target.value })}
+                    placeholder="Label"
+                    className="w-28"
+                  />
+                  <Select value={day.workout_id || ""} onValueChange={(value) => updateDay(index, { workout_id: value })}>
+                    <SelectTrigger className="flex-1">
+                      <SelectValue placeholder="Select routine" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {routines.map((routine) => (
+                        <SelectItem key={routine.id} value={routine.id}>{routine.title}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setDays(days.filter((_, i) => i !== index))}
+                    className="text-destructive hover:text-destructive/90"
+                  >
+                    <XCircle className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button variant="outline" size="sm" onClick={() => setDays([...days, { workout_id: null, label: null }])}>
+                <Plus className="h-4 w-4 mr-1" /> Add session
+              </Button>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Weeks</Label>
+              <div className="grid grid-cols-[3rem_1fr_5rem_5rem_4.5rem_4.5rem_2.25rem] gap-2 text-xs text-muted-foreground">
+                <span />
+                <span>Label</span>
+                <span>Weight %</span>
+                <span>Sets %</span>
+                <span>Reps</span>
+                <span>Deload</span>
+                <span />
+              </div>
+              {weeks.map((week, index) => (
+                <div key={index} className="grid grid-cols-[3rem_1fr_5rem_5rem_4.5rem_4.5rem_2.25rem] items-center gap-2">
+                  <span className="text-sm text-muted-foreground">Wk {index + 1}</span>
+                  <Input
+                    value={week.label || ""}
+                    onChange={(e) => updateWeek(index, { label: e.target.value })}
+                    placeholder="Label"
+                  />
+                  <Input
+                    type="number"
+                    min="0"
+                    step="2.5"
+                    value={week.intensity_percent}
+                    onChange={(e) => updateWeek(index, { intensity_percent: Number(e.target.value) })}
+                  />
+                  <Input
+                    type="number"
+                    min="0"
+                    step="10"
+                    value={week.volume_percent}
+                    onChange={(e) => updateWeek(index, { volume_percent: Number(e.target.value) })}
+                  />
+                  <Input
+                    type="number"
+                    min="1"
+                    value={week.reps ?? ""}
+                    onChange={(e) => updateWeek(index, { reps: e.target.value === "" ? null : Number(e.target.value) })}
+                    placeholder="Routine"
+                  />
+                  <div className="flex justify-center">
+                    <Checkbox
+                      checked={week.deload}
+                      onCheckedChange={(checked) => updateWeek(index, { deload: checked === true })}
+                    />
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setWeeks(weeks.filter((_, i) => i !== index))}
+                    className="text-destructive hover:text-destructive/90"
+                  >
+                    <XCircle className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button variant="outline" size="sm" onClick={() => setWeeks([...weeks, DEFAULT_PROGRAM_WEEK])}>
+                <Plus className="h-4 w-4 mr-1" /> Add week
+              </Button>
+            </div>
+          </div>
+        </ScrollArea>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>Cancel</Button>
+          <Button onClick={handleSave} disabled={saving}>Save Program</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,204 @@
+import { useState } from "react";
+import { ArrowLeft, BookOpen, Download } from "lucide-react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { useToast } from "@/components/ui/use-toast";
+import { exerciseService } from "@/api/services/exercise.service";
+import { programService } from "@/api/services/program.service";
+import { useUnits } from "@/hooks/useUnits";
+import { PROGRAM_LIBRARY, LibraryExerciseRow, LibraryProgram, buildLibraryExercises, getStartingLifts } from "@/lib/program-library";
+import { PROGRESSION_LABELS } from "@/lib/progression-utils";
+
+const describeProgression = (exercise: LibraryExerciseRow) => {
+  const label = PROGRESSION_LABELS[exercise.progression_type];
+  if (exercise.progression_type === "double") return `${label} ${exercise.rep_range_min}–${exercise.rep_range_max}`;
+  if (exercise.progression_type === "percentage") return `${exercise.training_max_percent}% of training max`;
+  return label;
+};
+
+export function ProgramLibraryDialog() {
+  const [open, setOpen] = useState(false);
+  const [selected, setSelected] = useState<LibraryProgram | null>(null);
+  const [startingWeights, setStartingWeights] = useState<Record<string, string>>({});
+  const [createProgram, setCreateProgram] = useState(true);
+  const [importing, setImporting] = useState(false);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { weightUnit, fromDisplayWeight } = useUnits();
+
+  const { data: templates = [] } = useQuery({
+    queryKey: ["exerciseTemplates"],
+    queryFn: () => exerciseService.getExerciseTemplates(),
+    enabled: open,
+  });
+
+  const weightsInKg = Object.fromEntries(
+    Object.entries(startingWeights)
+      .filter(([, value]) => parseFloat(value) > 0)
+      .map(([name, value]) => [name, fromDisplayWeight(parseFloat(value))])
+  );
+
+  const preview = selected
+    ? selected.routines.map(routine => buildLibraryExercises(routine, templates, weightsInKg, weightUnit))
+    : [];
+
+  const handleOpenChange = (value: boolean) => {
+    setOpen(value);
+    if (!value) {
+      setSelected(null);
+      setStartingWeights({});
+      setCreateProgram(true);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!selected) return;
+
+    try {
+      setImporting(true);
+      await programService.importLibraryProgram(selected, preview, createProgram);
+
+      queryClient.invalidateQueries({ queryKey: ["routines"] });
+      queryClient.invalidateQueries({ queryKey: ["workoutStats"] });
+      queryClient.invalidateQueries({ queryKey: ["programs"] });
+
+      toast({
+        title: `${selected.name} imported`,
+        description: createProgram
+          ? `${selected.routines.length} routines were added. Start the program from the Programs tab.`
+          : `${selected.routines.length} routines were added to your workouts.`,
+      });
+      handleOpenChange(false);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error importing program",
+        description: (error as Error).message,
+      });
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="w-full sm:w-auto">
+          <BookOpen className="mr-2 h-4 w-4" />
+          Program Library
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[700px]">
+        <DialogHeader>
+          <DialogTitle>{selected ? selected.name : "Program Library"}</DialogTitle>
+          <DialogDescription>
+            {selected
+              ? selected.description
+              : "Start from a proven program. Its routines and progression rules are created for you."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="max-h-[60vh] pr-3">
+          {!selected ? (
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              {PROGRAM_LIBRARY.map(program => (
+                <Card
+                  key={program.id}
+                  className="cursor-pointer transition-colors hover:border-primary/50"
+                  onClick={() => setSelected(program)}
+                >
+                  <CardHeader className="p-4">
+                    <CardTitle className="flex items-center justify-between gap-2 text-base">
+                      {program.name}
+                      <Badge variant="secondary">{program.level}</Badge>
+                    </CardTitle>
+                    <CardDescription className="text-xs">
+                      {program.schedule.length} sessions a week · {program.weeks.length} weeks
+                    </CardDescription>
+                    <p className="text-sm text-muted-foreground line-clamp-3">{program.description}</p>
+                  </CardHeader>
+                </Card>
+              ))}
+            </div>
+          ) : (
+            <div className="space-y-5">
+              <p className="text-sm text-muted-foreground">
+                Each week: {selected.schedule.map(index => selected.routines[index].label).join(" → ")}
+              </p>
+
+              {selected.routines.map((routine, routineIndex) => (
+                <div key={routine.title} className="space-y-1">
+                  <h4 className="font-medium">{routine.title}</h4>
+                  {preview[routineIndex].map(exercise => (
+                    <div key={exercise.order} className="flex flex-wrap items-center gap-2 text-sm">
+                      <span>{exercise.name}</span>
+                      <span className="text-muted-foreground">{exercise.sets} × {exercise.reps}</span>
+                      <Badge variant="outline" className="text-xs">{describeProgression(exercise)}</Badge>
+                      {!exercise.template_id && (
+                        <Badge variant="secondary" className="text-xs">Not in catalogue</Badge>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              ))}
+
+              <div className="space-y-2">
+                <Label>Starting weights ({weightUnit})</Label>
+                <p className="text-xs text-muted-foreground">
+                  Optional. Leave blank to fill in during your first session.
+                </p>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                  {getStartingLifts(selected).map(lift => (
+                    <div key={lift.name} className="flex items-center gap-2">
+                      <Label htmlFor={`start-${lift.name}`} className="flex-1 text-sm font-normal">
+                        {lift.name}{lift.usesTrainingMax ? " (training max)" : ""}
+                      </Label>
+                      <Input
+                        id={`start-${lift.name}`}
+                        type="number"
+                        min="0"
+                        step="0.5"
+                        className="w-24"
+                        value={startingWeights[lift.name] || ""}
+                        onChange={(e) => setStartingWeights({ ...startingWeights, [lift.name]: e.target.value })}
+                      />
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="create-program"
+                  checked={createProgram}
+                  onCheckedChange={(checked) => setCreateProgram(checked === true)}
+                />
+                <Label htmlFor="create-program" className="font-normal">
+                  Also set it up as a {selected.weeks.length}-week program
+                </Label>
+              </div>
+            </div>
+          )}
+        </ScrollArea>
+
+        {selected && (
+          <DialogFooter className="gap-2">
+            <Button variant="outline" onClick={() => setSelected(null)} disabled={importing}>
+              <ArrowLeft className="mr-2 h-4 w-4" /> Back
+            </Button>
+            <Button onClick={handleImport} disabled={importing}>
+              <Download className="mr-2 h-4 w-4" /> Import
+            </Button>
+          </DialogFooter>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,181 @@
+import { useState } from "react";
+import { CheckCircle, Edit, Layers, Play, Plus, Square, Trash2 } from "lucide-react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { useToast } from "@/components/ui/use-toast";
+import { ProgramDialog } from "@/components/ProgramDialog";
+import { programService } from "@/api/services/program.service";
+import { Program } from "@/types/workout";
+import { describeProgramWeek, getProgramPosition, getProgramProgress } from "@/lib/program-utils";
+
+interface ProgramManagerProps {
+  routines: { id: string; title: string }[];
+  onStartWorkout: (workoutId: string) => void;
+}
+
+export function ProgramManager({ routines, onStartWorkout }: ProgramManagerProps) {
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingProgram, setEditingProgram] = useState<Program | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: programs = [], isLoading } = useQuery({
+    queryKey: ["programs"],
+    queryFn: () => programService.getPrograms(),
+  });
+
+  const titles = new Map(routines.map(routine => [routine.id, routine.title]));
+  const activeProgram = programs.find(program => program.is_active);
+  const activePosition = activeProgram ? getProgramPosition(activeProgram) : null;
+  const activeProgress = activeProgram ? getProgramProgress(activeProgram) : null;
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ["programs"] });
+
+  const runAction = async (action: () => Promise<void>, title: string, description: string) => {
+    try {
+      await action();
+      refresh();
+      toast({ title, description });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error updating program",
+        description: (error as Error).message,
+      });
+    }
+  };
+
+  const openDialog = (program: Program | null) => {
+    setEditingProgram(program);
+    setDialogOpen(true);
+  };
+
+  return (
+    <div className="space-y-4 animate-fade-up">
+      {activeProgram && (
+        <Card className="border-primary/40 bg-primary/5">
+          <CardHeader className="pb-2">
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <Layers className="h-5 w-5 text-primary" />
+              {activeProgram.name}
+            </CardTitle>
+            {activePosition && (
+              <CardDescription>
+                Week {activePosition.week + 1} of {activeProgram.weeks.length}
+                {activePosition.weekPlan.label ? ` (${activePosition.weekPlan.label})` : ""}, day {activePosition.day + 1}:{" "}
+                {titles.get(activePosition.dayPlan.workout_id || "") || "Missing routine"} · {describeProgramWeek(activePosition.weekPlan)}
+              </CardDescription>
+            )}
+          </CardHeader>
+          <CardContent className="pb-2">
+            <Progress value={(activeProgress.done / Math.max(1, activeProgress.total)) * 100} />
+            <p className="mt-1 text-xs text-muted-foreground">
+              {activeProgress.done} of {activeProgress.total} sessions done
+            </p>
+          </CardContent>
+          <CardFooter className="gap-2">
+            {activePosition?.dayPlan.workout_id && titles.has(activePosition.dayPlan.workout_id) && (
+              <Button onClick={() => onStartWorkout(activePosition.dayPlan.workout_id)}>
+                <Play className="mr-2 h-4 w-4" /> Start next session
+              </Button>
+            )}
+            <Button
+              variant="outline"
+              onClick={() => runAction(
+                () => programService.stopProgram(activeProgram.id),
+                "Program stopped",
+                `${activeProgram.name} is no longer running.`
+              )}
+            >
+              <Square className="mr-2 h-4 w-4" /> Stop
+            </Button>
+          </CardFooter>
+        </Card>
+      )}
+
+      <div className="flex items-center justify-between">
+        <h2 className="text-2xl font-semibold dark:text-white">Programs</h2>
+        <Button onClick={() => openDialog(null)} disabled={routines.length === 0}>
+          <Plus className="mr-2 h-4 w-4" /> New Program
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+        {isLoading ? (
+          Array(2).fill(0).map((_, i) => (
+            <div key={i} className="h-32 bg-gray-100 dark:bg-gray-800 animate-pulse rounded-lg" />
+          ))
+        ) : programs.length ? (
+          programs.map((program) => (
+            <Card key={program.id} className="flex flex-col">
+              <CardHeader className="pb-2">
+                <CardTitle className="flex items-center gap-2 text-lg">
+                  <span className="line-clamp-1">{program.name}</span>
+                  {program.is_active && <Badge>Running</Badge>}
+                  {program.completed_at && (
+                    <Badge variant="secondary"><CheckCircle className="mr-1 h-3 w-3" />Done</Badge>
+                  )}
+                </CardTitle>
+                <CardDescription>
+                  {program.weeks.length} {program.weeks.length === 1 ? "week" : "weeks"} ·{" "}
+                  {program.days.length} {program.days.length === 1 ? "session" : "sessions"} a week
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="flex-grow pb-2 text-sm text-muted-foreground">
+                {program.description && <p className="mb-1">{program.description}</p>}
+                <p className="line-clamp-2">
+                  {program.days.map(day => day.label || titles.get(day.workout_id || "") || "Missing routine").join(" → ")}
+                </p>
+              </CardContent>
+              <CardFooter className="flex justify-between pt-2">
+                <Button
+                  size="sm"
+                  disabled={program.is_active}
+                  onClick={() => runAction(
+                    () => programService.startProgram(program.id),
+                    "Program started",
+                    `${program.name} starts at week 1, day 1.`
+                  )}
+                >
+                  <Play className="mr-1 h-4 w-4" /> {program.completed_at ? "Restart" : "Start"}
+                </Button>
+                <div className="flex gap-1">
+                  <Button variant="ghost" size="icon" onClick={() => openDialog(program)}>
+                    <Edit className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="text-destructive hover:text-destructive/90"
+                    onClick={() => runAction(
+                      () => programService.deleteProgram(program.id),
+                      "Program deleted",
+                      `${program.name} has been deleted.`
+                    )}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </CardFooter>
+            </Card>
+          ))
+        ) : (
+          <div className="col-span-full text-center py-8 text-gray-500 dark:text-gray-400">
+            No programs yet. Combine your routines into a multi-week block with a planned deload.
+          </div>
+        )}
+      </div>
+
+      <ProgramDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        program={editingProgram}
+        routines={routines}
+        onSaved={refresh}
+      />
+    </div>
+  );
+}
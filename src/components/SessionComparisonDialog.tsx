@@ -0,0 +1,185 @@
+import { format } from "date-fns";
+import { ArrowDown, ArrowUp } from "lucide-react";
+import { useQuery } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { CompletedSession, historyService } from "@/api/services/history.service";
+import { useUnits } from "@/hooks/useUnits";
+import { ExerciseSessionHistory } from "@/types/workout";
+import { compareSessions } from "@/lib/history-utils";
+import { formatDistance, formatDuration } from "@/lib/tracking-utils";
+
+const SESSION_COUNTS = [2, 3, 4, 5];
+
+type Metric = {
+  label: string;
+  value: (summary: ExerciseSessionHistory) => number;
+  display: (summary: ExerciseSessionHistory) => string;
+};
+
+interface SessionComparisonDialogProps {
+  // Sessions to compare, from the history; closed while empty
+  sessionIds: string[];
+  onSessionIdsChange: (ids: string[]) => void;
+  history: CompletedSession[];
+}
+
+export function SessionComparisonDialog({ sessionIds, onSessionIdsChange, history }: SessionComparisonDialogProps) {
+  const { weightUnit, toDisplayWeight } = useUnits();
+
+  // Oldest first, so changes read left to right
+  const selected = history
+    .filter(session => sessionIds.includes(session.id))
+    .sort((a, b) => new Date(a.completed_at).getTime() - new Date(b.completed_at).getTime());
+
+  const routineId = selected[0]?.workout_id;
+  const sameRoutine = !!routineId && selected.every(session => session.workout_id === routineId);
+  const routineSessions = sameRoutine ? history.filter(session => session.workout_id === routineId) : [];
+
+  const { data: rows = [], isLoading } = useQuery({
+    queryKey: ["sessionComparison", ...selected.map(session => session.id)],
+    queryFn: async () => {
+      const entries = await Promise.all(selected.map(session => historyService.getSession(session.id)));
+      return compareSessions(selected.map((session, index) => ({
+        id: session.id,
+        completed_at: session.completed_at,
+        workout_title: session.workout_title,
+        sets: entries[index].sets,
+      })));
+    },
+    enabled: selected.length > 1,
+  });
+
+  // The latest sessions come first in the history
+  const showLastSessions = (count: string) => {
+    onSessionIdsChange(routineSessions.slice(0, Number(count)).map(session => session.id));
+  };
+
+  const metricsFor = (summaries: (ExerciseSessionHistory | null)[]): Metric[] => {
+    const done = summaries.filter(Boolean);
+    const metrics: Metric[] = [];
+
+    if (done.some(summary => summary.total_reps > 0)) {
+      metrics.push(
+        {
+          label: `Top set (${weightUnit})`,
+          value: summary => summary.top_set_weight,
+          display: summary => `${toDisplayWeight(summary.top_set_weight)} × ${summary.top_set_reps}`,
+        },
+        { label: "Reps", value: summary => summary.total_reps, display: summary => String(summary.total_reps) },
+        {
+          label: `Volume (${weightUnit})`,
+          value: summary => summary.volume,
+          display: summary => String(toDisplayWeight(summary.volume)),
+        }
+      );
+    }
+    if (done.some(summary => summary.total_duration > 0)) {
+      metrics.push({
+        label: "Time",
+        value: summary => summary.total_duration,
+        display: summary => formatDuration(summary.total_duration),
+      });
+    }
+    if (done.some(summary => summary.total_distance > 0)) {
+      metrics.push({
+        label: "Distance",
+        value: summary => summary.total_distance,
+        display: summary => formatDistance(summary.total_distance),
+      });
+    }
+    return metrics;
+  };
+
+  // Change from the session before, highlighted when it went up or down
+  const renderDelta = (metric: Metric, current: ExerciseSessionHistory, previous: ExerciseSessionHistory | null) => {
+    if (!previous) return null;
+    const delta = metric.value(current) - metric.value(previous);
+    if (delta === 0) return null;
+
+    const percent = metric.value(previous) > 0 ? Math.round(delta / metric.value(previous) * 100) : null;
+    return (
+      <span className={`ml-1 inline-flex items-center text-xs ${delta > 0 ? "text-green-600" : "text-red-600"}`}>
+        {delta > 0 ? <ArrowUp className="h-3 w-3" /> : <ArrowDown className="h-3 w-3" />}
+        {percent !== null ? `${Math.abs(percent)}%` : ""}
+      </span>
+    );
+  };
+
+  return (
+    <Dialog open={sessionIds.length > 0} onOpenChange={(open) => !open && onSessionIdsChange([])}>
+      <DialogContent className="sm:max-w-[900px]">
+        <DialogHeader>
+          <DialogTitle>Compare Sessions</DialogTitle>
+          <DialogDescription>
+            {sameRoutine
+              ? `${selected[0].workout_title}: ${selected.length} sessions, oldest first.`
+              : "Exercises are matched by name across the sessions, oldest first."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {sameRoutine && routineSessions.length > 2 && (
+          <Select value={String(selected.length)} onValueChange={showLastSessions}>
+            <SelectTrigger className="w-[220px]">
+              <SelectValue placeholder="Compare the last sessions" />
+            </SelectTrigger>
+            <SelectContent>
+              {SESSION_COUNTS.filter(count => count <= routineSessions.length).map(count => (
+                <SelectItem key={count} value={String(count)}>Last {count} sessions</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+
+        {selected.length < 2 ? (
+          <p className="py-8 text-center text-muted-foreground">Pick at least two sessions to compare.</p>
+        ) : isLoading ? (
+          <Skeleton className="h-[300px] w-full" />
+        ) : rows.length === 0 ? (
+          <p className="py-8 text-center text-muted-foreground">These sessions have no logged sets.</p>
+        ) : (
+          <ScrollArea className="max-h-[60vh]">
+            <div className="space-y-4">
+              {rows.map(row => (
+                <div key={row.exercise_name} className="rounded-md border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>{row.exercise_name}</TableHead>
+                        {selected.map(session => (
+                          <TableHead key={session.id}>{format(new Date(session.completed_at), 'MMM dd, yyyy')}</TableHead>
+                        ))}
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {metricsFor(row.sessions).map(metric => (
+                        <TableRow key={metric.label}>
+                          <TableCell className="text-muted-foreground">{metric.label}</TableCell>
+                          {row.sessions.map((summary, index) => (
+                            <TableCell key={selected[index].id}>
+                              {summary ? (
+                                <>
+                                  {metric.display(summary)}
+                                  {index > 0 && renderDelta(metric, summary, row.sessions[index - 1])}
+                                </>
+                              ) : (
+                                <span className="text-muted-foreground">—</span>
+                              )}
+                            </TableCell>
+                          ))}
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
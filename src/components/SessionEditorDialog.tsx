@@ -0,0 +1,401 @@
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { Plus, Trash2 } from "lucide-react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/components/ui/use-toast";
+import { ExerciseSearch } from "@/components/ExerciseSearch";
+import { exerciseService } from "@/api/services/exercise.service";
+import { historyService } from "@/api/services/history.service";
+import { workoutService } from "@/api/services/workout.service";
+import { useUnits } from "@/hooks/useUnits";
+import { ExerciseTemplate, LoggedSet, SetType } from "@/types/workout";
+import { SessionExerciseEntry, flattenSessionExercises, groupSetsByExercise } from "@/lib/history-utils";
+import { SET_TYPE_LABELS } from "@/lib/set-types";
+import { tracksDistance, tracksReps, tracksTime } from "@/lib/tracking-utils";
+
+const NO_ROUTINE = "none";
+
+const toInputDate = (date: Date) => format(date, "yyyy-MM-dd'T'HH:mm");
+
+// Sets without a time yet take the session's date when saved
+const newSet = (overrides: Partial<LoggedSet> = {}): LoggedSet => ({
+  exercise_id: null,
+  exercise_name: "",
+  set_number: 1,
+  reps: 0,
+  weight: null,
+  duration_seconds: null,
+  distance_meters: null,
+  set_type: "working",
+  rpe: null,
+  rir: null,
+  completed_at: null,
+  ...overrides,
+});
+
+interface SessionEditorDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // The completed session to edit; a past session is logged without it
+  sessionId?: string | null;
+  routines: { id: string; title: string }[];
+}
+
+export function SessionEditorDialog({ open, onOpenChange, sessionId, routines }: SessionEditorDialogProps) {
+  const [workoutId, setWorkoutId] = useState(NO_ROUTINE);
+  const [title, setTitle] = useState("");
+  const [completedAt, setCompletedAt] = useState("");
+  const [originalCompletedAt, setOriginalCompletedAt] = useState<string | null>(null);
+  const [duration, setDuration] = useState("60");
+  const [notes, setNotes] = useState("");
+  const [exercises, setExercises] = useState<SessionExerciseEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+  const { weightUnit, toDisplayWeight, fromDisplayWeight } = useUnits();
+  const queryClient = useQueryClient();
+
+  const { data: templates = [] } = useQuery({
+    queryKey: ["exerciseLibrary"],
+    queryFn: () => exerciseService.getLibrary(),
+    enabled: open,
+  });
+
+  useEffect(() => {
+    if (!open) return;
+
+    if (!sessionId) {
+      setWorkoutId(NO_ROUTINE);
+      setTitle("");
+      setCompletedAt(toInputDate(new Date()));
+      setOriginalCompletedAt(null);
+      setDuration("60");
+      setNotes("");
+      setExercises([]);
+      return;
+    }
+
+    setLoading(true);
+    historyService.getSession(sessionId)
+      .then(session => {
+        setWorkoutId(session.workout_id || NO_ROUTINE);
+        setTitle(session.title || "");
+        setCompletedAt(toInputDate(new Date(session.completed_at)));
+        setOriginalCompletedAt(session.completed_at);
+        setDuration(String(session.duration));
+        setNotes(session.notes || "");
+        setExercises(groupSetsByExercise(session.sets));
+      })
+      .catch(error => {
+        toast({
+          variant: "destructive",
+          title: "Error loading session",
+          description: (error as Error).message,
+        });
+      })
+      .finally(() => setLoading(false));
+  }, [open, sessionId, toast]);
+
+  // Picking a routine for a new, empty session fills in its prescribed sets
+  const handleRoutineChange = async (id: string) => {
+    setWorkoutId(id);
+    if (id === NO_ROUTINE || exercises.length > 0) return;
+
+    try {
+      const routine = await workoutService.getWorkoutById(id);
+      const routineExercises = [...(routine?.exercises || [])].sort((a, b) => (a.order ?? 0) - (b.order ?? 0));
+      setExercises(routineExercises.map(exercise => ({
+        name: exercise.name,
+        exercise_id: exercise.id,
+        tracking_type: exercise.tracking_type as SessionExerciseEntry["tracking_type"],
+        sets: Array.from({ length: exercise.sets }, () => newSet({
+          reps: exercise.reps,
+          weight: exercise.weight,
+          duration_seconds: exercise.duration_seconds,
+          distance_meters: exercise.distance_meters,
+        })),
+      })));
+    } catch (error) {
+      console.error("Error loading routine:", error);
+    }
+  };
+
+  const addExercise = (template: ExerciseTemplate) => {
+    setExercises(prev => [...prev, {
+      name: template.name,
+      exercise_id: null,
+      tracking_type: template.tracking_type || "reps",
+      sets: [newSet({ reps: 10 })],
+    }]);
+  };
+
+  const removeExercise = (exerciseIndex: number) => {
+    setExercises(prev => prev.filter((_, index) => index !== exerciseIndex));
+  };
+
+  const updateSets = (exerciseIndex: number, update: (sets: LoggedSet[]) => LoggedSet[]) => {
+    setExercises(prev => prev.map((exercise, index) => index === exerciseIndex
+      ? { ...exercise, sets: update(exercise.sets) }
+      : exercise
+    ));
+  };
+
+  const updateSet = (exerciseIndex: number, setIndex: number, changes: Partial<LoggedSet>) => {
+    updateSets(exerciseIndex, sets => sets.map((set, index) => index === setIndex ? { ...set, ...changes } : set));
+  };
+
+  // A new set repeats the one before it
+  const addSet = (exerciseIndex: number) => {
+    updateSets(exerciseIndex, sets => {
+      const { completed_at: _completedAt, ...last } = sets[sets.length - 1] || newSet({ reps: 10 });
+      return [...sets, newSet(last)];
+    });
+  };
+
+  const removeSet = (exerciseIndex: number, setIndex: number) => {
+    updateSets(exerciseIndex, sets => sets.filter((_, index) => index !== setIndex));
+  };
+
+  const handleSave = async () => {
+    const date = new Date(completedAt);
+    if (!completedAt || isNaN(date.getTime())) {
+      toast({
+        variant: "destructive",
+        title: "Date required",
+        description: "Please enter when the session was done.",
+      });
+      return;
+    }
+
+    const completedAtIso = date.toISOString();
+    const entry = {
+      workout_id: workoutId === NO_ROUTINE ? null : workoutId,
+      title: workoutId === NO_ROUTINE ? title.trim() || "Workout" : null,
+      completed_at: completedAtIso,
+      duration: Math.max(0, parseInt(duration) || 0),
+      notes: notes.trim() || null,
+      sets: flattenSessionExercises(
+        exercises.filter(exercise => exercise.sets.length > 0),
+        completedAtIso,
+        originalCompletedAt
+      ),
+    };
+
+    try {
+      setSaving(true);
+      if (sessionId) {
+        await historyService.updateSession(sessionId, entry);
+      } else {
+        await historyService.logSession(entry);
+      }
+
+      queryClient.invalidateQueries({ queryKey: ["sessionHistory"] });
+      queryClient.invalidateQueries({ queryKey: ["sessionComparison"] });
+      queryClient.invalidateQueries({ queryKey: ["workoutStats"] });
+      queryClient.invalidateQueries({ queryKey: ["calendarSessions"] });
+      queryClient.invalidateQueries({ queryKey: ["muscleLoads"] });
+      queryClient.invalidateQueries({ queryKey: ["loggedExerciseNames"] });
+
+      toast({
+        title: sessionId ? "Session updated" : "Session logged",
+        description: `${format(date, "MMM dd, yyyy")} with ${entry.sets.length} sets.`,
+      });
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error saving session",
+        description: (error as Error).message,
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[700px]">
+        <DialogHeader>
+          <DialogTitle>{sessionId ? "Edit Session" : "Log Past Session"}</DialogTitle>
+          <DialogDescription>
+            Stats, streaks and personal records update from the sets you save here.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="py-10 text-center">
+            <div className="inline-block animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+          </div>
+        ) : (
+          <ScrollArea className="max-h-[60vh] pr-3">
+            <div className="space-y-4">
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Routine</Label>
+                  <Select value={workoutId} onValueChange={handleRoutineChange}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_ROUTINE}>No routine</SelectItem>
+                      {routines.map(routine => (
+                        <SelectItem key={routine.id} value={routine.id}>{routine.title}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                {workoutId === NO_ROUTINE && (
+                  <div className="space-y-2">
+                    <Label htmlFor="session-title">Title</Label>
+                    <Input
+                      id="session-title"
+                      value={title}
+                      onChange={(e) => setTitle(e.target.value)}
+                      placeholder="Workout"
+                    />
+                  </div>
+                )}
+                <div className="space-y-2">
+                  <Label htmlFor="session-date">Date and time</Label>
+                  <Input
+                    id="session-date"
+                    type="datetime-local"
+                    value={completedAt}
+                    onChange={(e) => setCompletedAt(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="session-duration">Duration (min)</Label>
+                  <Input
+                    id="session-duration"
+                    type="number"
+                    min="0"
+                    value={duration}
+                    onChange={(e) => setDuration(e.target.value)}
+                  />
+                </div>
+              </div>
+
+              {exercises.map((exercise, exerciseIndex) => (
+                <div key={exerciseIndex} className="rounded-md border p-3 space-y-2">
+                  <div className="flex items-center justify-between">
+                    <p className="font-medium">{exercise.name}</p>
+                    <Button type="button" variant="ghost" size="icon" onClick={() => removeExercise(exerciseIndex)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  {exercise.sets.map((set, setIndex) => (
+                    <div key={setIndex} className="flex flex-wrap items-center gap-2 text-sm">
+                      <span className="w-6 text-muted-foreground">{setIndex + 1}</span>
+                      {tracksReps(exercise.tracking_type) && (
+                        <Input
+                          type="number"
+                          min="0"
+                          aria-label="Reps"
+                          placeholder="Reps"
+                          value={set.reps}
+                          onChange={(e) => updateSet(exerciseIndex, setIndex, { reps: Number(e.target.value) })}
+                          className="h-8 w-16"
+                        />
+                      )}
+                      {tracksTime(exercise.tracking_type) && (
+                        <Input
+                          type="number"
+                          min="0"
+                          aria-label="Time (seconds)"
+                          placeholder="Sec"
+                          value={set.duration_seconds ?? ""}
+                          onChange={(e) => updateSet(exerciseIndex, setIndex, {
+                            duration_seconds: e.target.value === "" ? null : Number(e.target.value)
+                          })}
+                          className="h-8 w-16"
+                        />
+                      )}
+                      {tracksDistance(exercise.tracking_type) && (
+                        <Input
+                          type="number"
+                          min="0"
+                          aria-label="Distance (m)"
+                          placeholder="m"
+                          value={set.distance_meters ?? ""}
+                          onChange={(e) => updateSet(exerciseIndex, setIndex, {
+                            distance_meters: e.target.value === "" ? null : Number(e.target.value)
+                          })}
+                          className="h-8 w-20"
+                        />
+                      )}
+                      <Input
+                        type="number"
+                        min="0"
+                        step="0.5"
+                        aria-label={`Weight (${weightUnit})`}
+                        placeholder={weightUnit}
+                        value={toDisplayWeight(set.weight) ?? ""}
+                        onChange={(e) => updateSet(exerciseIndex, setIndex, {
+                          weight: e.target.value === "" ? null : fromDisplayWeight(Number(e.target.value))
+                        })}
+                        className="h-8 w-20"
+                      />
+                      <Select
+                        value={set.set_type || "working"}
+                        onValueChange={(value) => updateSet(exerciseIndex, setIndex, { set_type: value as SetType })}
+                      >
+                        <SelectTrigger className="h-8 w-28 text-xs">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {(Object.keys(SET_TYPE_LABELS) as SetType[]).map(type => (
+                            <SelectItem key={type} value={type}>{SET_TYPE_LABELS[type]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => removeSet(exerciseIndex, setIndex)}
+                      >
+                        <Trash2 className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  ))}
+                  <Button type="button" variant="outline" size="sm" onClick={() => addSet(exerciseIndex)}>
+                    <Plus className="mr-1 h-3 w-3" />
+                    Add set
+                  </Button>
+                </div>
+              ))}
+
+              <div className="space-y-2">
+                <Label>Add an exercise</Label>
+                <ExerciseSearch templates={templates} onSelectTemplate={addExercise} onCustomExerciseCreated={addExercise} />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="session-notes">Notes</Label>
+                <Textarea id="session-notes" value={notes} onChange={(e) => setNotes(e.target.value)} rows={2} />
+              </div>
+            </div>
+          </ScrollArea>
+        )}
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button type="button" onClick={handleSave} disabled={saving || loading}>
+            {sessionId ? "Save Changes" : "Log Session"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
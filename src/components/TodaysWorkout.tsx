@@ -0,0 +1,74 @@
+import { endOfDay, format, startOfDay } from "date-fns";
+import { CalendarCheck, CheckCircle, Coffee, Play } from "lucide-react";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { scheduleService } from "@/api/services/schedule.service";
+import { getScheduledSlot } from "@/lib/schedule-utils";
+
+interface TodaysWorkoutProps {
+  routines: { id: string; title: string }[];
+  onStart: (workoutId: string) => void;
+}
+
+export function TodaysWorkout({ routines, onStart }: TodaysWorkoutProps) {
+  const today = new Date();
+
+  const { data: schedule } = useQuery({
+    queryKey: ["trainingSchedule"],
+    queryFn: () => scheduleService.getSchedule(),
+  });
+
+  const { data: sessions = [] } = useQuery({
+    queryKey: ["calendarSessions", "today", format(today, "yyyy-MM-dd")],
+    queryFn: () => scheduleService.getCompletedSessions(startOfDay(today), endOfDay(today)),
+    enabled: !!schedule,
+  });
+
+  const slot = getScheduledSlot(schedule ?? null, today);
+  if (!slot) return null;
+
+  if (!slot.workout_id) {
+    return (
+      <Card className="animate-fade-in">
+        <CardHeader className="pb-4">
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <Coffee className="h-5 w-5 text-muted-foreground" />
+            Rest day
+          </CardTitle>
+          <CardDescription>
+            Nothing is scheduled for today. Recover well.
+          </CardDescription>
+        </CardHeader>
+      </Card>
+    );
+  }
+
+  // The routine may have been deleted since it was scheduled
+  const routine = routines.find(r => r.id === slot.workout_id);
+  if (!routine) return null;
+
+  const done = sessions.some(session => session.workout_id === routine.id);
+
+  return (
+    <Card className="border-primary/40 bg-primary/5 animate-fade-in">
+      <CardHeader className="pb-2">
+        <CardTitle className="flex items-center gap-2 text-lg">
+          {done ? <CheckCircle className="h-5 w-5 text-green-600" /> : <CalendarCheck className="h-5 w-5 text-primary" />}
+          Today's workout: {routine.title}
+        </CardTitle>
+        <CardDescription>
+          {done
+            ? "Completed — nice work."
+            : `${slot.label ? `${slot.label} day. ` : ""}Planned for ${format(today, "EEEE")}.`}
+        </CardDescription>
+      </CardHeader>
+      <CardFooter>
+        <Button onClick={() => onStart(routine.id)} variant={done ? "outline" : "default"}>
+          <Play className="mr-2 h-4 w-4" />
+          {done ? "Train again" : "Start"}
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
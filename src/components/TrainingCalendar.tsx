@@ -0,0 +1,107 @@
+import { useState } from "react";
+import { addMonths, format, isToday, subMonths } from "date-fns";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { cn } from "@/lib/utils";
+import { scheduleService } from "@/api/services/schedule.service";
+import { CalendarDay, CalendarDayStatus, WEEKDAY_LABELS, buildMonthCalendar, getCalendarRange } from "@/lib/schedule-utils";
+
+interface TrainingCalendarProps {
+  routines: { id: string; title: string }[];
+}
+
+const STATUS_STYLES: Record<CalendarDayStatus, string> = {
+  completed: "bg-green-100 border-green-300 dark:bg-green-900/40 dark:border-green-700",
+  missed: "bg-red-50 border-red-200 dark:bg-red-900/30 dark:border-red-800",
+  planned: "bg-primary/5 border-primary/30",
+  extra: "bg-blue-50 border-blue-200 dark:bg-blue-900/30 dark:border-blue-800",
+  rest: "bg-muted/40",
+  none: "",
+};
+
+const LEGEND: { status: CalendarDayStatus; label: string }[] = [
+  { status: "completed", label: "Completed" },
+  { status: "planned", label: "Planned" },
+  { status: "missed", label: "Missed" },
+  { status: "extra", label: "Unplanned session" },
+  { status: "rest", label: "Rest" },
+];
+
+export function TrainingCalendar({ routines }: TrainingCalendarProps) {
+  const [month, setMonth] = useState(new Date());
+  const { start, end } = getCalendarRange(month);
+
+  const { data: schedule } = useQuery({
+    queryKey: ["trainingSchedule"],
+    queryFn: () => scheduleService.getSchedule(),
+  });
+
+  const { data: sessions = [] } = useQuery({
+    queryKey: ["calendarSessions", format(month, "yyyy-MM")],
+    queryFn: () => scheduleService.getCompletedSessions(start, end),
+  });
+
+  const titles = new Map(routines.map(routine => [routine.id, routine.title]));
+  const days = buildMonthCalendar(month, schedule ?? null, sessions);
+
+  const describeDay = (day: CalendarDay) => {
+    if (day.sessions.length > 0) {
+      return day.sessions.map(session => titles.get(session.workout_id || "") || "Workout").join(", ");
+    }
+    if (day.slot?.workout_id) return titles.get(day.slot.workout_id) || day.slot.label || "Workout";
+    if (day.slot) return day.slot.label || "Rest";
+    return "";
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle>{format(month, "MMMM yyyy")}</CardTitle>
+        <div className="flex gap-1">
+          <Button variant="outline" size="icon" onClick={() => setMonth(subMonths(month, 1))}>
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => setMonth(new Date())}>
+            Today
+          </Button>
+          <Button variant="outline" size="icon" onClick={() => setMonth(addMonths(month, 1))}>
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="grid grid-cols-7 gap-1 text-center text-xs font-medium text-muted-foreground">
+          {WEEKDAY_LABELS.map(day => (
+            <div key={day}>{day.slice(0, 3)}</div>
+          ))}
+        </div>
+        <div className="grid grid-cols-7 gap-1">
+          {days.map(day => (
+            <div
+              key={day.date.toISOString()}
+              className={cn(
+                "min-h-[64px] rounded-md border p-1 text-left",
+                STATUS_STYLES[day.status],
+                !day.inMonth && "opacity-40",
+                isToday(day.date) && "ring-2 ring-primary"
+              )}
+            >
+              <div className="text-xs font-medium">{format(day.date, "d")}</div>
+              <div className="text-2xs sm:text-xs line-clamp-2 text-muted-foreground">{describeDay(day)}</div>
+            </div>
+          ))}
+        </div>
+        <div className="flex flex-wrap gap-3 text-xs text-muted-foreground">
+          {LEGEND.map(item => (
+            <div key={item.status} className="flex items-center gap-1">
+              <span className={cn("h-3 w-3 rounded-sm border", STATUS_STYLES[item.status])} />
+              {item.label}
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
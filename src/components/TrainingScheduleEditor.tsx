@@ -0,0 +1,216 @@
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { Plus, Save, Trash2, XCircle } from "lucide-react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/components/ui/use-toast";
+import { scheduleService } from "@/api/services/schedule.service";
+import { ScheduleMode, ScheduleSlot } from "@/types/workout";
+import { SCHEDULE_MODE_LABELS, WEEKDAY_LABELS, createWeeklySlots } from "@/lib/schedule-utils";
+
+interface TrainingScheduleEditorProps {
+  routines: { id: string; title: string }[];
+}
+
+const REST = "rest";
+
+export function TrainingScheduleEditor({ routines }: TrainingScheduleEditorProps) {
+  const [mode, setMode] = useState<ScheduleMode>("weekly");
+  const [slots, setSlots] = useState<ScheduleSlot[]>(createWeeklySlots());
+  const [startDate, setStartDate] = useState(format(new Date(), "yyyy-MM-dd"));
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: schedule } = useQuery({
+    queryKey: ["trainingSchedule"],
+    queryFn: () => scheduleService.getSchedule(),
+  });
+
+  useEffect(() => {
+    if (!schedule) return;
+    setMode(schedule.mode);
+    setSlots(schedule.slots);
+    setStartDate(schedule.start_date);
+  }, [schedule]);
+
+  const handleModeChange = (value: ScheduleMode) => {
+    setMode(value);
+    // Weekly plans always have one slot per weekday; a new rotation starts as Push/Pull/Legs/Rest
+    setSlots(value === "weekly"
+      ? createWeeklySlots()
+      : ["Push", "Pull", "Legs", "Rest"].map(label => ({ workout_id: null, label })));
+  };
+
+  const updateSlot = (index: number, changes: Partial<ScheduleSlot>) => {
+    setSlots(slots.map((slot, i) => i === index ? { ...slot, ...changes } : slot));
+  };
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["trainingSchedule"] });
+  };
+
+  const handleSave = async () => {
+    if (mode === "rotation" && slots.length === 0) {
+      toast({
+        variant: "destructive",
+        title: "Cycle is empty",
+        description: "Add at least one day to the rotation.",
+      });
+      return;
+    }
+
+    try {
+      setSaving(true);
+      await scheduleService.saveSchedule({ mode, slots, start_date: startDate });
+      invalidate();
+      toast({
+        title: "Schedule saved",
+        description: "Your planned sessions now show on the calendar.",
+      });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error saving schedule",
+        description: (error as Error).message,
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleClear = async () => {
+    try {
+      setSaving(true);
+      await scheduleService.deleteSchedule();
+      setMode("weekly");
+      setSlots(createWeeklySlots());
+      invalidate();
+      toast({
+        title: "Schedule cleared",
+        description: "Routines are no longer assigned to days.",
+      });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error clearing schedule",
+        description: (error as Error).message,
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderRoutineSelect = (slot: ScheduleSlot, index: number) => (
+    <Select
+      value={slot.workout_id || REST}
+      onValueChange={(value) => updateSlot(index, { workout_id: value === REST ? null : value })}
+      disabled={saving}
+    >
+      <SelectTrigger className="flex-1">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={REST}>Rest day</SelectItem>
+        {routines.map((routine) => (
+          <SelectItem key={routine.id} value={routine.id}>{routine.title}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Training Schedule</CardTitle>
+        <CardDescription>
+          Assign routines to weekdays or to a repeating cycle of days.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="schedule-mode">Schedule type</Label>
+          <Select value={mode} onValueChange={(value) => handleModeChange(value as ScheduleMode)} disabled={saving}>
+            <SelectTrigger id="schedule-mode">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(SCHEDULE_MODE_LABELS) as ScheduleMode[]).map((type) => (
+                <SelectItem key={type} value={type}>{SCHEDULE_MODE_LABELS[type]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {mode === "weekly" ? (
+          <div className="space-y-2">
+            {slots.map((slot, index) => (
+              <div key={index} className="flex items-center gap-3">
+                <span className="w-24 text-sm font-medium">{WEEKDAY_LABELS[index]}</span>
+                {renderRoutineSelect(slot, index)}
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="space-y-2">
+            <div className="space-y-2">
+              <Label htmlFor="schedule-start">Day 1 of the cycle</Label>
+              <Input
+                id="schedule-start"
+                type="date"
+                value={startDate}
+                onChange={(e) => setStartDate(e.target.value)}
+                disabled={saving}
+              />
+            </div>
+            {slots.map((slot, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <span className="w-12 text-sm text-muted-foreground">Day {index + 1}</span>
+                <Input
+                  value={slot.label || ""}
+                  onChange={(e) => updateSlot(index, { label: e.target.value })}
+                  placeholder="Label"
+                  className="w-28"
+                  disabled={saving}
+                />
+                {renderRoutineSelect(slot, index)}
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setSlots(slots.filter((_, i) => i !== index))}
+                  className="text-destructive hover:text-destructive/90"
+                  disabled={saving}
+                >
+                  <XCircle className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setSlots([...slots, { workout_id: null, label: null }])}
+              disabled={saving}
+            >
+              <Plus className="h-4 w-4 mr-1" /> Add day
+            </Button>
+          </div>
+        )}
+
+        <div className="flex gap-2">
+          <Button size="sm" onClick={handleSave} disabled={saving}>
+            <Save className="h-4 w-4 mr-1" /> Save schedule
+          </Button>
+          {schedule && (
+            <Button variant="outline" size="sm" onClick={handleClear} disabled={saving}>
+              <Trash2 className="h-4 w-4 mr-1" /> Clear
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
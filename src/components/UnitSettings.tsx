@@ -0,0 +1,117 @@
+import { useEffect, useState } from "react";
+import { Save } from "lucide-react";
+import { useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/components/ui/use-toast";
+import { HeightInput } from "@/components/HeightInput";
+import { profileService } from "@/api/services/profile.service";
+import { UNIT_PREFERENCES_QUERY_KEY } from "@/hooks/useUnits";
+import { HeightUnit, WeightUnit } from "@/types/workout";
+import {
+  DEFAULT_HEIGHT_UNIT,
+  DEFAULT_WEIGHT_UNIT,
+  HEIGHT_UNIT_LABELS,
+  WEIGHT_UNIT_LABELS,
+  parseHeightUnit,
+  parseWeightUnit,
+} from "@/lib/units";
+
+export function UnitSettings() {
+  const [weightUnit, setWeightUnit] = useState<WeightUnit>(DEFAULT_WEIGHT_UNIT);
+  const [heightUnit, setHeightUnit] = useState<HeightUnit>(DEFAULT_HEIGHT_UNIT);
+  const [height, setHeight] = useState<number | null>(null);
+  const [loading, setLoading] = useState(false);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    const fetchUnits = async () => {
+      try {
+        const profile = await profileService.getProfile();
+        if (profile) {
+          setWeightUnit(parseWeightUnit(profile.weight_unit));
+          setHeightUnit(parseHeightUnit(profile.height_unit));
+          setHeight(profile.height);
+        }
+      } catch (error) {
+        console.error("Error fetching unit preferences:", error);
+      }
+    };
+
+    fetchUnits();
+  }, []);
+
+  const handleSave = async () => {
+    try {
+      setLoading(true);
+      await profileService.updateProfile({ weight_unit: weightUnit, height_unit: heightUnit, height });
+      await queryClient.invalidateQueries({ queryKey: UNIT_PREFERENCES_QUERY_KEY });
+
+      toast({
+        title: "Settings updated",
+        description: "Your units and height have been saved.",
+      });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error updating settings",
+        description: (error as Error).message,
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Units</CardTitle>
+        <CardDescription>
+          Weights and heights are shown and entered in these units everywhere, including exports.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center gap-3">
+          <Label htmlFor="weight-unit" className="flex-grow font-medium">Weight</Label>
+          <Select value={weightUnit} onValueChange={(value) => setWeightUnit(value as WeightUnit)} disabled={loading}>
+            <SelectTrigger id="weight-unit" className="w-[200px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(WEIGHT_UNIT_LABELS) as WeightUnit[]).map((unit) => (
+                <SelectItem key={unit} value={unit}>{WEIGHT_UNIT_LABELS[unit]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="flex items-center gap-3">
+          <Label htmlFor="height-unit" className="flex-grow font-medium">Height</Label>
+          <Select value={heightUnit} onValueChange={(value) => setHeightUnit(value as HeightUnit)} disabled={loading}>
+            <SelectTrigger id="height-unit" className="w-[200px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(HEIGHT_UNIT_LABELS) as HeightUnit[]).map((unit) => (
+                <SelectItem key={unit} value={unit}>{HEIGHT_UNIT_LABELS[unit]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="profile-height" className="font-medium">Your height</Label>
+          <HeightInput id="profile-height" value={height} unit={heightUnit} onChange={setHeight} disabled={loading} />
+          <p className="text-sm text-gray-500">Used to calculate your BMI in the weight tracker.</p>
+        </div>
+
+        <Button size="sm" onClick={handleSave} disabled={loading}>
+          <Save className="h-4 w-4 mr-1" /> Save
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -11,15 +11,18 @@ import { format, parseISO, subMonths } from "date-fns";
 import { WeightRecord } from "@/types/workout";
 import { Trash2, Lock, CreditCard } from "lucide-react";
 import { Link } from "react-router-dom";
+import { useUnits } from "@/hooks/useUnits";
 
 export const WeightTracker = () => {
   const [weightRecords, setWeightRecords] = useState<WeightRecord[]>([]);
-  const [newWeight, setNewWeight] = useState<string>("");
+  // Kept in kg and converted to the user's unit in the input
+  const [newWeight, setNewWeight] = useState<number | null>(null);
   const [height, setHeight] = useState<string>("");
   const [bmi, setBmi] = useState<number | null>(null);
   const [loading, setLoading] = useState(true);
   const [isPro, setIsPro] = useState(false);
   const { toast } = useToast();
+  const { weightUnit, toDisplayWeight, fromDisplayWeight, formatWeight, formatHeight } = useUnits();
 
   useEffect(() => {
     checkProStatus();
@@ -70,7 +73,7 @@ export const WeightTracker = () => {
       
       if (data && data.length > 0) {
         const latestRecord = data[data.length - 1];
-        setNewWeight(latestRecord.weight.toString());
+        setNewWeight(latestRecord.weight);
         
         if (height) {
           calculateBMI(latestRecord.weight, parseFloat(height));
@@ -104,7 +107,7 @@ export const WeightTracker = () => {
           const latestWeight = weightRecords[weightRecords.length - 1].weight;
           calculateBMI(latestWeight, data.height);
         } else if (newWeight) {
-          calculateBMI(parseFloat(newWeight), data.height);
+          calculateBMI(newWeight, data.height);
         }
       }
     } catch (error: any) {
@@ -141,7 +144,7 @@ export const WeightTracker = () => {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) throw new Error("User not authenticated");
 
-      const weight = parseFloat(newWeight);
+      const weight = newWeight;
       const today = new Date().toISOString().split('T')[0];
 
       const { error: recordError } = await supabase
@@ -229,7 +232,7 @@ export const WeightTracker = () => {
 
   const chartData = weightRecords.map(record => ({
     date: record.date,
-    weight: record.weight,
+    weight: toDisplayWeight(record.weight),
   }));
 
   const getBmiThresholdWeight = (bmiThreshold: number): number | null => {
@@ -243,7 +246,7 @@ export const WeightTracker = () => {
 
   const latestWeight = weightRecords.length > 0 ? 
     weightRecords[weightRecords.length - 1].weight : 
-    (newWeight ? parseFloat(newWeight) : null);
+    newWeight;
 
   useEffect(() => {
     if (latestWeight && height) {
@@ -289,18 +292,19 @@ export const WeightTracker = () => {
           <div className="space-y-4">
             <div className="grid grid-cols-1 gap-4">
               <div className="space-y-2">
-                <Label htmlFor="weight">Current Weight (kg)</Label>
+                <Label htmlFor="weight">Current Weight ({weightUnit})</Label>
                 <div className="flex space-x-2">
                   <Input
                     id="weight"
                     type="number"
-                    placeholder="Enter weight in kg"
-                    value={newWeight}
-                    onChange={(e) => setNewWeight(e.target.value)}
+                    placeholder={`Enter weight in ${weightUnit}`}
+                    value={toDisplayWeight(newWeight) ?? ""}
+                    onChange={(e) => setNewWeight(e.target.value === "" ? null : fromDisplayWeight(Number(e.target.value)))}
                   />
                   <Button onClick={handleAddWeight}>Save</Button>
                 </div>
                 <p className="text-sm text-muted-foreground">
+                  {height ? `Height: ${formatHeight(parseFloat(height))}. ` : ""}
                   Your height can be updated in the settings page
                 </p>
               </div>
@@ -346,7 +350,7 @@ export const WeightTracker = () => {
                   <YAxis domain={['dataMin - 5', 'dataMax + 5']} />
                   <Tooltip 
                     labelFormatter={(date) => format(parseISO(date as string), 'MMM d, yyyy')}
-                    formatter={(value) => [`${value} kg`, 'Weight']}
+                    formatter={(value) => [`${value} ${weightUnit}`, 'Weight']}
                   />
                   <Legend />
                   <Line 
@@ -360,7 +364,7 @@ export const WeightTracker = () => {
                     <>
                       {underweightThreshold && (
                         <ReferenceLine 
-                          y={underweightThreshold} 
+                          y={toDisplayWeight(underweightThreshold)} 
                           stroke="#3b82f6" 
                           strokeDasharray="3 3" 
                           label={{ value: "Underweight", position: "insideTopLeft", fill: "#3b82f6" }} 
@@ -368,7 +372,7 @@ export const WeightTracker = () => {
                       )}
                       {overweightThreshold && (
                         <ReferenceLine 
-                          y={overweightThreshold} 
+                          y={toDisplayWeight(overweightThreshold)} 
                           stroke="#f59e0b" 
                           strokeDasharray="3 3" 
                           label={{ value: "Overweight", position: "insideTopLeft", fill: "#f59e0b" }} 
@@ -386,9 +390,9 @@ export const WeightTracker = () => {
                   {height && (
                     <p className="mt-4 text-sm">
                       <span className="block font-medium">BMI Reference:</span>
-                      {underweightThreshold && <span className="block text-blue-500">Underweight: Below {underweightThreshold} kg</span>}
-                      {underweightThreshold && overweightThreshold && <span className="block text-green-600">Normal: {underweightThreshold}-{overweightThreshold} kg</span>}
-                      {overweightThreshold && <span className="block text-amber-500">Overweight: Above {overweightThreshold} kg</span>}
+                      {underweightThreshold && <span className="block text-blue-500">Underweight: Below {formatWeight(underweightThreshold)}</span>}
+                      {underweightThreshold && overweightThreshold && <span className="block text-green-600">Normal: {toDisplayWeight(underweightThreshold)}-{formatWeight(overweightThreshold)}</span>}
+                      {overweightThreshold && <span className="block text-amber-500">Overweight: Above {formatWeight(overweightThreshold)}</span>}
                     </p>
                   )}
                 </div>
@@ -405,7 +409,7 @@ export const WeightTracker = () => {
                 <thead>
                   <tr className="text-left">
                     <th className="pb-2">Date</th>
-                    <th className="pb-2">Weight (kg)</th>
+                    <th className="pb-2">Weight ({weightUnit})</th>
                     <th className="pb-2">Actions</th>
                   </tr>
                 </thead>
@@ -413,7 +417,7 @@ export const WeightTracker = () => {
                   {[...weightRecords].reverse().map((record) => (
                     <tr key={record.id} className="border-t">
                       <td className="py-2">{format(parseISO(record.date), 'PP')}</td>
-                      <td className="py-2">{record.weight} kg</td>
+                      <td className="py-2">{formatWeight(record.weight)}</td>
                       <td className="py-2">
                         <Button 
                           variant="ghost" 
@@ -0,0 +1,166 @@
+import { useEffect, useState } from "react";
+import { Save, Volume2 } from "lucide-react";
+import { useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/components/ui/use-toast";
+import { profileService } from "@/api/services/profile.service";
+import { CUE_PREFERENCES_QUERY_KEY } from "@/hooks/useWorkoutCues";
+import { CuePreferences } from "@/types/workout";
+import {
+  BEEP_SECOND_OPTIONS,
+  DEFAULT_CUE_PREFERENCES,
+  describeNextSet,
+  parseCuePreferences,
+  playBeep,
+  speak,
+  unlockAudio,
+  vibrate,
+} from "@/lib/workout-cues";
+
+export function WorkoutCueSettings() {
+  const [preferences, setPreferences] = useState<CuePreferences>(DEFAULT_CUE_PREFERENCES);
+  const [loading, setLoading] = useState(false);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    const fetchPreferences = async () => {
+      try {
+        const profile = await profileService.getProfile();
+        if (profile) {
+          setPreferences(parseCuePreferences(profile.workout_cues));
+        }
+      } catch (error) {
+        console.error("Error fetching workout cue preferences:", error);
+      }
+    };
+
+    fetchPreferences();
+  }, []);
+
+  const update = (changes: Partial<CuePreferences>) => {
+    setPreferences(current => ({ ...current, ...changes }));
+  };
+
+  const toggleBeepSecond = (second: number, checked: boolean) => {
+    update({
+      beep_seconds: checked
+        ? [...preferences.beep_seconds, second].sort((a, b) => b - a)
+        : preferences.beep_seconds.filter(value => value !== second),
+    });
+  };
+
+  // Plays the cues as they are set up now, so they can be tried before saving
+  const handleTest = () => {
+    if (preferences.beeps) {
+      unlockAudio();
+      playBeep();
+    }
+    if (preferences.vibration) vibrate(100);
+    if (preferences.voice) {
+      speak(describeNextSet({ name: "Bench Press", setLabel: "Set", setNumber: 2, target: "8 reps", weight: "" }));
+    }
+  };
+
+  const handleSave = async () => {
+    try {
+      setLoading(true);
+      await profileService.updateProfile({ workout_cues: preferences });
+      await queryClient.invalidateQueries({ queryKey: CUE_PREFERENCES_QUERY_KEY });
+
+      toast({
+        title: "Settings updated",
+        description: "Your workout cues have been saved.",
+      });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error updating settings",
+        description: (error as Error).message,
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Workout Cues</CardTitle>
+        <CardDescription>
+          Sounds, voice and vibration during rests, intervals and timed sets, so you don't have to watch the screen.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between">
+          <div className="space-y-0.5">
+            <Label htmlFor="cue-beeps" className="font-medium">Countdown beeps</Label>
+            <p className="text-sm text-gray-500">Beep in the last seconds and when the timer runs out</p>
+          </div>
+          <Switch
+            id="cue-beeps"
+            checked={preferences.beeps}
+            onCheckedChange={(checked) => update({ beeps: checked })}
+            disabled={loading}
+          />
+        </div>
+
+        {preferences.beeps && (
+          <div className="flex flex-wrap items-center gap-4">
+            <span className="text-sm text-gray-500">Beep at</span>
+            {BEEP_SECOND_OPTIONS.map((second) => (
+              <div key={second} className="flex items-center gap-1.5">
+                <Checkbox
+                  id={`cue-beep-${second}`}
+                  checked={preferences.beep_seconds.includes(second)}
+                  onCheckedChange={(checked) => toggleBeepSecond(second, checked === true)}
+                  disabled={loading}
+                />
+                <Label htmlFor={`cue-beep-${second}`} className="text-sm">{second}s</Label>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex items-center justify-between">
+          <div className="space-y-0.5">
+            <Label htmlFor="cue-voice" className="font-medium">Voice announcements</Label>
+            <p className="text-sm text-gray-500">Read out the next exercise, set, reps and weight when a rest starts</p>
+          </div>
+          <Switch
+            id="cue-voice"
+            checked={preferences.voice}
+            onCheckedChange={(checked) => update({ voice: checked })}
+            disabled={loading}
+          />
+        </div>
+
+        <div className="flex items-center justify-between">
+          <div className="space-y-0.5">
+            <Label htmlFor="cue-vibration" className="font-medium">Vibration</Label>
+            <p className="text-sm text-gray-500">Vibrate along with the beeps on devices that support it</p>
+          </div>
+          <Switch
+            id="cue-vibration"
+            checked={preferences.vibration}
+            onCheckedChange={(checked) => update({ vibration: checked })}
+            disabled={loading}
+          />
+        </div>
+
+        <div className="flex gap-2">
+          <Button size="sm" onClick={handleSave} disabled={loading}>
+            <Save className="h-4 w-4 mr-1" /> Save
+          </Button>
+          <Button size="sm" variant="outline" onClick={handleTest}>
+            <Volume2 className="h-4 w-4 mr-1" /> Test
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -15,6 +15,8 @@ export function WorkoutExport() {
   const {
     includeNotes,
     setIncludeNotes,
+    includeSets,
+    setIncludeSets,
     dateRange,
     setDateRange,
     exportType,
@@ -105,6 +107,15 @@ export function WorkoutExport() {
           <Label htmlFor="include-notes">Include workout notes</Label>
         </div>
         
+        <div className="flex items-center space-x-2 pb-2">
+          <Checkbox 
+            id="include-sets" 
+            checked={includeSets} 
+            onCheckedChange={(checked) => setIncludeSets(checked === true)}
+          />
+          <Label htmlFor="include-sets">Export individual sets (reps, weight, time and distance)</Label>
+        </div>
+        
         <Button 
           onClick={handleExport} 
           disabled={isLoading} 
@@ -0,0 +1,249 @@
+import { useState } from "react";
+import { RefreshCw, Wand2 } from "lucide-react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Slider } from "@/components/ui/slider";
+import { useToast } from "@/components/ui/use-toast";
+import { equipmentService } from "@/api/services/equipment.service";
+import { exerciseService } from "@/api/services/exercise.service";
+import { muscleService } from "@/api/services/muscle.service";
+import { workoutService } from "@/api/services/workout.service";
+import { WorkoutGoal } from "@/types/workout";
+import { getMuscleDisplayName } from "@/lib/muscle-utils";
+import { formatSetTarget } from "@/lib/tracking-utils";
+import { GOAL_LABELS, GeneratedExercise, generateWorkout } from "@/lib/workout-generator";
+
+interface WorkoutGeneratorDialogProps {
+  // Called with the new routine so it can be opened for editing
+  onCreated: (workoutId: string) => void;
+}
+
+export function WorkoutGeneratorDialog({ onCreated }: WorkoutGeneratorDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [goal, setGoal] = useState<WorkoutGoal>("hypertrophy");
+  const [minutes, setMinutes] = useState(45);
+  const [muscleIds, setMuscleIds] = useState<number[]>([]);
+  const [equipmentIds, setEquipmentIds] = useState<number[] | null>(null);
+  const [generated, setGenerated] = useState<GeneratedExercise[] | null>(null);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: muscles = [] } = useQuery({
+    queryKey: ["muscles"],
+    queryFn: () => muscleService.getMuscles(),
+    enabled: open,
+  });
+
+  const { data: equipment = [] } = useQuery({
+    queryKey: ["equipment"],
+    queryFn: () => exerciseService.getEquipment(),
+    enabled: open,
+  });
+
+  const { data: profiles = [] } = useQuery({
+    queryKey: ["equipmentProfiles"],
+    queryFn: () => equipmentService.getProfiles(),
+    enabled: open,
+  });
+
+  const { data: candidates = [], isLoading: candidatesLoading } = useQuery({
+    queryKey: ["generatorCandidates"],
+    queryFn: () => exerciseService.getGeneratorCandidates(),
+    enabled: open,
+  });
+
+  // Until the user narrows it down, assume all equipment is available
+  const selectedEquipment = equipmentIds ?? equipment.map(item => item.id);
+  const muscleNames = new Map(muscles.map(muscle => [muscle.id, getMuscleDisplayName(muscle)]));
+
+  const toggle = (list: number[], id: number) =>
+    list.includes(id) ? list.filter(item => item !== id) : [...list, id];
+
+  const handleGenerate = () => {
+    if (muscleIds.length === 0) {
+      toast({
+        variant: "destructive",
+        title: "Pick muscles",
+        description: "Choose at least one muscle to train.",
+      });
+      return;
+    }
+
+    const exercises = generateWorkout({ goal, minutes, muscleIds, equipmentIds: selectedEquipment }, candidates);
+    if (exercises.length === 0) {
+      toast({
+        variant: "destructive",
+        title: "No matching exercises",
+        description: "No exercise trains those muscles with the equipment you have.",
+      });
+    }
+    setGenerated(exercises);
+  };
+
+  const handleCreate = async () => {
+    if (!generated?.length) return;
+
+    try {
+      setSaving(true);
+      const title = `${GOAL_LABELS[goal]}: ${muscleIds.map(id => muscleNames.get(id)).join(", ")}`;
+      const workout = await workoutService.createRoutine(
+        { title, duration: minutes, notes: null },
+        generated.map(({ muscleIds: _muscleIds, ...exercise }) => exercise)
+      );
+
+      queryClient.invalidateQueries({ queryKey: ["routines"] });
+      queryClient.invalidateQueries({ queryKey: ["workoutStats"] });
+
+      toast({
+        title: "Workout generated",
+        description: "Review it and adjust anything before you start.",
+      });
+      setOpen(false);
+      setGenerated(null);
+      onCreated(workout.id);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error creating workout",
+        description: (error as Error).message,
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="w-full sm:w-auto">
+          <Wand2 className="mr-2 h-4 w-4" />
+          Generate
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[650px]">
+        <DialogHeader>
+          <DialogTitle>Generate a Workout</DialogTitle>
+          <DialogDescription>
+            Pick what to train and what you have; sets, reps and rest follow from your goal.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="max-h-[60vh] pr-3">
+          <div className="space-y-5">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Goal</Label>
+                <Select value={goal} onValueChange={(value) => { setGoal(value as WorkoutGoal); setGenerated(null); }}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(GOAL_LABELS) as WorkoutGoal[]).map(value => (
+                      <SelectItem key={value} value={value}>{GOAL_LABELS[value]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Session length: {minutes} min</Label>
+                <Slider
+                  min={15}
+                  max={120}
+                  step={5}
+                  value={[minutes]}
+                  onValueChange={(value) => { setMinutes(value[0]); setGenerated(null); }}
+                  className="pt-3"
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Target muscles</Label>
+              <div className="flex flex-wrap gap-2">
+                {muscles.map(muscle => (
+                  <Badge
+                    key={muscle.id}
+                    variant={muscleIds.includes(muscle.id) ? "default" : "outline"}
+                    className="cursor-pointer"
+                    onClick={() => { setMuscleIds(toggle(muscleIds, muscle.id)); setGenerated(null); }}
+                  >
+                    {getMuscleDisplayName(muscle)}
+                  </Badge>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between gap-2">
+                <Label>Available equipment</Label>
+                {profiles.length > 0 && (
+                  <Select
+                    value=""
+                    onValueChange={(id) => {
+                      setEquipmentIds(profiles.find(profile => profile.id === id)?.equipment_ids ?? null);
+                      setGenerated(null);
+                    }}
+                  >
+                    <SelectTrigger className="h-8 w-44 text-xs">
+                      <SelectValue placeholder="Load a profile" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {profiles.map(profile => (
+                        <SelectItem key={profile.id} value={profile.id}>{profile.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              </div>
+              <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+                {equipment.map(item => (
+                  <div key={item.id} className="flex items-center space-x-2">
+                    <Checkbox
+                      id={`equipment-${item.id}`}
+                      checked={selectedEquipment.includes(item.id)}
+                      onCheckedChange={() => { setEquipmentIds(toggle(selectedEquipment, item.id)); setGenerated(null); }}
+                    />
+                    <Label htmlFor={`equipment-${item.id}`} className="text-sm font-normal">{item.name}</Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {generated && generated.length > 0 && (
+              <div className="space-y-2">
+                <Label>Your workout</Label>
+                {generated.map(exercise => (
+                  <div key={exercise.template_id} className="flex flex-wrap items-center gap-2 text-sm">
+                    <span className="font-medium">{exercise.name}</span>
+                    <span className="text-muted-foreground">
+                      {exercise.sets} × {formatSetTarget(exercise)} · {exercise.rest_time}s rest
+                    </span>
+                    {exercise.muscleIds.map(id => (
+                      <Badge key={id} variant="secondary" className="text-xs">{muscleNames.get(id)}</Badge>
+                    ))}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </ScrollArea>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={handleGenerate} disabled={candidatesLoading || saving}>
+            <RefreshCw className="mr-2 h-4 w-4" /> {generated ? "Regenerate" : "Generate"}
+          </Button>
+          <Button onClick={handleCreate} disabled={!generated?.length || saving}>
+            Create routine
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,85 +1,95 @@
 
-import { useState, useEffect } from "react";
+import { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/components/ui/use-toast";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { format } from "date-fns";
-import { History, FileText } from "lucide-react";
+import { History, FileText, GitCompare, Pencil, Plus, Trash2 } from "lucide-react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Textarea } from "@/components/ui/textarea";
 import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
+import { Checkbox } from "@/components/ui/checkbox";
+import { SessionEditorDialog } from "@/components/SessionEditorDialog";
+import { SessionComparisonDialog } from "@/components/SessionComparisonDialog";
+import { CompletedSession, historyService } from "@/api/services/history.service";
 
-interface CompletedWorkout {
-  id: string;
-  workout_id: string;
-  workout_title: string;
-  duration: number;
-  completed_at: string;
-  notes: string | null;
+interface WorkoutHistoryProps {
+  routines: { id: string; title: string }[];
 }
 
-export function WorkoutHistory() {
-  const [history, setHistory] = useState<CompletedWorkout[]>([]);
-  const [isLoading, setIsLoading] = useState(false);
-  const [selectedWorkout, setSelectedWorkout] = useState<CompletedWorkout | null>(null);
+export function WorkoutHistory({ routines }: WorkoutHistoryProps) {
+  const [selectedWorkout, setSelectedWorkout] = useState<CompletedSession | null>(null);
   const [isNoteDialogOpen, setIsNoteDialogOpen] = useState(false);
   const [editedNote, setEditedNote] = useState("");
+  const [isLoggingSession, setIsLoggingSession] = useState(false);
+  const [editSessionId, setEditSessionId] = useState<string | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [compareIds, setCompareIds] = useState<string[]>([]);
   const { toast } = useToast();
+  const queryClient = useQueryClient();
 
-  useEffect(() => {
-    fetchWorkoutHistory();
-  }, []);
+  const { data: history = [], isLoading } = useQuery({
+    queryKey: ["sessionHistory"],
+    queryFn: () => historyService.getSessions(),
+  });
 
-  const fetchWorkoutHistory = async () => {
-    setIsLoading(true);
-    try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) throw new Error("User not authenticated");
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => prev.includes(id) ? prev.filter(item => item !== id) : [...prev, id]);
+  };
 
-      // Get completed workouts with related workout titles
-      const { data: completedWorkouts, error } = await supabase
-        .from("completed_workouts")
-        .select(`
-          id,
-          workout_id,
-          duration,
-          completed_at,
-          notes,
-          workouts (
-            title
-          )
-        `)
-        .eq("user_id", user.id)
-        .order("completed_at", { ascending: false });
+  // A single session is compared with the one before it of the same routine
+  const handleCompare = () => {
+    if (selectedIds.length !== 1) {
+      setCompareIds(selectedIds);
+      return;
+    }
 
-      if (error) throw error;
+    const session = history.find(item => item.id === selectedIds[0]);
+    const previous = history.find(item =>
+      item.workout_id && item.workout_id === session?.workout_id &&
+      new Date(item.completed_at) < new Date(session.completed_at)
+    );
+    if (!previous) {
+      toast({
+        title: "Nothing to compare with",
+        description: "Select another session, or one of a routine you have done before."
+      });
+      return;
+    }
+    setCompareIds([session.id, previous.id]);
+  };
 
-      // Format the data
-      const formattedHistory = completedWorkouts.map(workout => ({
-        id: workout.id,
-        workout_id: workout.workout_id,
-        workout_title: workout.workouts?.title || "Unknown Workout",
-        duration: workout.duration,
-        completed_at: workout.completed_at,
-        notes: workout.notes
-      }));
-
-      setHistory(formattedHistory);
-    } catch (error: any) {
-      console.error("Error fetching workout history:", error.message);
+  const handleDelete = async (workout: CompletedSession) => {
+    const date = format(new Date(workout.completed_at), 'MMM dd, yyyy');
+    if (!confirm(`Delete ${workout.workout_title} on ${date} and all of its sets?`)) return;
+
+    try {
+      await historyService.deleteSession(workout.id);
+      setSelectedIds(prev => prev.filter(id => id !== workout.id));
+
+      queryClient.invalidateQueries({ queryKey: ["sessionHistory"] });
+      queryClient.invalidateQueries({ queryKey: ["workoutStats"] });
+      queryClient.invalidateQueries({ queryKey: ["calendarSessions"] });
+      queryClient.invalidateQueries({ queryKey: ["muscleLoads"] });
+      queryClient.invalidateQueries({ queryKey: ["loggedExerciseNames"] });
+
+      toast({
+        title: "Session deleted",
+        description: `${workout.workout_title} on ${date} was removed from your history.`
+      });
+    } catch (error) {
       toast({
         variant: "destructive",
-        title: "Error",
-        description: "Failed to load workout history"
+        title: "Error deleting session",
+        description: (error as Error).message
       });
-    } finally {
-      setIsLoading(false);
     }
   };
 
-  const openNoteDialog = (workout: CompletedWorkout) => {
+  const openNoteDialog = (workout: CompletedSession) => {
     setSelectedWorkout(workout);
     setEditedNote(workout.notes || "");
     setIsNoteDialogOpen(true);
@@ -96,12 +106,7 @@ export function WorkoutHistory() {
         
       if (error) throw error;
       
-      // Update local state
-      setHistory(prev => prev.map(workout => 
-        workout.id === selectedWorkout.id 
-          ? { ...workout, notes: editedNote } 
-          : workout
-      ));
+      queryClient.invalidateQueries({ queryKey: ["sessionHistory"] });
       
       setIsNoteDialogOpen(false);
       toast({
@@ -121,11 +126,21 @@ export function WorkoutHistory() {
   return (
     <>
       <Card className="w-full">
-        <CardHeader>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
           <CardTitle className="flex items-center">
             <History className="mr-2 h-5 w-5" />
             Workout History
           </CardTitle>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={handleCompare} disabled={selectedIds.length === 0}>
+              <GitCompare className="mr-2 h-4 w-4" />
+              Compare{selectedIds.length > 0 && ` (${selectedIds.length})`}
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setIsLoggingSession(true)}>
+              <Plus className="mr-2 h-4 w-4" />
+              Log Past Session
+            </Button>
+          </div>
         </CardHeader>
         <CardContent>
           {isLoading ? (
@@ -137,22 +152,31 @@ export function WorkoutHistory() {
           ) : history.length === 0 ? (
             <div className="py-8 text-center text-muted-foreground">
               No workout history available.
-              <p className="mt-2 text-sm">Complete workouts to see your history here.</p>
+              <p className="mt-2 text-sm">Complete workouts, or log past ones, to see your history here.</p>
             </div>
           ) : (
             <div className="rounded-md border">
               <Table>
                 <TableHeader>
                   <TableRow>
+                    <TableHead className="w-[40px]" />
                     <TableHead>Date</TableHead>
                     <TableHead>Workout</TableHead>
                     <TableHead>Duration (min)</TableHead>
                     <TableHead>Notes</TableHead>
+                    <TableHead className="w-[100px]" />
                   </TableRow>
                 </TableHeader>
                 <TableBody>
                   {history.map((workout) => (
                     <TableRow key={workout.id}>
+                      <TableCell>
+                        <Checkbox
+                          aria-label="Select for comparison"
+                          checked={selectedIds.includes(workout.id)}
+                          onCheckedChange={() => toggleSelected(workout.id)}
+                        />
+                      </TableCell>
                       <TableCell>
                         {format(new Date(workout.completed_at), 'MMM dd, yyyy')}
                       </TableCell>
@@ -169,6 +193,16 @@ export function WorkoutHistory() {
                           {workout.notes ? "View/Edit Notes" : "Add Notes"}
                         </Button>
                       </TableCell>
+                      <TableCell>
+                        <div className="flex justify-end">
+                          <Button variant="ghost" size="icon" onClick={() => setEditSessionId(workout.id)}>
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button variant="ghost" size="icon" onClick={() => handleDelete(workout)}>
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
                     </TableRow>
                   ))}
                 </TableBody>
@@ -199,6 +233,20 @@ export function WorkoutHistory() {
           </div>
         </DialogContent>
       </Dialog>
+
+      <SessionEditorDialog
+        open={isLoggingSession || !!editSessionId}
+        onOpenChange={(open) => {
+          if (!open) {
+            setIsLoggingSession(false);
+            setEditSessionId(null);
+          }
+        }}
+        sessionId={editSessionId}
+        routines={routines}
+      />
+
+      <SessionComparisonDialog sessionIds={compareIds} onSessionIdsChange={setCompareIds} history={history} />
     </>
   );
 }
@@ -1,19 +1,24 @@
 
-import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { useWorkoutPlayer } from "@/hooks/useWorkoutPlayer";
+import { useWorkoutCues } from "@/hooks/useWorkoutCues";
 import { ExerciseView } from "./workout-player/ExerciseView";
 import { RestTimer } from "./workout-player/RestTimer";
 import { WorkoutComplete } from "./workout-player/WorkoutComplete";
+import { NextExercisePicker } from "./workout-player/NextExercisePicker";
 import { useIsMobile } from "@/hooks/use-mobile";
+import { describeProgramWeek } from "@/lib/program-utils";
 
 interface WorkoutPlayerProps {
   workoutId: string | null;
   onClose: () => void;
+  resume?: boolean;
 }
 
-export const WorkoutPlayer = ({ workoutId, onClose }: WorkoutPlayerProps) => {
-  const playerState = useWorkoutPlayer(workoutId, onClose);
-  const { loading, completed, isResting } = playerState;
+export const WorkoutPlayer = ({ workoutId, onClose, resume = false }: WorkoutPlayerProps) => {
+  const playerState = useWorkoutPlayer(workoutId, onClose, resume);
+  useWorkoutCues(playerState);
+  const { loading, completed, isResting, isIntervalActive, programSession, currentExercise } = playerState;
   const isMobile = useIsMobile();
 
   return (
@@ -23,6 +28,12 @@ export const WorkoutPlayer = ({ workoutId, onClose }: WorkoutPlayerProps) => {
           <DialogTitle className="text-center sm:text-left text-base sm:text-xl">
             {playerState.workout?.title || "Workout"}
           </DialogTitle>
+          {programSession && (
+            <DialogDescription className="text-center sm:text-left text-xs sm:text-sm">
+              {programSession.program.name} · Week {programSession.position.week + 1}, day {programSession.position.day + 1}
+              {" · "}{describeProgramWeek(programSession.position.weekPlan)}
+            </DialogDescription>
+          )}
         </DialogHeader>
         
         {loading ? (
@@ -32,8 +43,10 @@ export const WorkoutPlayer = ({ workoutId, onClose }: WorkoutPlayerProps) => {
           </div>
         ) : completed ? (
           <WorkoutComplete playerState={playerState} />
-        ) : isResting ? (
+        ) : isResting || isIntervalActive ? (
           <RestTimer playerState={playerState} />
+        ) : !currentExercise ? (
+          <NextExercisePicker playerState={playerState} onClose={onClose} />
         ) : (
           <ExerciseView playerState={playerState} onClose={onClose} />
         )}
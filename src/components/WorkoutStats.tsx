@@ -1,14 +1,16 @@
 
 import { Card } from "@/components/ui/card";
-import { Activity, Timer, Flame, Calendar, Lock, CreditCard } from "lucide-react";
+import { Activity, Timer, Flame, Calendar, Lock, CreditCard, Dumbbell } from "lucide-react";
 import { useQuery } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { Progress } from "@/components/ui/progress";
 import { startOfWeek } from "date-fns";
 import { calculateCurrentStreak, calculateWeeklyStreak } from "@/lib/export-utils";
+import { calculateVolume, isWorkingSet } from "@/lib/set-types";
 import { Button } from "@/components/ui/button";
 import { Link } from "react-router-dom";
 import { useAuth } from "@/components/AuthProvider";
+import { useUnits } from "@/hooks/useUnits";
 import { useEffect } from "react";
 
 type CompletedWorkout = {
@@ -20,6 +22,7 @@ type CompletedWorkout = {
 
 export function WorkoutStats() {
   const { isProSubscriber } = useAuth();
+  const { weightUnit, toDisplayWeight } = useUnits();
   
   // Log Pro status for debugging
   useEffect(() => {
@@ -62,6 +65,15 @@ export function WorkoutStats() {
 
       if (allCompletedError) throw allCompletedError;
 
+      // Get sets logged this week for volume, which leaves out warm-ups
+      const { data: weeklySets, error: weeklySetsError } = await supabase
+        .from("set_logs")
+        .select("reps, weight, set_type")
+        .eq("user_id", user.id)
+        .gte("completed_at", startOfWeekISO);
+
+      if (weeklySetsError) throw weeklySetsError;
+
       const totalWorkouts = completedWorkouts?.length || 0;
       // Calculate total hours from minutes and round to whole number
       const totalHours = completedWorkouts ? 
@@ -77,7 +89,9 @@ export function WorkoutStats() {
         workoutGoal: profile?.workout_goal || 5,
         hourGoal: profile?.hour_goal || 10,
         currentStreak,
-        weeklyStreak
+        weeklyStreak,
+        weeklyVolume: Math.round(calculateVolume(weeklySets || [])),
+        workingSets: (weeklySets || []).filter(isWorkingSet).length
       };
     },
     enabled: true, // Always fetch data regardless of Pro status
@@ -164,6 +178,22 @@ export function WorkoutStats() {
         </div>
       </Card>
 
+      {/* Weekly Volume Card */}
+      <Card className="p-6 w-full md:col-span-2">
+        <div className="flex items-center gap-4">
+          <div className="p-3 bg-green-100 rounded-full">
+            <Dumbbell className="w-6 h-6 text-green-500" />
+          </div>
+          <div className="flex-1">
+            <p className="text-sm text-gray-500">Volume This Week</p>
+            <h4 className="text-2xl font-semibold">{Math.round(toDisplayWeight(userStats?.weeklyVolume ?? 0)).toLocaleString()} {weightUnit}</h4>
+            <p className="text-xs text-gray-500 mt-1">
+              Across {userStats?.workingSets ?? 0} working sets (warm-ups not counted)
+            </p>
+          </div>
+        </div>
+      </Card>
+
       {/* Daily Streak Card */}
       <Card className="p-6 w-full">
         <div className="flex items-center gap-4">
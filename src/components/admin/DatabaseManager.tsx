@@ -30,15 +30,57 @@ import {
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import type { Database as DatabaseTypes } from "@/integrations/supabase/types";
 import { PostgrestError } from "@supabase/supabase-js";
+import { ExerciseMuscleEditor } from "@/components/admin/ExerciseMuscleEditor";
+import { parseMuscleGroups } from "@/lib/muscle-utils";
 
-type AllowedTable = "exercise_templates" | "food_logs" | "workouts" | "profiles";
+type AllowedTable = "exercise_templates" | "muscles" | "food_logs" | "workouts" | "profiles";
 
 type ExerciseTemplate = DatabaseTypes["public"]["Tables"]["exercise_templates"]["Insert"];
 type FoodLog = DatabaseTypes["public"]["Tables"]["food_logs"]["Insert"];
 type Workout = DatabaseTypes["public"]["Tables"]["workouts"]["Insert"];
 type Profile = DatabaseTypes["public"]["Tables"]["profiles"]["Insert"];
+type Muscle = DatabaseTypes["public"]["Tables"]["muscles"]["Insert"];
 
-type TableRow = ExerciseTemplate | FoodLog | Workout | Profile;
+type TableRow = ExerciseTemplate | FoodLog | Workout | Profile | Muscle;
+
+// Arrays and objects don't fit a text input, so they are shown as text
+const formatCell = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+  if (Array.isArray(value)) return value.join(', ');
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+// Muscle forms hold display names as JSON and groups as a comma-separated list
+const toMuscleForm = (item: Record<string, unknown>): Record<string, unknown> => ({
+  ...item,
+  display_names: formatCell(item.display_names),
+  muscle_groups: formatCell(item.muscle_groups),
+});
+
+const fromMuscleForm = (data: Record<string, unknown>): Partial<Muscle> => {
+  const displayNamesText = String(data.display_names ?? '').trim();
+  let displayNames: unknown = {};
+  if (displayNamesText) {
+    try {
+      displayNames = JSON.parse(displayNamesText);
+    } catch {
+      throw new Error('display_names must be JSON, e.g. {"en": "Biceps", "de": "Bizeps"}');
+    }
+  }
+  if (!displayNames || typeof displayNames !== 'object' || Array.isArray(displayNames)) {
+    throw new Error('display_names must be a JSON object');
+  }
+
+  return {
+    name: String(data.name ?? ''),
+    latin_name: data.latin_name ? String(data.latin_name) : null,
+    display_names: displayNames as Muscle["display_names"],
+    muscle_groups: parseMuscleGroups(
+      String(data.muscle_groups || '').split(',').map(group => group.trim().toLowerCase())
+    ),
+  };
+};
 
 interface DatabaseManagerProps {
   isAdmin: boolean;
@@ -56,7 +98,7 @@ const DatabaseManager = ({ isAdmin }: DatabaseManagerProps) => {
   const { data: tables } = useQuery({
     queryKey: ["adminTables"],
     queryFn: async () => {
-      return ["exercise_templates", "food_logs", "workouts", "profiles"] as AllowedTable[];
+      return ["exercise_templates", "muscles", "food_logs", "workouts", "profiles"] as AllowedTable[];
     },
     enabled: isAdmin,
   });
@@ -80,7 +122,9 @@ const DatabaseManager = ({ isAdmin }: DatabaseManagerProps) => {
     queryFn: async () => {
       switch (selectedTable) {
         case "exercise_templates":
-          return ["id", "name", "description", "target_muscle", "media_url", "created_at"];
+          return ["id", "name", "description", "target_muscle", "media_url", "tracking_type", "created_at"];
+        case "muscles":
+          return ["id", "name", "latin_name", "display_names", "muscle_groups"];
         case "food_logs":
           return ["id", "user_id", "name", "calories", "protein", "carbs", "fat", "date", "created_at"];
         case "workouts":
@@ -95,7 +139,7 @@ const DatabaseManager = ({ isAdmin }: DatabaseManagerProps) => {
   });
 
   const deleteItemMutation = useMutation({
-    mutationFn: async (id: string) => {
+    mutationFn: async (id: string | number) => {
       const { error } = await supabase
         .from(selectedTable)
         .delete()
@@ -130,6 +174,15 @@ const DatabaseManager = ({ isAdmin }: DatabaseManagerProps) => {
     return data;
   };
   
+  const updateMuscle = async (data: Record<string, unknown>) => {
+    const { error } = await supabase
+      .from("muscles")
+      .update(fromMuscleForm(data))
+      .eq("id", Number(data.id));
+    if (error) throw error;
+    return data;
+  };
+  
   const updateFoodLog = async (data: Partial<FoodLog> & { id: string }) => {
     const { id, ...updateData } = data;
     const { error } = await supabase
@@ -168,6 +221,8 @@ const DatabaseManager = ({ isAdmin }: DatabaseManagerProps) => {
       switch (selectedTable) {
         case "exercise_templates":
           return updateExerciseTemplate(data as Partial<ExerciseTemplate> & { id: string });
+        case "muscles":
+          return updateMuscle(data);
         case "food_logs":
           return updateFoodLog(data as Partial<FoodLog> & { id: string });
         case "workouts":
@@ -180,6 +235,9 @@ const DatabaseManager = ({ isAdmin }: DatabaseManagerProps) => {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["tableData", selectedTable] });
+      if (selectedTable === "muscles") {
+        queryClient.invalidateQueries({ queryKey: ["muscles"] });
+      }
       setIsEditDialogOpen(false);
       toast({
         title: "Item updated",
@@ -201,6 +259,7 @@ const DatabaseManager = ({ isAdmin }: DatabaseManagerProps) => {
       description: data.description || "Description",
       target_muscle: data.target_muscle || "General",
       media_url: data.media_url || "https://placehold.co/400",
+      tracking_type: data.tracking_type || "reps",
     };
     
     const { error } = await supabase
@@ -210,6 +269,19 @@ const DatabaseManager = ({ isAdmin }: DatabaseManagerProps) => {
     return newData;
   };
   
+  const createMuscle = async (data: Record<string, unknown>) => {
+    const newData: Muscle = {
+      ...fromMuscleForm(data),
+      name: String(data.name || "New Muscle"),
+    };
+    
+    const { error } = await supabase
+      .from("muscles")
+      .insert(newData);
+    if (error) throw error;
+    return newData;
+  };
+  
   const createFoodLog = async (data: Partial<FoodLog>) => {
     const { data: { user } } = await supabase.auth.getUser();
     if (!user) throw new Error("User not authenticated");
@@ -262,6 +334,8 @@ const DatabaseManager = ({ isAdmin }: DatabaseManagerProps) => {
       switch (selectedTable) {
         case "exercise_templates":
           return createExerciseTemplate(data as Partial<ExerciseTemplate>);
+        case "muscles":
+          return createMuscle(data);
         case "food_logs":
           return createFoodLog(data as Partial<FoodLog>);
         case "workouts":
@@ -272,6 +346,9 @@ const DatabaseManager = ({ isAdmin }: DatabaseManagerProps) => {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["tableData", selectedTable] });
+      if (selectedTable === "muscles") {
+        queryClient.invalidateQueries({ queryKey: ["muscles"] });
+      }
       setIsEditDialogOpen(false);
       toast({
         title: "Item created",
@@ -289,7 +366,7 @@ const DatabaseManager = ({ isAdmin }: DatabaseManagerProps) => {
 
   const handleEditClick = (item: any) => {
     setCurrentItem(item);
-    setEditFormData(item);
+    setEditFormData(selectedTable === "muscles" ? toMuscleForm(item) : item);
     setIsEditDialogOpen(true);
   };
 
@@ -378,7 +455,7 @@ const DatabaseManager = ({ isAdmin }: DatabaseManagerProps) => {
                       <TableRow key={item.id}>
                         {tableColumns?.map(column => (
                           <TableCell key={`${item.id}-${column}`} className="max-w-[200px] truncate">
-                            {String(item[column] ?? '')}
+                            {formatCell(item[column])}
                           </TableCell>
                         ))}
                         <TableCell>
@@ -441,6 +518,9 @@ const DatabaseManager = ({ isAdmin }: DatabaseManagerProps) => {
                   </div>
                 );
               })}
+              {selectedTable === "exercise_templates" && currentItem && (
+                <ExerciseMuscleEditor templateId={currentItem.id} />
+              )}
             </div>
             <DialogFooter>
               <Button type="button" variant="outline" onClick={() => setIsEditDialogOpen(false)}>
@@ -0,0 +1,110 @@
+import { useEffect, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/components/ui/use-toast";
+import { muscleService } from "@/api/services/muscle.service";
+import { MuscleRole } from "@/types/workout";
+import { MUSCLE_ROLE_LABELS, getMuscleDisplayName } from "@/lib/muscle-utils";
+
+const NOT_TRAINED = "none";
+
+interface ExerciseMuscleEditorProps {
+  templateId: string;
+}
+
+export function ExerciseMuscleEditor({ templateId }: ExerciseMuscleEditorProps) {
+  const [roles, setRoles] = useState<Record<number, MuscleRole>>({});
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: muscles = [] } = useQuery({
+    queryKey: ["muscles"],
+    queryFn: () => muscleService.getMuscles(),
+  });
+
+  const { data: links } = useQuery({
+    queryKey: ["templateMuscles", templateId],
+    queryFn: () => muscleService.getTemplateMuscles(templateId),
+  });
+
+  useEffect(() => {
+    if (links) {
+      setRoles(Object.fromEntries(links.map(link => [link.muscle_id, link.role])));
+    }
+  }, [links]);
+
+  const handleRoleChange = (muscleId: number, value: string) => {
+    setRoles(prev => {
+      const { [muscleId]: _removed, ...rest } = prev;
+      return value === NOT_TRAINED ? rest : { ...rest, [muscleId]: value as MuscleRole };
+    });
+  };
+
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+      await muscleService.setTemplateMuscles(
+        templateId,
+        Object.entries(roles).map(([muscleId, role]) => ({ muscle_id: Number(muscleId), role }))
+      );
+      queryClient.invalidateQueries({ queryKey: ["templateMuscles", templateId] });
+      queryClient.invalidateQueries({ queryKey: ["generatorCandidates"] });
+      queryClient.invalidateQueries({ queryKey: ["muscleLoads"] });
+      toast({
+        title: "Muscles updated",
+        description: "The exercise's muscles were saved.",
+      });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error saving muscles",
+        description: (error as Error).message,
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2 border-t pt-4">
+      <div className="flex items-center justify-between">
+        <Label>Muscles trained</Label>
+        <Button type="button" size="sm" onClick={handleSave} disabled={saving || !links}>
+          Save muscles
+        </Button>
+      </div>
+      <ScrollArea className="h-48 pr-3">
+        <div className="space-y-1">
+          {muscles.map(muscle => (
+            <div key={muscle.id} className="flex items-center justify-between gap-2 text-sm">
+              <span>
+                {getMuscleDisplayName(muscle)}
+                {muscle.latin_name && (
+                  <span className="ml-1 text-xs text-muted-foreground">({muscle.latin_name})</span>
+                )}
+              </span>
+              <Select
+                value={roles[muscle.id] ?? NOT_TRAINED}
+                onValueChange={(value) => handleRoleChange(muscle.id, value)}
+              >
+                <SelectTrigger className="h-8 w-32 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NOT_TRAINED}>Not trained</SelectItem>
+                  {(Object.keys(MUSCLE_ROLE_LABELS) as MuscleRole[]).map(role => (
+                    <SelectItem key={role} value={role}>{MUSCLE_ROLE_LABELS[role]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+        </div>
+      </ScrollArea>
+    </div>
+  );
+}
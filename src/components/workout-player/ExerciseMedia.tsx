@@ -10,74 +10,15 @@ interface ExerciseMediaProps {
   exercise: Exercise | undefined;
 }
 
-export function ExerciseMedia({ exercise }: ExerciseMediaProps) {
-  const [showMedia, setShowMedia] = useState(false);
-  
-  if (!exercise) return null;
-  
-  const renderMediaContent = () => {
-    const mediaUrl = exercise?.media_url;
-  
-    if (!mediaUrl || mediaUrl.includes("fakeimg.pl")) {
-      return (
-        <div className="py-3 sm:py-10 text-center">
-          <img 
-            src="https://fakeimg.pl/600x400/b36666/ffffff?text=No+Media&font=bebas" 
-            alt="No Media Available"
-            className="rounded-md w-full h-auto mx-auto"
-          />
-        </div>
-      );
-    }
-  
-    if (mediaUrl.includes("youtube.com") || mediaUrl.includes("youtu.be")) {
-      let embedUrl = mediaUrl;
-      if (mediaUrl.includes("watch?v=")) {
-        const videoId = mediaUrl.split("watch?v=")[1].split("&")[0];
-        embedUrl = `https://www.youtube.com/embed/${videoId}`;
-      } else if (mediaUrl.includes("youtu.be/")) {
-        const videoId = mediaUrl.split("youtu.be/")[1];
-        embedUrl = `https://www.youtube.com/embed/${videoId}`;
-      }
-  
-      return (
-        <AspectRatio ratio={16 / 9} className="bg-muted">
-          <iframe
-            src={embedUrl}
-            title={exercise?.name || "Exercise demonstration"}
-            allow="accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture"
-            allowFullScreen
-            className="rounded-md w-full h-full"
-          />
-        </AspectRatio>
-      );
-    }
-  
-    if (mediaUrl.match(/\.(mp4|webm|ogg|mov)$/i)) {
-      return (
-        <AspectRatio ratio={16 / 9} className="bg-muted">
-          <video 
-            src={mediaUrl}
-            controls
-            className="rounded-md object-cover w-full h-full"
-            playsInline // Add playsInline for better mobile experience
-          />
-        </AspectRatio>
-      );
-    }
-  
-    if (mediaUrl.match(/\.(jpeg|jpg|gif|png)$/i)) {
-      return (
-        <AspectRatio ratio={16 / 9} className="bg-muted">
-          <img 
-            src={mediaUrl} 
-            alt={exercise?.name || "Exercise demonstration"} 
-            className="rounded-md object-cover w-full h-full"
-          />
-        </AspectRatio>
-      );
-    }
-  
+interface ExerciseMediaContentProps {
+  exercise: Pick<Exercise, "name" | "media_url">;
+}
+
+// The demonstration image or video itself, for showing inline outside the player
+export function ExerciseMediaContent({ exercise }: ExerciseMediaContentProps) {
+  const mediaUrl = exercise?.media_url;
+
+  if (!mediaUrl || mediaUrl.includes("fakeimg.pl")) {
     return (
       <div className="py-3 sm:py-10 text-center">
         <img 
@@ -87,7 +28,71 @@ export function ExerciseMedia({ exercise }: ExerciseMediaProps) {
         />
       </div>
     );
-  };
+  }
+
+  if (mediaUrl.includes("youtube.com") || mediaUrl.includes("youtu.be")) {
+    let embedUrl = mediaUrl;
+    if (mediaUrl.includes("watch?v=")) {
+      const videoId = mediaUrl.split("watch?v=")[1].split("&")[0];
+      embedUrl = `https://www.youtube.com/embed/${videoId}`;
+    } else if (mediaUrl.includes("youtu.be/")) {
+      const videoId = mediaUrl.split("youtu.be/")[1];
+      embedUrl = `https://www.youtube.com/embed/${videoId}`;
+    }
+
+    return (
+      <AspectRatio ratio={16 / 9} className="bg-muted">
+        <iframe
+          src={embedUrl}
+          title={exercise?.name || "Exercise demonstration"}
+          allow="accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture"
+          allowFullScreen
+          className="rounded-md w-full h-full"
+        />
+      </AspectRatio>
+    );
+  }
+
+  if (mediaUrl.match(/\.(mp4|webm|ogg|mov)$/i)) {
+    return (
+      <AspectRatio ratio={16 / 9} className="bg-muted">
+        <video 
+          src={mediaUrl}
+          controls
+          className="rounded-md object-cover w-full h-full"
+          playsInline // Add playsInline for better mobile experience
+        />
+      </AspectRatio>
+    );
+  }
+
+  if (mediaUrl.match(/\.(jpeg|jpg|gif|png)$/i)) {
+    return (
+      <AspectRatio ratio={16 / 9} className="bg-muted">
+        <img 
+          src={mediaUrl} 
+          alt={exercise?.name || "Exercise demonstration"} 
+          className="rounded-md object-cover w-full h-full"
+        />
+      </AspectRatio>
+    );
+  }
+
+  return (
+    <div className="py-3 sm:py-10 text-center">
+      <img 
+        src="https://fakeimg.pl/600x400/b36666/ffffff?text=No+Media&font=bebas" 
+        alt="No Media Available"
+        className="rounded-md w-full h-auto mx-auto"
+      />
+    </div>
+  );
+}
+
+export function ExerciseMedia({ exercise }: ExerciseMediaProps) {
+  const [showMedia, setShowMedia] = useState(false);
+  
+  if (!exercise) return null;
 
   return (
     <>
@@ -110,7 +115,7 @@ export function ExerciseMedia({ exercise }: ExerciseMediaProps) {
               {exercise?.name || "Exercise Demonstration"}
             </DialogTitle>
           </DialogHeader>
-          {renderMediaContent()}
+          <ExerciseMediaContent exercise={exercise} />
         </DialogContent>
       </Dialog>
     </>
@@ -0,0 +1,110 @@
+import { useState } from "react";
+import { Replace } from "lucide-react";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { equipmentService } from "@/api/services/equipment.service";
+import { exerciseService } from "@/api/services/exercise.service";
+import { findSubstitutes } from "@/lib/equipment-utils";
+import { GeneratorCandidate } from "@/lib/workout-generator";
+
+const ALL_EQUIPMENT = "all";
+
+interface ExerciseSwapProps {
+  exercise: { name: string; template_id?: string | null; tracking_type?: string | null };
+  onSwap: (substitute: GeneratorCandidate, permanent: boolean) => void;
+}
+
+export function ExerciseSwap({ exercise, onSwap }: ExerciseSwapProps) {
+  const [open, setOpen] = useState(false);
+  const [profileId, setProfileId] = useState<string | null>(null);
+  const [permanent, setPermanent] = useState(false);
+
+  const { data: profiles = [] } = useQuery({
+    queryKey: ["equipmentProfiles"],
+    queryFn: () => equipmentService.getProfiles(),
+    enabled: open,
+  });
+
+  const { data: candidates = [], isLoading } = useQuery({
+    queryKey: ["generatorCandidates"],
+    queryFn: () => exerciseService.getGeneratorCandidates(),
+    enabled: open,
+  });
+
+  // Without a chosen profile, use the default one, or assume everything is available
+  const selectedId = profileId ?? profiles.find(profile => profile.is_default)?.id ?? ALL_EQUIPMENT;
+  const profile = profiles.find(item => item.id === selectedId);
+  const equipmentIds = profile
+    ? profile.equipment_ids
+    : [...new Set(candidates.flatMap(candidate => candidate.equipmentIds))];
+  const substitutes = findSubstitutes(exercise, candidates, equipmentIds);
+
+  const handleSwap = (substitute: GeneratorCandidate) => {
+    onSwap(substitute, permanent);
+    setOpen(false);
+    setPermanent(false);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className="h-6 sm:h-8 text-2xs sm:text-xs">
+          <Replace className="mr-1 h-3 w-3" />
+          Swap
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72 space-y-3">
+        <p className="text-sm font-medium">Alternatives to {exercise.name}</p>
+        <Select value={selectedId} onValueChange={setProfileId}>
+          <SelectTrigger className="h-8 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL_EQUIPMENT}>Any equipment</SelectItem>
+            {profiles.map(item => (
+              <SelectItem key={item.id} value={item.id}>{item.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {isLoading ? (
+          <p className="text-xs text-muted-foreground">Loading…</p>
+        ) : substitutes.length === 0 ? (
+          <p className="text-xs text-muted-foreground">
+            No alternatives found for this exercise with that equipment.
+          </p>
+        ) : (
+          <div className="space-y-1">
+            {substitutes.map(({ candidate, overlap }) => (
+              <Button
+                key={candidate.id}
+                variant="ghost"
+                size="sm"
+                className="w-full justify-between"
+                onClick={() => handleSwap(candidate)}
+              >
+                <span className="truncate">{candidate.name}</span>
+                <span className="text-2xs text-muted-foreground">{Math.round(overlap * 100)}% match</span>
+              </Button>
+            ))}
+          </div>
+        )}
+
+        <div className="flex items-center space-x-2">
+          <Checkbox
+            id="swap-permanent"
+            checked={permanent}
+            onCheckedChange={(checked) => setPermanent(checked === true)}
+          />
+          <Label htmlFor="swap-permanent" className="text-xs font-normal">
+            Also change the routine, not just this session
+          </Label>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
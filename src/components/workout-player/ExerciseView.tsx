@@ -1,12 +1,23 @@
 
-import { RotateCcw, Edit2, Save } from "lucide-react";
+import { RotateCcw, Edit2, Save, Play, Pause, Timer, Flame, Plus, SkipForward } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
 import { Card, CardContent } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
 import { ExerciseMedia } from "./ExerciseMedia";
+import { PlateCalculator } from "./PlateCalculator";
+import { ExerciseSwap } from "./ExerciseSwap";
+import { SessionExercises } from "./SessionExercises";
 import { UseWorkoutPlayerReturn } from "@/hooks/useWorkoutPlayer";
+import { useUnits } from "@/hooks/useUnits";
 import { Badge } from "@/components/ui/badge";
+import { GROUP_TYPE_LABELS } from "@/lib/exercise-groups";
+import { formatDistance, tracksDistance, tracksReps, tracksTime } from "@/lib/tracking-utils";
+import { INTERVAL_MODE_LABELS, describeIntervals, totalIntervalSeconds } from "@/lib/interval-utils";
+import { SET_TYPE_LABELS } from "@/lib/set-types";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { SetType } from "@/types/workout";
 
 interface ExerciseViewProps {
   playerState: UseWorkoutPlayerReturn;
@@ -24,15 +35,55 @@ export function ExerciseView({ playerState, onClose }: ExerciseViewProps) {
     editedWeight,
     isEditingWeight,
     p2fEnabled,
+    barWeight,
+    plateInventory,
+    canAddWarmup,
+    addWarmupRamp,
     isLastSet,
+    actualReps,
+    actualWeight,
+    actualDuration,
+    actualDistance,
+    workTimeRemaining,
+    isWorkTimerRunning,
+    actualSetType,
+    actualRpe,
+    actualRir,
     setEditedWeight,
     setIsEditingWeight,
+    setActualReps,
+    setActualWeight,
+    setActualDuration,
+    setActualDistance,
+    setActualSetType,
+    setActualRpe,
+    setActualRir,
+    startWorkTimer,
+    stopWorkTimer,
+    resetWorkTimer,
+    intervalSteps,
+    startIntervals,
     updateExerciseWeight,
+    substituteExercise,
+    canSkipExercise,
+    skipExercise,
+    addSessionSet,
     startRest,
     resetWorkout,
     formatTime,
-    displayWeight
+    displayWeight,
+    restsAfterSet,
+    chainsToDropSet,
+    nextExercise
   } = playerState;
+  const { weightUnit, toDisplayWeight, fromDisplayWeight } = useUnits();
+
+  const trackingType = currentExercise?.tracking_type;
+  const isIntervalBlock = !!currentExercise?.interval_mode;
+  // AMRAP blocks log the rounds counted during the block, and interval blocks time themselves
+  const showReps = tracksReps(trackingType) && currentExercise?.interval_mode !== "amrap";
+  const showTime = tracksTime(trackingType) && !isIntervalBlock;
+  const showDistance = tracksDistance(trackingType);
 
   return (
     <div className="py-2 sm:py-6 space-y-3 sm:space-y-6">
@@ -43,27 +94,102 @@ export function ExerciseView({ playerState, onClose }: ExerciseViewProps) {
           <div className="flex items-center gap-1 sm:gap-2">
             <h2 className="text-base sm:text-xl font-semibold">{currentExercise?.name}</h2>
             <ExerciseMedia exercise={currentExercise} />
+            {currentExercise && !currentExercise.interval_mode && (
+              <ExerciseSwap exercise={currentExercise} onSwap={substituteExercise} />
+            )}
           </div>
           <p className="text-xs sm:text-sm text-muted-foreground">
             Exercise {currentExerciseIndex + 1}/{totalExercises}
           </p>
+          {currentExercise?.group_id && currentExercise.group_type && (
+            <Badge variant="secondary" className="text-2xs">
+              {GROUP_TYPE_LABELS[currentExercise.group_type]} · Round {currentSetIndex + 1}/{totalSets}
+            </Badge>
+          )}
         </div>
         
-        <Card>
-          <CardContent className="p-2 sm:p-4 text-center">
-            <div className="text-xl sm:text-3xl font-bold">{currentExercise?.reps}</div>
-            <div className="text-2xs sm:text-sm font-medium uppercase text-muted-foreground">Reps</div>
-          </CardContent>
-        </Card>
+        {isIntervalBlock && (
+          <Card>
+            <CardContent className="p-2 sm:p-4 text-center">
+              <div className="text-xl sm:text-3xl font-bold">{describeIntervals(currentExercise)}</div>
+              <div className="text-2xs sm:text-sm font-medium uppercase text-muted-foreground">
+                {INTERVAL_MODE_LABELS[currentExercise.interval_mode]} · {formatTime(totalIntervalSeconds(intervalSteps))} total
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {showReps && (
+          <Card>
+            <CardContent className="p-2 sm:p-4 text-center">
+              <div className="text-xl sm:text-3xl font-bold">{currentExercise?.reps}</div>
+              <div className="text-2xs sm:text-sm font-medium uppercase text-muted-foreground">Reps</div>
+            </CardContent>
+          </Card>
+        )}
+
+        {(showTime || showDistance) && (
+          <div className={`grid gap-2 ${showTime && showDistance ? "grid-cols-2" : "grid-cols-1"}`}>
+            {showTime && (
+              <Card>
+                <CardContent className="p-2 sm:p-4 text-center space-y-1 sm:space-y-2">
+                  <div className={`text-xl sm:text-3xl font-bold tabular-nums ${isWorkTimerRunning ? "text-primary" : ""}`}>
+                    {formatTime(workTimeRemaining)}
+                  </div>
+                  <div className="text-2xs sm:text-sm font-medium uppercase text-muted-foreground">
+                    Work ({formatTime(currentExercise?.duration_seconds || 0)})
+                  </div>
+                  <div className="flex justify-center gap-1">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="h-6 sm:h-8 text-2xs sm:text-xs"
+                      onClick={isWorkTimerRunning ? stopWorkTimer : startWorkTimer}
+                    >
+                      {isWorkTimerRunning ? (
+                        <><Pause className="mr-1 h-3 w-3" /> Stop</>
+                      ) : (
+                        <><Play className="mr-1 h-3 w-3" /> Start</>
+                      )}
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 sm:h-8 px-2"
+                      onClick={resetWorkTimer}
+                    >
+                      <RotateCcw className="h-3 w-3" />
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+            {showDistance && (
+              <Card>
+                <CardContent className="p-2 sm:p-4 text-center">
+                  <div className="text-xl sm:text-3xl font-bold">{formatDistance(currentExercise?.distance_meters)}</div>
+                  <div className="text-2xs sm:text-sm font-medium uppercase text-muted-foreground">Distance</div>
+                </CardContent>
+              </Card>
+            )}
+          </div>
+        )}
         
         <div className="flex justify-between items-center px-1 sm:px-2">
           <div className="text-center">
-            <div className="text-sm sm:text-lg font-medium">{currentSetIndex + 1}</div>
+            <div className="text-sm sm:text-lg font-medium flex items-center justify-center gap-1">
+              {currentSetIndex + 1}
+              {actualSetType !== "working" && (
+                <Badge variant="outline" className="text-2xs px-1 py-0 bg-primary/10">
+                  {SET_TYPE_LABELS[actualSetType]}
+                </Badge>
+              )}
+            </div>
             <div className="text-2xs text-muted-foreground">Current Set</div>
           </div>
           <div className="h-1.5 w-1.5 sm:h-2 sm:w-2 bg-muted rounded-full"></div>
           <div className="text-center">
-            <div className="text-sm sm:text-lg font-medium">{currentExercise?.sets}</div>
+            <div className="text-sm sm:text-lg font-medium">{totalSets}</div>
             <div className="text-2xs text-muted-foreground">Total Sets</div>
           </div>
           <div className="h-1.5 w-1.5 sm:h-2 sm:w-2 bg-muted rounded-full"></div>
@@ -72,8 +198,8 @@ export function ExerciseView({ playerState, onClose }: ExerciseViewProps) {
               <div className="flex items-center gap-1 sm:gap-2">
                 <Input
                   type="number"
-                  value={editedWeight || 0}
-                  onChange={(e) => setEditedWeight(Number(e.target.value))}
+                  value={toDisplayWeight(editedWeight || 0)}
+                  onChange={(e) => setEditedWeight(fromDisplayWeight(Number(e.target.value)))}
                   className="w-14 sm:w-20 h-6 sm:h-8 text-center text-xs sm:text-sm px-1"
                   min="0"
                   step="0.5"
@@ -90,7 +216,7 @@ export function ExerciseView({ playerState, onClose }: ExerciseViewProps) {
             ) : (
               <>
                 <div className="text-sm sm:text-lg font-medium flex items-center gap-1">
-                  {displayWeight()}
+                  {toDisplayWeight(displayWeight())}
                   {p2fEnabled && isLastSet && (
                     <Badge variant="outline" className="text-2xs px-1 py-0 bg-primary/10">
                       P2F
@@ -105,24 +231,170 @@ export function ExerciseView({ playerState, onClose }: ExerciseViewProps) {
                     <Edit2 className="h-2 w-2 sm:h-3 sm:w-3" />
                   </Button>
                 </div>
-                <div className="text-2xs text-muted-foreground">Weight (kg)</div>
+                <div className="text-2xs text-muted-foreground">Weight ({weightUnit})</div>
               </>
             )}
           </div>
         </div>
         
+        {displayWeight() > 0 && (
+          <div className="flex justify-center gap-2">
+            {canAddWarmup && (
+              <Button
+                variant="outline"
+                size="sm"
+                className="h-6 sm:h-8 text-2xs sm:text-xs"
+                onClick={addWarmupRamp}
+              >
+                <Flame className="mr-1 h-3 w-3" />
+                Add warm-up
+              </Button>
+            )}
+            <PlateCalculator weight={displayWeight()} barWeight={barWeight} inventory={plateInventory} />
+          </div>
+        )}
+        
         {currentExercise?.notes && (
           <div className="rounded-md bg-muted p-1.5 sm:p-3 text-2xs sm:text-sm">
             <p className="font-medium">Notes:</p>
             <p>{currentExercise.notes}</p>
           </div>
         )}
+        
+        <div className="rounded-md border p-1.5 sm:p-3 space-y-1.5 sm:space-y-2">
+          <div className="flex items-center justify-between gap-2">
+            <p className="text-2xs sm:text-sm font-medium">Log Set {currentSetIndex + 1}</p>
+            <Select value={actualSetType} onValueChange={(value) => setActualSetType(value as SetType)}>
+              <SelectTrigger className="h-6 sm:h-8 w-[100px] sm:w-[120px] text-2xs sm:text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(SET_TYPE_LABELS) as SetType[]).map((type) => (
+                  <SelectItem key={type} value={type}>{SET_TYPE_LABELS[type]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            {showReps && (
+              <div className="space-y-1">
+                <Label htmlFor="actual-reps" className="text-2xs sm:text-xs text-muted-foreground">Reps done</Label>
+                <Input
+                  id="actual-reps"
+                  type="number"
+                  value={actualReps}
+                  onChange={(e) => setActualReps(Number(e.target.value))}
+                  className="h-7 sm:h-9 text-center text-xs sm:text-sm"
+                  min="0"
+                />
+              </div>
+            )}
+            {showTime && (
+              <div className="space-y-1">
+                <Label htmlFor="actual-duration" className="text-2xs sm:text-xs text-muted-foreground">Time (seconds)</Label>
+                <Input
+                  id="actual-duration"
+                  type="number"
+                  value={actualDuration ?? ""}
+                  onChange={(e) => setActualDuration(e.target.value === "" ? null : Number(e.target.value))}
+                  className="h-7 sm:h-9 text-center text-xs sm:text-sm"
+                  min="0"
+                />
+              </div>
+            )}
+            {showDistance && (
+              <div className="space-y-1">
+                <Label htmlFor="actual-distance" className="text-2xs sm:text-xs text-muted-foreground">Distance (m)</Label>
+                <Input
+                  id="actual-distance"
+                  type="number"
+                  value={actualDistance ?? ""}
+                  onChange={(e) => setActualDistance(e.target.value === "" ? null : Number(e.target.value))}
+                  className="h-7 sm:h-9 text-center text-xs sm:text-sm"
+                  min="0"
+                />
+              </div>
+            )}
+            <div className="space-y-1">
+              <Label htmlFor="actual-weight" className="text-2xs sm:text-xs text-muted-foreground">Weight used ({weightUnit})</Label>
+              <Input
+                id="actual-weight"
+                type="number"
+                value={toDisplayWeight(actualWeight) ?? ""}
+                onChange={(e) => setActualWeight(e.target.value === "" ? null : fromDisplayWeight(Number(e.target.value)))}
+                className="h-7 sm:h-9 text-center text-xs sm:text-sm"
+                min="0"
+                step="0.5"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="actual-rpe" className="text-2xs sm:text-xs text-muted-foreground">RPE (optional)</Label>
+              <Input
+                id="actual-rpe"
+                type="number"
+                value={actualRpe ?? ""}
+                onChange={(e) => setActualRpe(e.target.value === "" ? null : Number(e.target.value))}
+                className="h-7 sm:h-9 text-center text-xs sm:text-sm"
+                min="1"
+                max="10"
+                step="0.5"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="actual-rir" className="text-2xs sm:text-xs text-muted-foreground">RIR (optional)</Label>
+              <Input
+                id="actual-rir"
+                type="number"
+                value={actualRir ?? ""}
+                onChange={(e) => setActualRir(e.target.value === "" ? null : Number(e.target.value))}
+                className="h-7 sm:h-9 text-center text-xs sm:text-sm"
+                min="0"
+              />
+            </div>
+          </div>
+        </div>
       </div>
       
       <div className="space-y-2">
-        <Button className="w-full text-xs sm:text-base py-1.5 h-auto sm:h-10" onClick={startRest}>
-          Complete Set & Rest ({formatTime(currentExercise?.rest_time || 60)})
-        </Button>
+        <div className="flex justify-center gap-2">
+          <SessionExercises playerState={playerState} />
+          {!isIntervalBlock && (
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-6 sm:h-8 text-2xs sm:text-xs"
+              onClick={addSessionSet}
+            >
+              <Plus className="mr-1 h-3 w-3" />
+              Add set
+            </Button>
+          )}
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-6 sm:h-8 text-2xs sm:text-xs"
+            onClick={skipExercise}
+            disabled={!canSkipExercise}
+          >
+            <SkipForward className="mr-1 h-3 w-3" />
+            Skip for now
+          </Button>
+        </div>
+        {isIntervalBlock ? (
+          <Button className="w-full text-xs sm:text-base py-1.5 h-auto sm:h-10" onClick={startIntervals}>
+            <Timer className="mr-1 sm:mr-2 h-3 w-3 sm:h-4 sm:w-4" />
+            Start {INTERVAL_MODE_LABELS[currentExercise.interval_mode]}
+          </Button>
+        ) : (
+          <Button className="w-full text-xs sm:text-base py-1.5 h-auto sm:h-10" onClick={startRest}>
+            {restsAfterSet
+              ? `Complete Set & Rest (${formatTime(currentExercise?.rest_time || 60)})`
+              : chainsToDropSet
+                ? "Complete Set & Start Drop Set"
+                : `Complete Set & Go to ${nextExercise?.name}`
+            }
+          </Button>
+        )}
         <div className="flex space-x-2">
           <Button 
             variant="outline" 
@@ -0,0 +1,61 @@
+import { CheckCircle } from "lucide-react";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { ExerciseSearch } from "@/components/ExerciseSearch";
+import { exerciseService } from "@/api/services/exercise.service";
+import { UseWorkoutPlayerReturn } from "@/hooks/useWorkoutPlayer";
+
+interface NextExercisePickerProps {
+  playerState: UseWorkoutPlayerReturn;
+  onClose: () => void;
+}
+
+export function NextExercisePicker({ playerState, onClose }: NextExercisePickerProps) {
+  const { workout, loggedSets, addSessionExercise, finishWorkout } = playerState;
+
+  const { data: templates = [] } = useQuery({
+    queryKey: ["exerciseLibrary"],
+    queryFn: () => exerciseService.getLibrary(),
+  });
+
+  const exerciseCount = workout?.exercises.length || 0;
+
+  return (
+    <div className="py-2 sm:py-6 space-y-3 sm:space-y-6">
+      <div className="text-center space-y-1">
+        <h2 className="text-base sm:text-xl font-semibold">
+          {exerciseCount === 0 ? "What are you training first?" : "What's next?"}
+        </h2>
+        <p className="text-xs sm:text-sm text-muted-foreground">
+          {exerciseCount === 0
+            ? "Add exercises as you go and log your sets."
+            : `${exerciseCount} exercise${exerciseCount === 1 ? "" : "s"} and ${loggedSets.length} sets done so far.`}
+        </p>
+      </div>
+
+      <ExerciseSearch
+        templates={templates}
+        onSelectTemplate={addSessionExercise}
+        onCustomExerciseCreated={addSessionExercise}
+      />
+
+      <div className="space-y-2">
+        <Button
+          className="w-full text-xs sm:text-base py-1.5 h-auto sm:h-10"
+          onClick={finishWorkout}
+          disabled={loggedSets.length === 0}
+        >
+          <CheckCircle className="mr-1 sm:mr-2 h-3 w-3 sm:h-4 sm:w-4" />
+          Finish Workout
+        </Button>
+        <Button
+          variant="outline"
+          className="w-full text-xs sm:text-sm py-1 h-auto sm:h-9"
+          onClick={onClose}
+        >
+          Cancel
+        </Button>
+      </div>
+    </div>
+  );
+}
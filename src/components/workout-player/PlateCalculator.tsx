@@ -0,0 +1,47 @@
+import { Disc } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { PlateInventoryItem } from "@/types/workout";
+import { calculatePlates } from "@/lib/plate-utils";
+import { useUnits } from "@/hooks/useUnits";
+
+interface PlateCalculatorProps {
+  weight: number;
+  barWeight: number;
+  inventory: PlateInventoryItem[];
+}
+
+export function PlateCalculator({ weight, barWeight, inventory }: PlateCalculatorProps) {
+  const load = calculatePlates(weight, barWeight, inventory);
+  const { toDisplayWeight, formatWeight } = useUnits();
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className="h-6 sm:h-8 text-2xs sm:text-xs">
+          <Disc className="mr-1 h-3 w-3" />
+          Plates
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-64 space-y-2">
+        <p className="text-sm font-medium">Load {formatWeight(weight)}</p>
+        <p className="text-xs text-muted-foreground">{formatWeight(barWeight)} bar, then per side:</p>
+        {load.plates.length === 0 ? (
+          <p className="text-sm">Empty bar</p>
+        ) : (
+          <div className="flex flex-wrap gap-1">
+            {load.plates.map((plate, index) => (
+              <Badge key={index} variant="secondary">{toDisplayWeight(plate)}</Badge>
+            ))}
+          </div>
+        )}
+        {load.remainder > 0 && (
+          <p className="text-xs text-destructive">
+            Can't load the last {formatWeight(load.remainder)} with your plates. Closest: {formatWeight(load.loadedWeight)}.
+          </p>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -1,7 +1,8 @@
 
-import { Play, Pause, SkipForward, Timer } from "lucide-react";
+import { Play, Pause, SkipForward, Timer, Square, Plus } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { UseWorkoutPlayerReturn } from "@/hooks/useWorkoutPlayer";
+import { INTERVAL_MODE_LABELS } from "@/lib/interval-utils";
 
 interface RestTimerProps {
   playerState: UseWorkoutPlayerReturn;
@@ -14,28 +15,66 @@ export function RestTimer({ playerState }: RestTimerProps) {
     formatTime, 
     togglePause, 
     skipRest,
+    nextPosition,
+    nextExercise,
     currentExercise,
-    currentSetIndex,
-    workout,
-    currentExerciseIndex
+    isIntervalActive,
+    intervalSteps,
+    intervalStepIndex,
+    currentIntervalStep,
+    amrapRounds,
+    nextInterval,
+    finishIntervals,
+    setAmrapRounds
   } = playerState;
 
+  // The same countdown drives interval blocks, showing the current step instead of rest
+  const isWorkStep = isIntervalActive && currentIntervalStep?.kind === "work";
+  const upcomingStep = isIntervalActive ? intervalSteps[intervalStepIndex + 1] : undefined;
+  const totalRounds = intervalSteps.length > 0 ? intervalSteps[intervalSteps.length - 1].round : 0;
+
+  const title = isIntervalActive && currentExercise?.interval_mode
+    ? `${INTERVAL_MODE_LABELS[currentExercise.interval_mode]} · ${currentIntervalStep?.label}`
+    : "Rest Time";
+
+  const subtitle = isIntervalActive
+    ? upcomingStep
+      ? `Next: ${upcomingStep.label} (round ${upcomingStep.round})`
+      : `Last interval of ${currentExercise?.name}`
+    : nextPosition && nextExercise
+      ? `Next: ${nextExercise.name} - ${nextExercise.group_id ? "Round" : "Set"} ${nextPosition.setIndex + 1}`
+      : "Next: Finish workout";
+
   return (
     <div className="py-3 sm:py-6 space-y-3 sm:space-y-6">
       <div className="text-center space-y-1.5 sm:space-y-2">
-        <h2 className="text-base sm:text-xl font-semibold">Rest Time</h2>
+        <h2 className="text-base sm:text-xl font-semibold">{title}</h2>
+        {isIntervalActive && currentExercise?.interval_mode !== "amrap" && (
+          <p className="text-2xs sm:text-sm text-muted-foreground">
+            Round {currentIntervalStep?.round}/{totalRounds}
+          </p>
+        )}
         <div className="flex items-center justify-center space-x-1.5 sm:space-x-2">
-          <Timer className="h-4 w-4 sm:h-6 sm:w-6 text-blue-500" />
+          <Timer className={`h-4 w-4 sm:h-6 sm:w-6 ${isWorkStep ? "text-green-500" : "text-blue-500"}`} />
           <span className="text-xl sm:text-3xl font-bold">{formatTime(restTimeRemaining)}</span>
         </div>
-        <p className="text-2xs sm:text-sm text-muted-foreground">
-          Next: {currentExercise?.name} - Set {currentSetIndex + 1 >= currentExercise?.sets ? 1 : currentSetIndex + 2}
-          {currentSetIndex + 1 >= currentExercise?.sets && currentExerciseIndex < (workout?.exercises.length || 0) - 1 
-            ? ` of ${workout?.exercises[currentExerciseIndex + 1].name}`
-            : ''
-          }
-        </p>
+        <p className="text-2xs sm:text-sm text-muted-foreground">{subtitle}</p>
       </div>
+
+      {isIntervalActive && currentExercise?.interval_mode === "amrap" && (
+        <div className="flex items-center justify-center gap-2 sm:gap-3">
+          <span className="text-sm sm:text-lg font-medium">{amrapRounds} rounds</span>
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-7 sm:h-9 text-xs sm:text-sm"
+            onClick={() => setAmrapRounds(amrapRounds + 1)}
+          >
+            <Plus className="mr-1 h-3 w-3 sm:h-4 sm:w-4" />
+            Round
+          </Button>
+        </div>
+      )}
       
       <div className="flex justify-center space-x-2 sm:space-x-4">
         <Button 
@@ -47,12 +86,22 @@ export function RestTimer({ playerState }: RestTimerProps) {
           {isPaused ? <Play className="h-3.5 w-3.5 sm:h-5 sm:w-5" /> : <Pause className="h-3.5 w-3.5 sm:h-5 sm:w-5" />}
         </Button>
         <Button 
-          onClick={skipRest} 
+          onClick={isIntervalActive ? nextInterval : skipRest} 
           className="text-xs sm:text-base py-1.5 h-auto sm:h-10"
         >
           <SkipForward className="mr-1 sm:mr-2 h-2.5 w-2.5 sm:h-4 sm:w-4" />
-          Skip Rest
+          {isIntervalActive ? "Skip Interval" : "Skip Rest"}
         </Button>
+        {isIntervalActive && (
+          <Button 
+            variant="outline"
+            onClick={finishIntervals} 
+            className="text-xs sm:text-base py-1.5 h-auto sm:h-10"
+          >
+            <Square className="mr-1 sm:mr-2 h-2.5 w-2.5 sm:h-4 sm:w-4" />
+            Finish
+          </Button>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,97 @@
+import { useState } from "react";
+import { ArrowDown, ArrowUp, Check, ListOrdered } from "lucide-react";
+import { useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { ExerciseSearch } from "@/components/ExerciseSearch";
+import { exerciseService } from "@/api/services/exercise.service";
+import { UseWorkoutPlayerReturn } from "@/hooks/useWorkoutPlayer";
+import { getGroupRange } from "@/lib/exercise-groups";
+
+interface SessionExercisesProps {
+  playerState: UseWorkoutPlayerReturn;
+}
+
+export function SessionExercises({ playerState }: SessionExercisesProps) {
+  const { workout, currentExerciseIndex, canMoveExercise, moveSessionExercise, addSessionExercise } = playerState;
+  const [open, setOpen] = useState(false);
+
+  const { data: templates = [] } = useQuery({
+    queryKey: ["exerciseLibrary"],
+    queryFn: () => exerciseService.getLibrary(),
+    enabled: open,
+  });
+
+  if (!workout) return null;
+
+  const [currentStart, currentEnd] = getGroupRange(workout.exercises, currentExerciseIndex);
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className="h-6 sm:h-8 text-2xs sm:text-xs">
+          <ListOrdered className="mr-1 h-3 w-3" />
+          Exercises
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 space-y-3">
+        <p className="text-sm font-medium">This session</p>
+        <div className="space-y-1 max-h-60 overflow-y-auto">
+          {workout.exercises.map((exercise, index) => {
+            const done = index < currentStart;
+            const current = index >= currentStart && index <= currentEnd;
+
+            return (
+              <div
+                key={exercise.id}
+                className={`flex items-center justify-between gap-2 rounded-md px-2 py-1 text-xs ${current ? "bg-primary/10" : ""}`}
+              >
+                <span className={`truncate ${done ? "text-muted-foreground line-through" : ""}`}>
+                  {index + 1}. {exercise.name}
+                </span>
+                <div className="flex items-center gap-1 shrink-0">
+                  {exercise.added && <Badge variant="outline" className="text-2xs px-1 py-0">New</Badge>}
+                  {!!exercise.added_sets && (
+                    <Badge variant="outline" className="text-2xs px-1 py-0">+{exercise.added_sets} sets</Badge>
+                  )}
+                  {done ? (
+                    <Check className="h-3 w-3 text-muted-foreground" />
+                  ) : !current && (
+                    <>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        className="h-6 w-6"
+                        disabled={!canMoveExercise(index, -1)}
+                        onClick={() => moveSessionExercise(index, -1)}
+                      >
+                        <ArrowUp className="h-3 w-3" />
+                      </Button>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        className="h-6 w-6"
+                        disabled={!canMoveExercise(index, 1)}
+                        onClick={() => moveSessionExercise(index, 1)}
+                      >
+                        <ArrowDown className="h-3 w-3" />
+                      </Button>
+                    </>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="space-y-1">
+          <p className="text-xs font-medium">Add an exercise</p>
+          <ExerciseSearch templates={templates} onSelectTemplate={addSessionExercise} />
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -1,20 +1,95 @@
 
-import { CheckCircle } from "lucide-react";
+import { CheckCircle, Trophy } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { UseWorkoutPlayerReturn } from "@/hooks/useWorkoutPlayer";
 import { AdDisplay } from "@/components/AdDisplay";
 import AdsComponent from "@/components/AdsComponent";
 import { useState } from "react";
+import { NewPersonalRecord, ONE_REP_MAX_FORMULA_LABELS, PERSONAL_RECORD_LABELS } from "@/lib/pr-utils";
+import { formatWeight } from "@/lib/units";
+import { useUnits } from "@/hooks/useUnits";
+import { WeightUnit } from "@/types/workout";
 
 interface WorkoutCompleteProps {
   playerState: UseWorkoutPlayerReturn;
 }
 
+const formatRecord = (record: NewPersonalRecord, unit: WeightUnit) => {
+  switch (record.type) {
+    case "heaviest_weight":
+      return `${formatWeight(record.weight, unit)} × ${record.reps}`;
+    case "best_reps":
+      return `${record.reps} reps @ ${formatWeight(record.weight, unit)}`;
+    default:
+      return formatWeight(record.value, unit);
+  }
+};
+
 export function WorkoutComplete({ playerState }: WorkoutCompleteProps) {
-  const { workoutNotes, setWorkoutNotes, handleComplete } = playerState;
+  const {
+    workoutNotes,
+    setWorkoutNotes,
+    handleComplete,
+    isSaving,
+    newRecords,
+    closePlayer,
+    sessionEdited,
+    saveChangesToRoutine,
+    setSaveChangesToRoutine,
+    isEmptyWorkout,
+    workout,
+    routineTitle,
+    setRoutineTitle
+  } = playerState;
   const [adDismissed, setAdDismissed] = useState(false);
+  const { weightUnit } = useUnits();
+
+  if (newRecords && newRecords.length > 0) {
+    return (
+      <div className="py-3 sm:py-10 text-center space-y-2 sm:space-y-4">
+        <Trophy className="mx-auto h-10 w-10 sm:h-16 sm:w-16 text-yellow-500" />
+        <h2 className="text-lg sm:text-2xl font-bold">New Personal Records!</h2>
+        <p className="text-xs sm:text-sm text-muted-foreground">Your workout has been saved.</p>
+        
+        <div className="space-y-1.5 sm:space-y-2 text-left">
+          {newRecords.map((record, i) => (
+            <div key={i} className="rounded-md border p-1.5 sm:p-3 flex justify-between items-center gap-2">
+              <div>
+                <p className="text-xs sm:text-sm font-medium">{record.exercise_name}</p>
+                <p className="text-2xs sm:text-xs text-muted-foreground">
+                  {PERSONAL_RECORD_LABELS[record.type]}
+                  {record.formula && ` (${ONE_REP_MAX_FORMULA_LABELS[record.formula]})`}
+                </p>
+              </div>
+              <div className="text-right">
+                <p className="text-xs sm:text-sm font-semibold">{formatRecord(record, weightUnit)}</p>
+                {record.type !== "best_reps" && record.previous > 0 && (
+                  <p className="text-2xs sm:text-xs text-muted-foreground">Previous: {formatWeight(record.previous, weightUnit)}</p>
+                )}
+                {record.type === "best_reps" && (
+                  <p className="text-2xs sm:text-xs text-muted-foreground">Previous: {record.previous} reps</p>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+        
+        <div className="pt-1.5 sm:pt-4">
+          <Button 
+            onClick={closePlayer} 
+            className="text-xs sm:text-base py-1.5 h-auto sm:h-10"
+          >
+            Done
+          </Button>
+        </div>
+      </div>
+    );
+  }
 
   return (
     <div className="py-3 sm:py-10 text-center space-y-2 sm:space-y-4">
@@ -40,12 +115,53 @@ export function WorkoutComplete({ playerState }: WorkoutCompleteProps) {
         />
       </div>
       
+      {isEmptyWorkout ? (
+        <div className="space-y-1.5 sm:space-y-2 text-left">
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="save-as-routine"
+              checked={saveChangesToRoutine}
+              onCheckedChange={(checked) => setSaveChangesToRoutine(checked === true)}
+            />
+            <Label htmlFor="save-as-routine" className="text-xs sm:text-sm font-normal">
+              Save this workout as a new routine
+            </Label>
+          </div>
+          {saveChangesToRoutine && (
+            <Input
+              value={routineTitle}
+              onChange={(e) => setRoutineTitle(e.target.value)}
+              placeholder={workout?.title}
+              className="h-7 sm:h-9 text-xs sm:text-sm"
+            />
+          )}
+        </div>
+      ) : sessionEdited && (
+        <div className="space-y-1.5 sm:space-y-2 text-left">
+          <Label className="text-xs sm:text-sm">You changed the exercises during this workout</Label>
+          <RadioGroup
+            value={saveChangesToRoutine ? "routine" : "session"}
+            onValueChange={(value) => setSaveChangesToRoutine(value === "routine")}
+          >
+            <div className="flex items-center space-x-2">
+              <RadioGroupItem value="session" id="changes-session" />
+              <Label htmlFor="changes-session" className="text-xs sm:text-sm font-normal">Keep them for this session only</Label>
+            </div>
+            <div className="flex items-center space-x-2">
+              <RadioGroupItem value="routine" id="changes-routine" />
+              <Label htmlFor="changes-routine" className="text-xs sm:text-sm font-normal">Save them to the routine</Label>
+            </div>
+          </RadioGroup>
+        </div>
+      )}
+      
       <div className="pt-1.5 sm:pt-4">
         <Button 
           onClick={handleComplete} 
           className="text-xs sm:text-base py-1.5 h-auto sm:h-10"
+          disabled={isSaving}
         >
-          Finish & Save
+          {isSaving ? "Saving..." : "Finish & Save"}
         </Button>
       </div>
       
@@ -0,0 +1,41 @@
+import { useQuery } from "@tanstack/react-query";
+import { profileService } from "@/api/services/profile.service";
+import {
+  DEFAULT_HEIGHT_UNIT,
+  DEFAULT_WEIGHT_UNIT,
+  formatHeight,
+  formatWeight,
+  fromDisplayWeight,
+  parseHeightUnit,
+  parseWeightUnit,
+  toDisplayWeight,
+} from "@/lib/units";
+
+export const UNIT_PREFERENCES_QUERY_KEY = ["unitPreferences"];
+
+export const fetchUnitPreferences = async () => {
+  const profile = await profileService.getProfile();
+  return {
+    weightUnit: parseWeightUnit(profile?.weight_unit),
+    heightUnit: parseHeightUnit(profile?.height_unit),
+  };
+};
+
+export function useUnits() {
+  const { data } = useQuery({
+    queryKey: UNIT_PREFERENCES_QUERY_KEY,
+    queryFn: fetchUnitPreferences,
+  });
+
+  const weightUnit = data?.weightUnit ?? DEFAULT_WEIGHT_UNIT;
+  const heightUnit = data?.heightUnit ?? DEFAULT_HEIGHT_UNIT;
+
+  return {
+    weightUnit,
+    heightUnit,
+    toDisplayWeight: (kg: number | null) => toDisplayWeight(kg, weightUnit),
+    fromDisplayWeight: (value: number | null) => fromDisplayWeight(value, weightUnit),
+    formatWeight: (kg: number | null) => formatWeight(kg, weightUnit),
+    formatHeight: (cm: number | null) => formatHeight(cm, heightUnit),
+  };
+}
@@ -0,0 +1,112 @@
+import { useEffect, useRef } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { profileService } from "@/api/services/profile.service";
+import { UseWorkoutPlayerReturn } from "@/hooks/useWorkoutPlayer";
+import { useUnits } from "@/hooks/useUnits";
+import { getSetCount } from "@/lib/exercise-groups";
+import { getPrescribedWeight, getWarmupSet } from "@/lib/set-types";
+import { formatSetTarget } from "@/lib/tracking-utils";
+import { CuePreferences } from "@/types/workout";
+import { DEFAULT_CUE_PREFERENCES, describeNextSet, parseCuePreferences, playBeep, speak, vibrate } from "@/lib/workout-cues";
+
+export const CUE_PREFERENCES_QUERY_KEY = ["cuePreferences"];
+
+export function useCuePreferences() {
+  const { data } = useQuery({
+    queryKey: CUE_PREFERENCES_QUERY_KEY,
+    queryFn: async () => {
+      const profile = await profileService.getProfile();
+      return parseCuePreferences(profile?.workout_cues);
+    },
+  });
+
+  return data ?? DEFAULT_CUE_PREFERENCES;
+}
+
+// Beeps and vibrates through the last seconds of a countdown and when it runs out
+function useCountdownCues(seconds: number, active: boolean, paused: boolean, preferences: CuePreferences) {
+  const lastSecond = useRef<number | null>(null);
+
+  useEffect(() => {
+    // Only react to the countdown ticking, not to pausing on the same second
+    if (!active || paused || lastSecond.current === seconds) {
+      lastSecond.current = active ? seconds : null;
+      return;
+    }
+    lastSecond.current = seconds;
+
+    if (seconds <= 0) {
+      if (preferences.beeps) playBeep(true);
+      if (preferences.vibration) vibrate([200, 100, 200]);
+    } else if (preferences.beep_seconds.includes(seconds)) {
+      if (preferences.beeps) playBeep();
+      if (preferences.vibration) vibrate(100);
+    }
+  }, [seconds, active, paused, preferences]);
+}
+
+// Cues the last seconds of rests, interval steps and timed sets, and announces what comes next
+export function useWorkoutCues(playerState: UseWorkoutPlayerReturn) {
+  const {
+    workout,
+    isEmptyWorkout,
+    isResting,
+    isIntervalActive,
+    isPaused,
+    restTimeRemaining,
+    workTimeRemaining,
+    isWorkTimerRunning,
+    intervalStepIndex,
+    currentIntervalStep,
+    nextPosition,
+    nextExercise,
+    barWeight,
+    plateInventory,
+    p2fEnabled,
+    p2fWeight,
+  } = playerState;
+  const preferences = useCuePreferences();
+  const { weightUnit, formatWeight } = useUnits();
+
+  // Interval blocks run on the rest countdown
+  useCountdownCues(restTimeRemaining, isResting || isIntervalActive, isPaused, preferences);
+  useCountdownCues(workTimeRemaining, isWorkTimerRunning, false, preferences);
+
+  const describeUpcoming = () => {
+    // A free-form session goes on with whatever is picked next
+    if (!nextPosition && isEmptyWorkout) return "";
+    if (!workout || !nextPosition || !nextExercise) return describeNextSet(null);
+
+    const { exerciseIndex, setIndex } = nextPosition;
+    const lastSet = setIndex === getSetCount(workout.exercises, exerciseIndex) - 1;
+    const warmupSet = getWarmupSet(nextExercise, setIndex, barWeight, plateInventory);
+    const weight = getPrescribedWeight(nextExercise, setIndex, {
+      barWeight,
+      inventory: plateInventory,
+      lastSetIncrease: p2fEnabled && lastSet ? p2fWeight : 0,
+      unit: weightUnit
+    });
+
+    return describeNextSet({
+      name: nextExercise.name,
+      setLabel: nextExercise.group_id ? "Round" : "Set",
+      setNumber: setIndex + 1,
+      target: formatSetTarget({ ...nextExercise, reps: warmupSet?.reps ?? nextExercise.reps }),
+      weight: weight ? formatWeight(weight) : "",
+    });
+  };
+
+  // Kept in a ref so the announcement is made once as the rest starts, not on every tick
+  const upcoming = useRef("");
+  upcoming.current = isResting ? describeUpcoming() : "";
+
+  useEffect(() => {
+    if (isResting && preferences.voice && upcoming.current) speak(upcoming.current);
+  }, [isResting, preferences.voice]);
+
+  const stepLabel = isIntervalActive ? currentIntervalStep?.label : undefined;
+
+  useEffect(() => {
+    if (stepLabel && preferences.voice) speak(stepLabel);
+  }, [stepLabel, intervalStepIndex, preferences.voice]);
+}
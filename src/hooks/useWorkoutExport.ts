@@ -3,10 +3,12 @@ import { useState } from "react";
 import { format } from "date-fns";
 import { useToast } from "@/components/ui/use-toast";
 import { supabase } from "@/integrations/supabase/client";
-import { exportToPDF, exportToCSV, prepareWorkoutDataForExport, ExportOptions } from "@/lib/export-utils";
+import { exportToPDF, exportToCSV, prepareWorkoutDataForExport, prepareSetDataForExport, ExportOptions } from "@/lib/export-utils";
+import { useUnits } from "@/hooks/useUnits";
 
 export function useWorkoutExport() {
   const [includeNotes, setIncludeNotes] = useState(true);
+  const [includeSets, setIncludeSets] = useState(false);
   const [dateRange, setDateRange] = useState<{
     start: Date | undefined;
     end: Date | undefined;
@@ -17,6 +19,7 @@ export function useWorkoutExport() {
   const [exportType, setExportType] = useState<"csv" | "pdf">("csv");
   const [isLoading, setIsLoading] = useState(false);
   const { toast } = useToast();
+  const { weightUnit } = useUnits();
 
   const handleExport = async () => {
     try {
@@ -42,6 +45,7 @@ export function useWorkoutExport() {
           duration,
           completed_at,
           notes,
+          title,
           workouts (
             title
           )
@@ -70,7 +74,7 @@ export function useWorkoutExport() {
 
       // Format workout data for export
       const formattedData = workoutData.map(workout => ({
-        title: workout.workouts?.title || "Unknown",
+        title: workout.workouts?.title || workout.title || "Unknown",
         completed_at: workout.completed_at,
         duration: workout.duration,
         notes: workout.notes,
@@ -79,14 +83,42 @@ export function useWorkoutExport() {
       // Prepare export options
       const options: ExportOptions = {
         includeNotes,
+        includeSets,
+        weightUnit,
         dateRange: dateRange.start && dateRange.end ? {
           start: dateRange.start,
           end: dateRange.end,
         } : undefined,
       };
 
-      // Prepare data for export
-      const exportData = await prepareWorkoutDataForExport(formattedData, options);
+      // Prepare data for export, either per workout or per logged set
+      let exportData: Record<string, unknown>[];
+      if (options.includeSets) {
+        const titles = new Map(workoutData.map(workout => [workout.id, workout.workouts?.title || workout.title || "Unknown"]));
+
+        const { data: setData, error: setError } = await supabase
+          .from("set_logs")
+          .select("completed_workout_id, exercise_name, set_number, reps, weight, duration_seconds, distance_meters, set_type, rpe, rir, completed_at")
+          .in("completed_workout_id", workoutData.map(workout => workout.id))
+          .order("completed_at", { ascending: false });
+
+        if (setError) throw setError;
+
+        if (!setData || setData.length === 0) {
+          toast({
+            title: "No data to export",
+            description: "No sets were logged for the selected workouts.",
+          });
+          return;
+        }
+
+        exportData = prepareSetDataForExport(setData.map(set => ({
+          ...set,
+          workout_title: titles.get(set.completed_workout_id) || "Unknown",
+        })), options);
+      } else {
+        exportData = await prepareWorkoutDataForExport(formattedData, options);
+      }
       
       // Generate filename
       const timestamp = format(new Date(), "yyyy-MM-dd");
@@ -118,6 +150,8 @@ export function useWorkoutExport() {
   return {
     includeNotes,
     setIncludeNotes,
+    includeSets,
+    setIncludeSets,
     dateRange,
     setDateRange,
     exportType,
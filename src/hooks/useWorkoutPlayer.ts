@@ -1,10 +1,51 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
+import { v4 as uuidv4 } from "uuid";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/components/ui/use-toast";
 import { useQueryClient } from "@tanstack/react-query";
 import { profileService } from "@/api/services/profile.service";
+import { UNIT_PREFERENCES_QUERY_KEY, fetchUnitPreferences, useUnits } from "@/hooks/useUnits";
+import { exerciseService } from "@/api/services/exercise.service";
+import { sessionService } from "@/api/services/session.service";
+import { programService } from "@/api/services/program.service";
+import { detectNewPersonalRecords, NewPersonalRecord } from "@/lib/pr-utils";
+import { applyProgression, Prescription, ProgressionState, roundWeight } from "@/lib/progression-utils";
+import { ProgramPosition, applyProgramWeek, getProgramPosition, parseProgramWeeks } from "@/lib/program-utils";
+import { GeneratorCandidate } from "@/lib/workout-generator";
+import { parseTemplateMuscles } from "@/lib/muscle-utils";
+import { getGroupRange, getNextPosition, getSetCount, shouldRestAfter } from "@/lib/exercise-groups";
+import {
+  EMPTY_WORKOUT_ID,
+  addExtraSet,
+  deferExercise,
+  getPerformedPrescription,
+  getResumeSetIndex,
+  moveExercise
+} from "@/lib/session-edits";
+import { workoutService } from "@/api/services/workout.service";
+import { tracksDistance, tracksReps, tracksTime } from "@/lib/tracking-utils";
+import { buildIntervalSteps, elapsedWorkSeconds } from "@/lib/interval-utils";
+import { chainsIntoDropSet, getPrescribedWeight, getSetType, getWarmupSet } from "@/lib/set-types";
+import { DEFAULT_BAR_WEIGHT, DEFAULT_PLATE_INVENTORY, generateWarmupSets, parsePlateInventory } from "@/lib/plate-utils";
+import { unlockAudio } from "@/lib/workout-cues";
+import {
+  ActiveWorkoutSession,
+  ExerciseGroupType,
+  ExerciseTemplate,
+  IntervalSettings,
+  IntervalMode,
+  IntervalStep,
+  LoggedSet,
+  PlateInventoryItem,
+  Program,
+  ProgramWeek,
+  ProgressionType,
+  SetType,
+  TrackingType,
+  WeightUnit
+} from "@/types/workout";
 
-interface Exercise {
+interface Exercise extends IntervalSettings {
   id: string;
   name: string;
   sets: number;
@@ -13,6 +54,22 @@ interface Exercise {
   notes: string | null;
   rest_time: number | null;
   media_url?: string | null;
+  template_id?: string | null;
+  // Swapped in for this session only; the routine still has the original exercise
+  substituted?: boolean;
+  // Added during the session; only saved to the routine when asked to
+  added?: boolean;
+  added_sets?: number;
+  resume_set?: number;
+  group_id?: string | null;
+  group_type?: ExerciseGroupType | null;
+  group_rounds?: number | null;
+  tracking_type?: TrackingType;
+  duration_seconds?: number | null;
+  distance_meters?: number | null;
+  warmup_sets?: number;
+  drop_sets?: number;
+  last_set_to_failure?: boolean;
 }
 
 interface Workout {
@@ -23,7 +80,14 @@ interface Workout {
   duration: number;
 }
 
-export function useWorkoutPlayer(workoutId: string | null, onClose: () => void) {
+type ProgressableExercise = Omit<ProgressionState, "progression_type"> & {
+  id: string;
+  name: string;
+  progression_type: string;
+  last_progressed_session_id: string | null;
+};
+
+export function useWorkoutPlayer(workoutId: string | null, onClose: () => void, resume = false) {
   const [workout, setWorkout] = useState<Workout | null>(null);
   const [currentExerciseIndex, setCurrentExerciseIndex] = useState(0);
   const [currentSetIndex, setCurrentSetIndex] = useState(0);
@@ -32,49 +96,184 @@ export function useWorkoutPlayer(workoutId: string | null, onClose: () => void)
   const [isResting, setIsResting] = useState(false);
   const [restTimeRemaining, setRestTimeRemaining] = useState(0);
   const [isPaused, setIsPaused] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
   const [startTime, setStartTime] = useState<Date | null>(null);
   const [workoutNotes, setWorkoutNotes] = useState<string>("");
   const [editedWeight, setEditedWeight] = useState<number | null>(null);
   const [isEditingWeight, setIsEditingWeight] = useState(false);
   const [p2fEnabled, setP2fEnabled] = useState(false);
   const [p2fWeight, setP2fWeight] = useState(5);
+  const [barWeight, setBarWeight] = useState(DEFAULT_BAR_WEIGHT);
+  const [plateInventory, setPlateInventory] = useState<PlateInventoryItem[]>(DEFAULT_PLATE_INVENTORY);
+  const [loggedSets, setLoggedSets] = useState<LoggedSet[]>([]);
+  const [actualReps, setActualReps] = useState<number>(0);
+  const [actualWeight, setActualWeight] = useState<number | null>(null);
+  const [actualDuration, setActualDuration] = useState<number | null>(null);
+  const [actualDistance, setActualDistance] = useState<number | null>(null);
+  const [actualSetType, setActualSetType] = useState<SetType>("working");
+  const [actualRpe, setActualRpe] = useState<number | null>(null);
+  const [actualRir, setActualRir] = useState<number | null>(null);
+  const [workTimeRemaining, setWorkTimeRemaining] = useState(0);
+  const [isWorkTimerRunning, setIsWorkTimerRunning] = useState(false);
+  const [isIntervalActive, setIsIntervalActive] = useState(false);
+  const [intervalStepIndex, setIntervalStepIndex] = useState(0);
+  const [amrapRounds, setAmrapRounds] = useState(0);
+  const [newRecords, setNewRecords] = useState<NewPersonalRecord[] | null>(null);
+  const [programSession, setProgramSession] = useState<{ program: Program; position: ProgramPosition } | null>(null);
+  const [sessionEdited, setSessionEdited] = useState(false);
+  const [saveChangesToRoutine, setSaveChangesToRoutine] = useState(false);
+  const [routineTitle, setRoutineTitle] = useState("");
+  const lastSyncedPosition = useRef<string | null>(null);
   const { toast } = useToast();
+  const { weightUnit, formatWeight } = useUnits();
   const queryClient = useQueryClient();
 
   useEffect(() => {
     if (workoutId) {
-      fetchWorkout(workoutId);
-      fetchP2fSettings();
-      setStartTime(new Date());
+      startSession(workoutId);
+      fetchPlayerSettings();
     }
   }, [workoutId]);
 
-  const fetchP2fSettings = async () => {
+  const startSession = async (id: string) => {
+    setStartTime(new Date());
+    lastSyncedPosition.current = null;
+
+    // Read the saved session before loading, since loading starts saving anew
+    const session = resume ? await sessionService.getActiveSession() : null;
+
+    if (id === EMPTY_WORKOUT_ID) {
+      setProgramSession(null);
+      startEmptyWorkout(session?.workout_title);
+      if (session && session.workout_id === id) {
+        restoreSession(session);
+      }
+      return;
+    }
+
+    // The routine counts towards the active program when it is the program's next session
+    const program = await programService.getActiveProgram().catch((error) => {
+      console.error("Error fetching active program:", error);
+      return null;
+    });
+    const position = program ? getProgramPosition(program) : null;
+    const programPosition = position?.dayPlan.workout_id === id ? position : null;
+    setProgramSession(programPosition ? { program, position: programPosition } : null);
+
+    // Progressed and scaled weights are rounded in the user's unit, which may not have loaded yet
+    const { weightUnit: unit } = await queryClient.fetchQuery({
+      queryKey: UNIT_PREFERENCES_QUERY_KEY,
+      queryFn: fetchUnitPreferences,
+    }).catch(() => ({ weightUnit }));
+
+    await fetchWorkout(id, programPosition?.weekPlan, unit);
+
+    if (session && session.workout_id === id) {
+      restoreSession(session);
+    }
+  };
+
+  const restoreSession = (session: ActiveWorkoutSession) => {
+    setCurrentExerciseIndex(session.current_exercise_index);
+    setCurrentSetIndex(session.current_set_index);
+    setStartTime(new Date(session.started_at));
+    setLoggedSets(session.logged_sets || []);
+    setWorkoutNotes(session.workout_notes || "");
+    setIsPaused(session.is_paused);
+
+    if (session.exercises) {
+      setWorkout(prev => prev && { ...prev, exercises: session.exercises as Exercise[] });
+      setSessionEdited(true);
+    }
+
+    if (session.is_resting || session.is_interval_active) {
+      // A running timer kept counting down while the app was away
+      const remaining = session.is_paused || !session.rest_ends_at
+        ? session.rest_remaining
+        : Math.max(0, Math.ceil((new Date(session.rest_ends_at).getTime() - Date.now()) / 1000));
+      setRestTimeRemaining(remaining);
+    }
+
+    if (session.is_interval_active) {
+      setIntervalStepIndex(session.interval_step_index ?? 0);
+      setAmrapRounds(session.amrap_rounds ?? 0);
+      setIsIntervalActive(true);
+    } else if (session.is_resting) {
+      setIsResting(true);
+    }
+  };
+
+  // Persist progress locally on every change and to the backend whenever the
+  // position in the workout changes, so an interrupted session can be resumed
+  useEffect(() => {
+    if (!workout || !startTime || completed) return;
+
+    const session: ActiveWorkoutSession = {
+      workout_id: workout.id,
+      workout_title: workout.title,
+      current_exercise_index: currentExerciseIndex,
+      current_set_index: currentSetIndex,
+      started_at: startTime.toISOString(),
+      is_resting: isResting,
+      is_paused: isPaused,
+      rest_ends_at: isResting || isIntervalActive ? new Date(Date.now() + restTimeRemaining * 1000).toISOString() : null,
+      rest_remaining: restTimeRemaining,
+      is_interval_active: isIntervalActive,
+      interval_step_index: intervalStepIndex,
+      amrap_rounds: amrapRounds,
+      logged_sets: loggedSets,
+      workout_notes: workoutNotes,
+      exercises: sessionEdited ? workout.exercises : null,
+      updated_at: new Date().toISOString()
+    };
+
+    sessionService.saveLocalSession(session);
+
+    const layout = sessionEdited ? workout.exercises.map(exercise => `${exercise.id}x${exercise.sets}`).join(",") : "";
+    const position = [
+      currentExerciseIndex, currentSetIndex, isResting, isPaused, loggedSets.length, layout,
+      isIntervalActive, intervalStepIndex, amrapRounds
+    ].join(":");
+    if (position !== lastSyncedPosition.current) {
+      lastSyncedPosition.current = position;
+      sessionService.saveRemoteSession(session).catch((error) => {
+        console.error("Error saving session:", error);
+      });
+    }
+  }, [workout, startTime, completed, currentExerciseIndex, currentSetIndex, isResting, isPaused, restTimeRemaining, loggedSets, workoutNotes, sessionEdited, isIntervalActive, intervalStepIndex, amrapRounds]);
+
+  const fetchPlayerSettings = async () => {
     try {
       const profile = await profileService.getProfile();
       if (profile) {
         setP2fEnabled(profile.p2f_enabled || false);
         setP2fWeight(profile.p2f_weight || 5);
+        setBarWeight(profile.bar_weight || DEFAULT_BAR_WEIGHT);
+        setPlateInventory(parsePlateInventory(profile.plate_inventory));
       }
     } catch (error) {
-      console.error("Error fetching P2F settings:", error);
+      console.error("Error fetching player settings:", error);
     }
   };
 
+
   useEffect(() => {
     let timer: NodeJS.Timeout;
     
-    if (isResting && restTimeRemaining > 0 && !isPaused) {
+    // Interval blocks share the rest countdown and its pause control
+    if ((isResting || isIntervalActive) && restTimeRemaining > 0 && !isPaused) {
       timer = setTimeout(() => {
         setRestTimeRemaining(prev => prev - 1);
       }, 1000);
+    } else if (isIntervalActive && restTimeRemaining <= 0) {
+      nextInterval();
     } else if (isResting && restTimeRemaining <= 0) {
       setIsResting(false);
       nextSet();
     }
     
     return () => clearTimeout(timer);
-  }, [isResting, restTimeRemaining, isPaused]);
+  }, [isResting, isIntervalActive, restTimeRemaining, isPaused]);
 
   useEffect(() => {
     if (workout && workout.exercises.length > 0) {
@@ -85,7 +284,46 @@ export function useWorkoutPlayer(workoutId: string | null, onClose: () => void)
     }
   }, [currentExerciseIndex, workout]);
 
-  const fetchWorkout = async (id: string) => {
+  // Pre-fill the set log inputs with the prescription for the upcoming set
+  useEffect(() => {
+    if (!workout) return;
+    const exercise = workout.exercises[currentExerciseIndex];
+    if (!exercise) return;
+
+    const lastSet = currentSetIndex === getSetCount(workout.exercises, currentExerciseIndex) - 1;
+    const warmupSet = getWarmupSet(exercise, currentSetIndex, barWeight, plateInventory);
+    setActualReps(warmupSet?.reps ?? exercise.reps);
+    setActualWeight(getPrescribedWeight(exercise, currentSetIndex, {
+      barWeight,
+      inventory: plateInventory,
+      lastSetIncrease: p2fEnabled && lastSet ? p2fWeight : 0,
+      unit: weightUnit
+    }));
+    setActualSetType(getSetType(exercise, currentSetIndex));
+    setActualRpe(null);
+    setActualRir(null);
+    setActualDuration(exercise.duration_seconds ?? null);
+    setActualDistance(exercise.distance_meters ?? null);
+    setWorkTimeRemaining(exercise.duration_seconds || 0);
+    setIsWorkTimerRunning(false);
+  }, [currentExerciseIndex, currentSetIndex, workout, p2fEnabled, p2fWeight, barWeight, plateInventory, weightUnit]);
+
+  // Count down the work period of a timed set
+  useEffect(() => {
+    let timer: NodeJS.Timeout;
+
+    if (isWorkTimerRunning && workTimeRemaining > 0) {
+      timer = setTimeout(() => {
+        setWorkTimeRemaining(prev => prev - 1);
+      }, 1000);
+    } else if (isWorkTimerRunning && workTimeRemaining <= 0) {
+      setIsWorkTimerRunning(false);
+    }
+
+    return () => clearTimeout(timer);
+  }, [isWorkTimerRunning, workTimeRemaining]);
+
+  const fetchWorkout = async (id: string, programWeek?: ProgramWeek, unit: WeightUnit = weightUnit) => {
     setLoading(true);
     try {
       const { data: workoutData, error: workoutError } = await supabase
@@ -101,29 +339,67 @@ export function useWorkoutPlayer(workoutId: string | null, onClose: () => void)
         .select(`
           id, 
           name, 
+          template_id,
           sets, 
           reps, 
           weight, 
           notes, 
-          rest_time
+          rest_time,
+          progression_type,
+          progression_increment,
+          rep_range_min,
+          rep_range_max,
+          training_max,
+          training_max_percent,
+          deload_after,
+          deload_percent,
+          failed_sessions,
+          last_progressed_session_id,
+          group_id,
+          group_type,
+          group_rounds,
+          tracking_type,
+          duration_seconds,
+          distance_meters,
+          warmup_sets,
+          drop_sets,
+          last_set_to_failure,
+          interval_mode,
+          interval_work,
+          interval_rest,
+          interval_rounds,
+          interval_sequence
         `)
         .eq("workout_id", id)
-        .order("id");
+        .order("order", { ascending: true, nullsFirst: false });
 
       if (exercisesError) throw exercisesError;
 
+      const progressedExercises = await Promise.all(
+        exercisesData.map(exercise => applyPendingProgression(exercise, unit))
+      );
+
+      const plannedExercises = programWeek
+        ? progressedExercises.map(exercise => applyProgramWeek(exercise, programWeek, unit))
+        : progressedExercises;
+
       const exercisesWithMedia = await Promise.all(
-        exercisesData.map(async (exercise) => {
-          const { data: templateData, error: templateError } = await supabase
-            .from("exercise_templates")
-            .select("media_url")
-            .eq("name", exercise.name)
-            .maybeSingle();
+        plannedExercises.map(async (exercise) => {
+          // Names can repeat between the catalogue and custom exercises, so prefer the linked template
+          const templateQuery = supabase.from("exercise_templates").select("media_url");
+          const { data: templateData, error: templateError } = await (exercise.template_id
+            ? templateQuery.eq("id", exercise.template_id)
+            : templateQuery.eq("name", exercise.name).order("user_id", { nullsFirst: false }).limit(1)
+          ).maybeSingle();
 
           if (templateError) console.error("Error fetching template:", templateError);
           
           return {
             ...exercise,
+            group_type: exercise.group_type as ExerciseGroupType | null,
+            tracking_type: exercise.tracking_type as TrackingType,
+            interval_mode: exercise.interval_mode as IntervalMode | null,
+            interval_sequence: exercise.interval_sequence as unknown as IntervalStep[] | null,
             media_url: templateData?.media_url || null
           };
         })
@@ -136,13 +412,7 @@ export function useWorkoutPlayer(workoutId: string | null, onClose: () => void)
         default_rest_time: workoutData.default_rest_time || 60,
         duration: workoutData.duration
       });
-
-      setCurrentExerciseIndex(0);
-      setCurrentSetIndex(0);
-      setCompleted(false);
-      setIsResting(false);
-      setRestTimeRemaining(0);
-      setIsPaused(false);
+      resetPlayer(false);
     } catch (error: any) {
       toast({
         variant: "destructive",
@@ -154,51 +424,219 @@ export function useWorkoutPlayer(workoutId: string | null, onClose: () => void)
     }
   };
 
+  // A free-form session starts with no exercises; they are added as the workout goes
+  const startEmptyWorkout = (title?: string) => {
+    setWorkout({
+      id: EMPTY_WORKOUT_ID,
+      title: title || `Workout ${new Date().toLocaleDateString()}`,
+      exercises: [],
+      default_rest_time: 60,
+      duration: 0
+    });
+    resetPlayer(true);
+  };
+
+  const resetPlayer = (empty: boolean) => {
+    setCurrentExerciseIndex(0);
+    setCurrentSetIndex(0);
+    setCompleted(false);
+    setIsResting(false);
+    setRestTimeRemaining(0);
+    setIsPaused(false);
+    setIsIntervalActive(false);
+    setLoggedSets([]);
+    setNewRecords(null);
+    // Free-form sessions always keep their exercises with the saved session
+    setSessionEdited(empty);
+    setSaveChangesToRoutine(false);
+    setRoutineTitle("");
+  };
+
+  // Moves an exercise's prescription forward based on its most recent logged
+  // session, unless that session has already been accounted for
+  const applyPendingProgression = async <T extends ProgressableExercise>(exercise: T, unit: WeightUnit): Promise<T> => {
+    if (exercise.progression_type === "none") return exercise;
+
+    try {
+      const { data: recentSets, error } = await supabase
+        .from("set_logs")
+        .select("completed_workout_id, reps")
+        .eq("exercise_id", exercise.id)
+        .in("set_type", ["working", "failure"])
+        .order("completed_at", { ascending: false })
+        .limit(50);
+
+      if (error) throw error;
+      if (!recentSets || recentSets.length === 0) return exercise;
+
+      const lastSessionId = recentSets[0].completed_workout_id;
+      if (lastSessionId === exercise.last_progressed_session_id) return exercise;
+
+      // A session run in a program week is judged against that week's sets and reps,
+      // and a program deload week is a planned step back that is not scored at all
+      const { data: session, error: sessionError } = await supabase
+        .from("completed_workouts")
+        .select("program_week, programs(weeks)")
+        .eq("id", lastSessionId)
+        .maybeSingle();
+
+      if (sessionError) throw sessionError;
+
+      const sessionWeek = session?.programs && session.program_week !== null
+        ? parseProgramWeeks(session.programs.weeks)[session.program_week]
+        : undefined;
+
+      const prescribed = sessionWeek ? applyProgramWeek(exercise, sessionWeek) : exercise;
+
+      const next: Prescription = sessionWeek?.deload
+        ? {
+          reps: exercise.reps,
+          weight: exercise.weight,
+          training_max: exercise.training_max ?? null,
+          failed_sessions: exercise.failed_sessions,
+          deloaded: false
+        }
+        : applyProgression(
+          {
+            ...exercise,
+            sets: prescribed.sets,
+            reps: prescribed.reps,
+            progression_type: exercise.progression_type as ProgressionType
+          },
+          recentSets.filter(set => set.completed_workout_id === lastSessionId),
+          unit
+        );
+
+      // A week's own rep target was only for that week, so the routine keeps its reps
+      if (sessionWeek?.reps) next.reps = exercise.reps;
+
+      const { error: updateError } = await supabase
+        .from("exercises")
+        .update({
+          reps: next.reps,
+          weight: next.weight,
+          training_max: next.training_max,
+          failed_sessions: next.failed_sessions,
+          last_progressed_session_id: lastSessionId
+        })
+        .eq("id", exercise.id);
+
+      if (updateError) throw updateError;
+
+      if (next.deloaded) {
+        toast({
+          title: "Deload applied",
+          description: `${exercise.name} has been reduced to ${formatWeight(next.weight)} after repeated missed sessions.`,
+        });
+      }
+
+      return { ...exercise, ...next };
+    } catch (error) {
+      console.error("Error applying progression:", error);
+      return exercise;
+    }
+  };
+
   const handleComplete = async () => {
-    if (!workout || !startTime) return;
+    if (!workout || !startTime || isSaving) return;
     
     const endTime = new Date();
     const durationMs = endTime.getTime() - startTime.getTime();
     const durationMinutes = Math.round(durationMs / (1000 * 60));
+    let records: NewPersonalRecord[] = [];
+    let completedWorkoutId: string | null = null;
+    let sessionStored = false;
     
+    setIsSaving(true);
     try {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) throw new Error("User not authenticated");
+
+      // Snapshot earlier history before this session's sets are stored
+      const previousSets = await exerciseService.getLoggedSets(
+        [...new Set(loggedSets.map(set => set.exercise_name))]
+      );
+
+      let routineId = isEmptyWorkout ? null : workout.id;
       
-      const { error } = await supabase
+      const { data: completedWorkout, error } = await supabase
         .from("completed_workouts")
         .insert({
           user_id: user.id,
-          workout_id: workout.id,
+          workout_id: routineId,
+          title: isEmptyWorkout ? routineTitle.trim() || workout.title : null,
           duration: durationMinutes,
-          notes: workoutNotes || null
-        });
+          notes: workoutNotes || null,
+          program_id: programSession?.program.id ?? null,
+          program_week: programSession?.position.week ?? null,
+          program_day: programSession?.position.day ?? null
+        })
+        .select("id")
+        .single();
         
       if (error) throw error;
+      completedWorkoutId = completedWorkout.id;
+
+      if (loggedSets.length > 0) {
+        const { error: setLogsError } = await supabase
+          .from("set_logs")
+          .insert(loggedSets.map(set => ({
+            ...set,
+            completed_workout_id: completedWorkout.id,
+            user_id: user.id
+          })));
+
+        if (setLogsError) throw setLogsError;
+
+        records = detectNewPersonalRecords(
+          previousSets,
+          loggedSets.map(set => ({ ...set, completed_workout_id: completedWorkout.id }))
+        );
+      }
+
+      // The session is stored from here on, so it must not be resumed and saved a second time
+      sessionStored = true;
+      await sessionService.clearSession();
+
+      // A free-form session saved as a routine is linked to it once the session itself is safe,
+      // so a failed save never leaves a routine behind
+      if (isEmptyWorkout && saveChangesToRoutine) {
+        routineId = await saveAsRoutine(durationMinutes);
+
+        const { error: linkError } = await supabase
+          .from("completed_workouts")
+          .update({ workout_id: routineId })
+          .eq("id", completedWorkout.id);
+
+        if (linkError) throw linkError;
+      }
       
-      const { data: exercisesData } = await supabase
-        .from("exercises")
-        .select("name")
-        .eq("workout_id", workout.id);
+      // Free-form sessions kept out of the routines have no routine to tag with muscles
+      const { data: exercisesData } = routineId
+        ? await supabase.from("exercises").select("name").eq("workout_id", routineId)
+        : { data: null };
         
       if (exercisesData && exercisesData.length > 0) {
         const exerciseNames = [...new Set(exercisesData.map(e => e.name))];
         
         const { data: templateData } = await supabase
           .from("exercise_templates")
-          .select("target_muscle")
-          .in("name", exerciseNames)
-          .not("target_muscle", "is", null);
+          .select("exercise_muscles (role, muscles (name))")
+          .in("name", exerciseNames);
           
         if (templateData && templateData.length > 0) {
-          const muscleNames = [...new Set(templateData.map(t => t.target_muscle))];
+          const muscleNames = [...new Set(
+            templateData.flatMap(t => parseTemplateMuscles(t.exercise_muscles)
+              .filter(link => link.role === "primary")
+              .map(link => link.muscle.name))
+          )];
           
           for (const muscleName of muscleNames) {
             if (muscleName) {
               await supabase
                 .from("workout_muscles")
                 .insert({
-                  workout_id: workout.id,
+                  workout_id: routineId,
                   muscle_name: muscleName
                 });
             }
@@ -206,11 +644,23 @@ export function useWorkoutPlayer(workoutId: string | null, onClose: () => void)
         }
       }
       
+      if (!isEmptyWorkout && sessionEdited && saveChangesToRoutine) {
+        await saveSessionToRoutine();
+      }
+
       queryClient.invalidateQueries({ queryKey: ["workoutStats"] });
+      queryClient.invalidateQueries({ queryKey: ["calendarSessions"] });
+      queryClient.invalidateQueries({ queryKey: ["muscleLoads"] });
+
+      if (programSession) {
+        await advanceActiveProgram(programSession.program);
+      }
       
       toast({
         title: "Workout completed!",
-        description: `Great job completing your workout in ${durationMinutes} minutes.`,
+        description: records.length > 0
+          ? `Great job! You set ${records.length} new personal record${records.length === 1 ? "" : "s"}.`
+          : `Great job completing your workout in ${durationMinutes} minutes.`,
       });
     } catch (error: any) {
       console.error("Error recording workout completion:", error);
@@ -219,23 +669,47 @@ export function useWorkoutPlayer(workoutId: string | null, onClose: () => void)
         title: "Error recording completion",
         description: error.message,
       });
+
+      // Don't leave a session without its sets behind; the player stays open to try again
+      if (!sessionStored) {
+        if (completedWorkoutId) {
+          await supabase.from("completed_workouts").delete().eq("id", completedWorkoutId);
+        }
+        setIsSaving(false);
+        return;
+      }
+    }
+    setIsSaving(false);
+    
+    // Keep the player open so the completion screen can show the new records
+    if (records.length > 0) {
+      setNewRecords(records);
+      return;
     }
     
     onClose();
   };
 
+  // Program weeks scale the routine's weight, so the unscaled weight is what gets stored
+  const toRoutineWeight = (weight: number) => {
+    const intensity = programSession?.position.weekPlan.intensity_percent ?? 100;
+    return intensity === 100 ? weight : roundWeight(weight * 100 / intensity, weightUnit);
+  };
+
   const updateExerciseWeight = async () => {
     if (!workout || editedWeight === null) return;
     
     try {
       const exercise = workout.exercises[currentExerciseIndex];
       
-      const { error } = await supabase
-        .from("exercises")
-        .update({ weight: editedWeight })
-        .eq("id", exercise.id);
-      
-      if (error) throw error;
+      if (!exercise.substituted && !exercise.added) {
+        const { error } = await supabase
+          .from("exercises")
+          .update({ weight: toRoutineWeight(editedWeight) })
+          .eq("id", exercise.id);
+        
+        if (error) throw error;
+      }
       
       const updatedExercises = [...workout.exercises];
       updatedExercises[currentExerciseIndex] = {
@@ -252,7 +726,7 @@ export function useWorkoutPlayer(workoutId: string | null, onClose: () => void)
       
       toast({
         title: "Weight updated",
-        description: `Set weight to ${editedWeight} kg for ${exercise.name}`,
+        description: `Set weight to ${formatWeight(editedWeight)} for ${exercise.name}`,
       });
     } catch (error: any) {
       console.error("Error updating weight:", error);
@@ -264,24 +738,365 @@ export function useWorkoutPlayer(workoutId: string | null, onClose: () => void)
     }
   };
 
+  // Swaps the current exercise, for this session only or permanently in the routine
+  const substituteExercise = async (substitute: GeneratorCandidate, permanent: boolean) => {
+    if (!workout) return;
+
+    try {
+      const exercise = workout.exercises[currentExerciseIndex];
+
+      if (permanent) {
+        // The routine exercise keeps its id, so its progression starts over from the
+        // sets logged under it so far, which belong to the old movement
+        const { data: lastSets, error: lastSetsError } = await supabase
+          .from("set_logs")
+          .select("completed_workout_id")
+          .eq("exercise_id", exercise.id)
+          .in("set_type", ["working", "failure"])
+          .order("completed_at", { ascending: false })
+          .limit(1);
+
+        if (lastSetsError) throw lastSetsError;
+
+        const { error } = await supabase
+          .from("exercises")
+          .update({
+            name: substitute.name,
+            template_id: substitute.id,
+            weight: null,
+            training_max: null,
+            failed_sessions: 0,
+            last_progressed_session_id: lastSets[0]?.completed_workout_id ?? null
+          })
+          .eq("id", exercise.id);
+
+        if (error) throw error;
+      }
+
+      const { data: templateData } = await supabase
+        .from("exercise_templates")
+        .select("media_url")
+        .eq("id", substitute.id)
+        .maybeSingle();
+
+      const updatedExercises = [...workout.exercises];
+      updatedExercises[currentExerciseIndex] = {
+        ...exercise,
+        name: substitute.name,
+        template_id: substitute.id,
+        // The old exercise's load says little about the new one
+        weight: null,
+        ...(permanent && { training_max: null, failed_sessions: 0 }),
+        media_url: templateData?.media_url || null,
+        substituted: !permanent,
+      };
+      setWorkout({ ...workout, exercises: updatedExercises });
+
+      toast({
+        title: "Exercise swapped",
+        description: permanent
+          ? `${substitute.name} replaces ${exercise.name} in this routine.`
+          : `Doing ${substitute.name} instead of ${exercise.name} this session.`,
+      });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error swapping exercise",
+        description: (error as Error).message,
+      });
+    }
+  };
+
+  // Writes exercises added, reordered or given extra sets during the session
+  // back to the routine. Program weeks scale weights and set counts, so extra
+  // sets are added to the stored counts and weights are stored unscaled.
+  const saveSessionToRoutine = async () => {
+    if (!workout) return;
+
+    const { data: storedExercises, error } = await supabase
+      .from("exercises")
+      .select("id, sets, group_rounds")
+      .eq("workout_id", workout.id);
+
+    if (error) throw error;
+
+    for (const [order, exercise] of workout.exercises.entries()) {
+      if (exercise.added) {
+        const { error: insertError } = await supabase
+          .from("exercises")
+          .insert({
+            workout_id: workout.id,
+            name: exercise.name,
+            template_id: exercise.template_id,
+            sets: exercise.sets,
+            reps: exercise.reps,
+            weight: exercise.weight === null ? null : toRoutineWeight(exercise.weight),
+            rest_time: exercise.rest_time,
+            tracking_type: exercise.tracking_type,
+            duration_seconds: exercise.duration_seconds,
+            distance_meters: exercise.distance_meters,
+            order
+          });
+
+        if (insertError) throw insertError;
+        continue;
+      }
+
+      const stored = storedExercises.find(item => item.id === exercise.id);
+      if (!stored) continue;
+
+      const addedSets = exercise.added_sets || 0;
+      const { error: updateError } = await supabase
+        .from("exercises")
+        .update({
+          order,
+          sets: stored.sets + addedSets,
+          group_rounds: stored.group_rounds ? stored.group_rounds + addedSets : stored.group_rounds
+        })
+        .eq("id", exercise.id);
+
+      if (updateError) throw updateError;
+    }
+
+    queryClient.invalidateQueries({ queryKey: ["routines"] });
+  };
+
+  // Saves a free-form session as a new routine, prescribing what was actually done
+  const saveAsRoutine = async (durationMinutes: number) => {
+    const routine = await workoutService.createRoutine(
+      { title: routineTitle.trim() || workout.title, duration: durationMinutes, notes: null },
+      workout.exercises.map((exercise, order) => ({
+        name: exercise.name,
+        template_id: exercise.template_id,
+        ...getPerformedPrescription(exercise, loggedSets),
+        rest_time: exercise.rest_time,
+        tracking_type: exercise.tracking_type,
+        duration_seconds: exercise.duration_seconds,
+        distance_meters: exercise.distance_meters,
+        order
+      }))
+    );
+
+    queryClient.invalidateQueries({ queryKey: ["routines"] });
+    return routine.id;
+  };
+
+  const updateSessionExercises = (exercises: Exercise[]) => {
+    if (!workout) return;
+    setWorkout({ ...workout, exercises });
+    setSessionEdited(true);
+  };
+
+  // New exercises go to the end of the session and are logged without a routine exercise
+  const addSessionExercise = (template: ExerciseTemplate) => {
+    if (!workout) return;
+
+    updateSessionExercises([
+      ...workout.exercises,
+      {
+        id: uuidv4(),
+        name: template.name,
+        sets: 3,
+        reps: 10,
+        weight: null,
+        notes: null,
+        rest_time: null,
+        media_url: template.media_url || null,
+        template_id: template.id,
+        tracking_type: template.tracking_type || "reps",
+        duration_seconds: null,
+        distance_meters: null,
+        added: true,
+      }
+    ]);
+
+    toast({
+      title: "Exercise added",
+      description: `${template.name} was added to the end of this session.`,
+    });
+  };
+
+  // Only exercises still to come can be reordered
+  const canMoveExercise = (index: number, direction: -1 | 1) => {
+    if (!workout) return false;
+    const [, currentEnd] = getGroupRange(workout.exercises, currentExerciseIndex);
+    const [start, end] = getGroupRange(workout.exercises, index);
+    return start > currentEnd && (direction < 0
+      ? start - 1 > currentEnd
+      : end < workout.exercises.length - 1);
+  };
+
+  const moveSessionExercise = (index: number, direction: -1 | 1) => {
+    if (!workout || !canMoveExercise(index, direction)) return;
+    updateSessionExercises(moveExercise(workout.exercises, index, direction));
+  };
+
+  const currentGroupEnd = workout ? getGroupRange(workout.exercises, currentExerciseIndex)[1] : 0;
+  const canSkipExercise = !!workout && currentGroupEnd < workout.exercises.length - 1;
+
+  // Moves the current exercise to the end of the session and starts on the next one
+  const skipExercise = () => {
+    if (!workout || !currentExercise || !canSkipExercise) return;
+
+    const [start] = getGroupRange(workout.exercises, currentExerciseIndex);
+    const exercises = deferExercise(workout.exercises, currentExerciseIndex, currentSetIndex);
+    updateSessionExercises(exercises);
+    setCurrentExerciseIndex(start);
+    setCurrentSetIndex(getResumeSetIndex(exercises, start));
+
+    toast({
+      title: "Exercise skipped",
+      description: `${currentExercise.name} was moved to the end of this session.`,
+    });
+  };
+
+  const addSessionSet = () => {
+    if (!workout || !currentExercise) return;
+    updateSessionExercises(addExtraSet(workout.exercises, currentExerciseIndex));
+  };
+
+  const advanceActiveProgram = async (program: Program) => {
+    try {
+      const next = await programService.advanceProgram(program);
+      queryClient.invalidateQueries({ queryKey: ["programs"] });
+      toast({
+        title: next.completed_at ? "Program complete!" : "Program advanced",
+        description: next.completed_at
+          ? `You finished every session of ${program.name}.`
+          : `Next up in ${program.name}: week ${next.current_week + 1}, day ${next.current_day + 1}.`,
+      });
+    } catch (error) {
+      console.error("Error advancing program:", error);
+    }
+  };
+
   const nextSet = () => {
     if (!workout || !currentExercise) return;
     
-    if (currentSetIndex < currentExercise.sets - 1) {
-      setCurrentSetIndex(currentSetIndex + 1);
+    const next = getNextPosition(workout.exercises, {
+      exerciseIndex: currentExerciseIndex,
+      setIndex: currentSetIndex
+    });
+    
+    if (next) {
+      // An exercise skipped earlier picks up where it was left
+      const [start] = getGroupRange(workout.exercises, currentExerciseIndex);
+      const startsNewGroup = next.setIndex === 0 && getGroupRange(workout.exercises, next.exerciseIndex)[0] !== start;
+      setCurrentExerciseIndex(next.exerciseIndex);
+      setCurrentSetIndex(startsNewGroup
+        ? getResumeSetIndex(workout.exercises, next.exerciseIndex)
+        : next.setIndex);
+    } else if (isEmptyWorkout) {
+      // Free-form sessions wait for the next exercise to be added, or to be finished
+      setCurrentExerciseIndex(workout.exercises.length);
+      setCurrentSetIndex(0);
     } else {
-      if (currentExerciseIndex < workout.exercises.length - 1) {
-        setCurrentExerciseIndex(currentExerciseIndex + 1);
-        setCurrentSetIndex(0);
-      } else {
-        setCompleted(true);
+      setCompleted(true);
+    }
+  };
+
+  const finishWorkout = () => {
+    setIsResting(false);
+    setCompleted(true);
+  };
+
+  // A set that runs to the end of its work period logs the full target time
+  const startWorkTimer = () => {
+    unlockAudio();
+    if (workTimeRemaining <= 0) {
+      setWorkTimeRemaining(currentExercise?.duration_seconds || 0);
+    }
+    setActualDuration(currentExercise?.duration_seconds ?? null);
+    setIsWorkTimerRunning(true);
+  };
+
+  // Stopping early logs the time actually worked
+  const stopWorkTimer = () => {
+    setIsWorkTimerRunning(false);
+    setActualDuration((currentExercise?.duration_seconds || 0) - workTimeRemaining);
+  };
+
+  const resetWorkTimer = () => {
+    setIsWorkTimerRunning(false);
+    setWorkTimeRemaining(currentExercise?.duration_seconds || 0);
+  };
+
+  const logCurrentSet = (overrides: Partial<LoggedSet> = {}) => {
+    if (!currentExercise) return;
+
+    const trackingType = currentExercise.tracking_type;
+
+    setLoggedSets(prev => [
+      ...prev,
+      {
+        // Sets of a session-only swap or addition must not count towards a routine exercise's progression
+        exercise_id: currentExercise.substituted || currentExercise.added ? null : currentExercise.id,
+        exercise_name: currentExercise.name,
+        set_number: currentSetIndex + 1,
+        reps: tracksReps(trackingType) ? actualReps : 0,
+        weight: actualWeight,
+        duration_seconds: tracksTime(trackingType) ? actualDuration : null,
+        distance_meters: tracksDistance(trackingType) ? actualDistance : null,
+        set_type: actualSetType,
+        rpe: actualRpe,
+        rir: actualRir,
+        completed_at: new Date().toISOString(),
+        ...overrides
       }
+    ]);
+  };
+
+  const startIntervals = () => {
+    if (intervalSteps.length === 0) return;
+    unlockAudio();
+
+    setIntervalStepIndex(0);
+    setAmrapRounds(0);
+    setRestTimeRemaining(intervalSteps[0].seconds);
+    setIsPaused(false);
+    setIsIntervalActive(true);
+  };
+
+  const nextInterval = () => {
+    if (intervalStepIndex < intervalSteps.length - 1) {
+      setIntervalStepIndex(intervalStepIndex + 1);
+      setRestTimeRemaining(intervalSteps[intervalStepIndex + 1].seconds);
+    } else {
+      finishIntervals();
     }
   };
 
+  // Logs the block as a single set; AMRAP records the rounds completed as reps
+  const finishIntervals = () => {
+    if (!workout || !currentExercise) return;
+
+    setIsIntervalActive(false);
+    logCurrentSet({
+      reps: currentExercise.interval_mode === "amrap" ? amrapRounds : actualReps,
+      duration_seconds: elapsedWorkSeconds(intervalSteps, intervalStepIndex, Math.max(0, restTimeRemaining))
+    });
+    restOrContinue();
+  };
+
   const startRest = () => {
     if (!workout || !currentExercise) return;
     
+    // Completing a set is a tap, which browsers require before rest beeps can play
+    unlockAudio();
+    setIsWorkTimerRunning(false);
+    logCurrentSet();
+    restOrContinue();
+  };
+
+  const restOrContinue = () => {
+    if (!workout || !currentExercise) return;
+
+    // Move straight on to the next exercise of a superset or circuit, or into a drop set
+    if (!shouldRestAfter(workout.exercises, currentExerciseIndex) || chainsIntoDropSet(currentExercise, currentSetIndex)) {
+      nextSet();
+      return;
+    }
+    
     const restTime = currentExercise.rest_time || workout.default_rest_time || 60;
     setRestTimeRemaining(restTime);
     setIsResting(true);
@@ -304,7 +1119,9 @@ export function useWorkoutPlayer(workoutId: string | null, onClose: () => void)
     setIsResting(false);
     setRestTimeRemaining(0);
     setIsPaused(false);
+    setIsIntervalActive(false);
     setStartTime(new Date());
+    setLoggedSets([]);
   };
 
   const formatTime = (seconds: number) => {
@@ -314,29 +1131,60 @@ export function useWorkoutPlayer(workoutId: string | null, onClose: () => void)
   };
 
   const currentExercise = workout?.exercises[currentExerciseIndex];
+  const isEmptyWorkout = workout?.id === EMPTY_WORKOUT_ID;
+  const intervalSteps = currentExercise ? buildIntervalSteps(currentExercise) : [];
+  const currentIntervalStep = isIntervalActive ? intervalSteps[intervalStepIndex] : undefined;
   const totalExercises = workout?.exercises.length || 0;
-  const totalSets = currentExercise?.sets || 0;
-  const progress = totalExercises > 0 
+  const totalSets = workout ? getSetCount(workout.exercises, currentExerciseIndex) : 0;
+  const progress = totalExercises > 0 && totalSets > 0
     ? ((currentExerciseIndex / totalExercises) * 100) + 
       ((currentSetIndex / totalSets) * (100 / totalExercises))
     : 0;
     
   const isLastSet = currentSetIndex === (totalSets - 1);
+  const chainsToDropSet = currentExercise ? chainsIntoDropSet(currentExercise, currentSetIndex) : false;
+  const restsAfterSet = workout ? shouldRestAfter(workout.exercises, currentExerciseIndex) && !chainsToDropSet : true;
+  const nextPosition = workout
+    ? getNextPosition(workout.exercises, { exerciseIndex: currentExerciseIndex, setIndex: currentSetIndex })
+    : null;
+  const nextExercise = nextPosition ? workout?.exercises[nextPosition.exerciseIndex] : undefined;
   
   const displayWeight = () => {
     if (!currentExercise || currentExercise.weight === null) return 0;
     
-    if (p2fEnabled && isLastSet) {
-      return currentExercise.weight + p2fWeight;
-    }
-    
-    return currentExercise.weight;
+    return getPrescribedWeight(currentExercise, currentSetIndex, {
+      barWeight,
+      inventory: plateInventory,
+      lastSetIncrease: p2fEnabled && isLastSet ? p2fWeight : 0,
+      unit: weightUnit
+    });
+  };
+
+  // A ramp can be added before the first set of an ungrouped exercise without warm-ups
+  const canAddWarmup = !!currentExercise && currentSetIndex === 0 && !currentExercise.group_id &&
+    !currentExercise.warmup_sets && !!currentExercise.weight && currentExercise.weight > barWeight;
+
+  const addWarmupRamp = () => {
+    if (!workout || !currentExercise || !canAddWarmup) return;
+
+    const ramp = generateWarmupSets(currentExercise.weight, barWeight, plateInventory);
+    if (ramp.length === 0) return;
+
+    const updatedExercises = [...workout.exercises];
+    updatedExercises[currentExerciseIndex] = { ...currentExercise, warmup_sets: ramp.length };
+    setWorkout({ ...workout, exercises: updatedExercises });
+
+    toast({
+      title: "Warm-up added",
+      description: ramp.map(set => `${formatWeight(set.weight)} × ${set.reps}`).join(", "),
+    });
   };
 
   return {
     workout,
     loading,
     completed,
+    isSaving,
     currentExercise,
     currentExerciseIndex,
     currentSetIndex,
@@ -349,10 +1197,49 @@ export function useWorkoutPlayer(workoutId: string | null, onClose: () => void)
     isEditingWeight,
     p2fEnabled,
     p2fWeight,
+    barWeight,
+    plateInventory,
+    canAddWarmup,
     isLastSet,
+    loggedSets,
+    newRecords,
+    programSession,
+    substituteExercise,
+    sessionEdited,
+    saveChangesToRoutine,
+    setSaveChangesToRoutine,
+    isEmptyWorkout,
+    routineTitle,
+    setRoutineTitle,
+    finishWorkout,
+    addSessionExercise,
+    canMoveExercise,
+    moveSessionExercise,
+    canSkipExercise,
+    skipExercise,
+    addSessionSet,
+    actualReps,
+    actualWeight,
+    actualDuration,
+    actualDistance,
+    workTimeRemaining,
+    isWorkTimerRunning,
+    actualSetType,
+    actualRpe,
+    actualRir,
+    isIntervalActive,
+    intervalSteps,
+    intervalStepIndex,
+    currentIntervalStep,
+    amrapRounds,
     totalExercises,
     totalSets,
+    restsAfterSet,
+    chainsToDropSet,
+    nextPosition,
+    nextExercise,
     handleComplete,
+    closePlayer: onClose,
     updateExerciseWeight,
     nextSet,
     startRest,
@@ -363,9 +1250,24 @@ export function useWorkoutPlayer(workoutId: string | null, onClose: () => void)
     setWorkoutNotes,
     setEditedWeight,
     setIsEditingWeight,
+    setActualReps,
+    setActualWeight,
+    setActualDuration,
+    setActualDistance,
+    setActualSetType,
+    setActualRpe,
+    setActualRir,
+    startWorkTimer,
+    stopWorkTimer,
+    resetWorkTimer,
+    startIntervals,
+    nextInterval,
+    finishIntervals,
+    setAmrapRounds,
+    addWarmupRamp,
     displayWeight
   };
 }
 
 export type UseWorkoutPlayerReturn = ReturnType<typeof useWorkoutPlayer>;
-export type { Exercise, Workout };
+export type { Exercise, Workout, LoggedSet };
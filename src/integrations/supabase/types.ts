@@ -67,8 +67,12 @@ export type Database = {
           duration: number
           id: string
           notes: string | null
+          program_day: number | null
+          program_id: string | null
+          program_week: number | null
+          title: string | null
           user_id: string
-          workout_id: string
+          workout_id: string | null
         }
         Insert: {
           completed_at?: string
@@ -76,8 +80,12 @@ export type Database = {
           duration: number
           id?: string
           notes?: string | null
+          program_day?: number | null
+          program_id?: string | null
+          program_week?: number | null
+          title?: string | null
           user_id: string
-          workout_id: string
+          workout_id?: string | null
         }
         Update: {
           completed_at?: string
@@ -85,10 +93,21 @@ export type Database = {
           duration?: number
           id?: string
           notes?: string | null
+          program_day?: number | null
+          program_id?: string | null
+          program_week?: number | null
+          title?: string | null
           user_id?: string
-          workout_id?: string
+          workout_id?: string | null
         }
         Relationships: [
+          {
+            foreignKeyName: "completed_workouts_program_id_fkey"
+            columns: ["program_id"]
+            isOneToOne: false
+            referencedRelation: "programs"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "completed_workouts_workout_id_fkey"
             columns: ["workout_id"]
@@ -113,6 +132,36 @@ export type Database = {
         }
         Relationships: []
       }
+      equipment_profiles: {
+        Row: {
+          created_at: string
+          equipment_ids: number[]
+          id: string
+          is_default: boolean
+          name: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          equipment_ids?: number[]
+          id?: string
+          is_default?: boolean
+          name: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          equipment_ids?: number[]
+          id?: string
+          is_default?: boolean
+          name?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       exercise_equipment: {
         Row: {
           equipment_id: number
@@ -147,14 +196,17 @@ export type Database = {
         Row: {
           exercise_id: string
           muscle_id: number
+          role: string
         }
         Insert: {
           exercise_id: string
           muscle_id: number
+          role?: string
         }
         Update: {
           exercise_id?: string
           muscle_id?: number
+          role?: string
         }
         Relationships: [
           {
@@ -175,72 +227,166 @@ export type Database = {
       }
       exercise_templates: {
         Row: {
+          aliases: string[]
           created_at: string
           description: string
           exercise_base: number | null
           id: string
+          instructions: string | null
           media_url: string | null
+          movement_pattern: string | null
           name: string
           target_muscle: string | null
+          tracking_type: string
+          user_id: string | null
         }
         Insert: {
+          aliases?: string[]
           created_at?: string
           description: string
           exercise_base?: number | null
           id?: string
+          instructions?: string | null
           media_url?: string | null
+          movement_pattern?: string | null
           name: string
           target_muscle?: string | null
+          tracking_type?: string
+          user_id?: string | null
         }
         Update: {
+          aliases?: string[]
           created_at?: string
           description?: string
           exercise_base?: number | null
           id?: string
+          instructions?: string | null
           media_url?: string | null
+          movement_pattern?: string | null
           name?: string
           target_muscle?: string | null
+          tracking_type?: string
+          user_id?: string | null
         }
         Relationships: []
       }
       exercises: {
         Row: {
+          deload_after: number | null
+          deload_percent: number | null
+          distance_meters: number | null
+          drop_sets: number
+          duration_seconds: number | null
+          failed_sessions: number
+          group_id: string | null
+          group_rounds: number | null
+          group_type: string | null
           id: string
+          interval_mode: string | null
+          interval_rest: number | null
+          interval_rounds: number | null
+          interval_sequence: Json | null
+          interval_work: number | null
+          last_progressed_session_id: string | null
+          last_set_to_failure: boolean
           name: string
           notes: string | null
           order: number | null
+          progression_increment: number | null
+          progression_type: string
+          rep_range_max: number | null
+          rep_range_min: number | null
           reps: number
           rest_time: number | null
           sets: number
           template_id: string | null
+          tracking_type: string
+          training_max: number | null
+          training_max_percent: number | null
+          warmup_sets: number
           weight: number | null
           workout_id: string
         }
         Insert: {
+          deload_after?: number | null
+          deload_percent?: number | null
+          distance_meters?: number | null
+          drop_sets?: number
+          duration_seconds?: number | null
+          failed_sessions?: number
+          group_id?: string | null
+          group_rounds?: number | null
+          group_type?: string | null
           id?: string
+          interval_mode?: string | null
+          interval_rest?: number | null
+          interval_rounds?: number | null
+          interval_sequence?: Json | null
+          interval_work?: number | null
+          last_progressed_session_id?: string | null
+          last_set_to_failure?: boolean
           name: string
           notes?: string | null
           order?: number | null
+          progression_increment?: number | null
+          progression_type?: string
+          rep_range_max?: number | null
+          rep_range_min?: number | null
           reps: number
           rest_time?: number | null
           sets: number
           template_id?: string | null
+          tracking_type?: string
+          training_max?: number | null
+          training_max_percent?: number | null
+          warmup_sets?: number
           weight?: number | null
           workout_id: string
         }
         Update: {
+          deload_after?: number | null
+          deload_percent?: number | null
+          distance_meters?: number | null
+          drop_sets?: number
+          duration_seconds?: number | null
+          failed_sessions?: number
+          group_id?: string | null
+          group_rounds?: number | null
+          group_type?: string | null
           id?: string
+          interval_mode?: string | null
+          interval_rest?: number | null
+          interval_rounds?: number | null
+          interval_sequence?: Json | null
+          interval_work?: number | null
+          last_progressed_session_id?: string | null
+          last_set_to_failure?: boolean
           name?: string
           notes?: string | null
           order?: number | null
+          progression_increment?: number | null
+          progression_type?: string
+          rep_range_max?: number | null
+          rep_range_min?: number | null
           reps?: number
           rest_time?: number | null
           sets?: number
           template_id?: string | null
+          tracking_type?: string
+          training_max?: number | null
+          training_max_percent?: number | null
+          warmup_sets?: number
           weight?: number | null
           workout_id?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "exercises_last_progressed_session_id_fkey"
+            columns: ["last_progressed_session_id"]
+            isOneToOne: false
+            referencedRelation: "completed_workouts"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "exercises_template_id_fkey"
             columns: ["template_id"]
@@ -303,15 +449,24 @@ export type Database = {
       }
       muscles: {
         Row: {
+          display_names: Json
           id: number
+          latin_name: string | null
+          muscle_groups: string[]
           name: string
         }
         Insert: {
+          display_names?: Json
           id?: number
+          latin_name?: string | null
+          muscle_groups?: string[]
           name: string
         }
         Update: {
+          display_names?: Json
           id?: number
+          latin_name?: string | null
+          muscle_groups?: string[]
           name?: string
         }
         Relationships: []
@@ -356,70 +511,285 @@ export type Database = {
         Row: {
           age: number | null
           avatar_url: string | null
+          bar_weight: number
           bio: string | null
           daily_calories: number | null
           full_name: string | null
           height: number | null
+          height_unit: string
           hour_goal: number | null
           id: string
           p2f_enabled: boolean | null
           p2f_weight: number | null
+          plate_inventory: Json
           status: string | null
           updated_at: string
           username: string | null
+          weight_unit: string
+          workout_cues: Json
           workout_goal: number | null
         }
         Insert: {
           age?: number | null
           avatar_url?: string | null
+          bar_weight?: number
           bio?: string | null
           daily_calories?: number | null
           full_name?: string | null
           height?: number | null
+          height_unit?: string
           hour_goal?: number | null
           id: string
           p2f_enabled?: boolean | null
           p2f_weight?: number | null
+          plate_inventory?: Json
           status?: string | null
           updated_at?: string
           username?: string | null
+          weight_unit?: string
+          workout_cues?: Json
           workout_goal?: number | null
         }
         Update: {
           age?: number | null
           avatar_url?: string | null
+          bar_weight?: number
           bio?: string | null
           daily_calories?: number | null
           full_name?: string | null
           height?: number | null
+          height_unit?: string
           hour_goal?: number | null
           id?: string
           p2f_enabled?: boolean | null
           p2f_weight?: number | null
+          plate_inventory?: Json
           status?: string | null
           updated_at?: string
           username?: string | null
+          weight_unit?: string
+          workout_cues?: Json
           workout_goal?: number | null
         }
         Relationships: []
       }
+      programs: {
+        Row: {
+          completed_at: string | null
+          created_at: string
+          current_day: number
+          current_week: number
+          days: Json
+          description: string | null
+          id: string
+          is_active: boolean
+          name: string
+          started_at: string | null
+          updated_at: string
+          user_id: string
+          weeks: Json
+        }
+        Insert: {
+          completed_at?: string | null
+          created_at?: string
+          current_day?: number
+          current_week?: number
+          days?: Json
+          description?: string | null
+          id?: string
+          is_active?: boolean
+          name: string
+          started_at?: string | null
+          updated_at?: string
+          user_id: string
+          weeks?: Json
+        }
+        Update: {
+          completed_at?: string | null
+          created_at?: string
+          current_day?: number
+          current_week?: number
+          days?: Json
+          description?: string | null
+          id?: string
+          is_active?: boolean
+          name?: string
+          started_at?: string | null
+          updated_at?: string
+          user_id?: string
+          weeks?: Json
+        }
+        Relationships: []
+      }
       rest_timers: {
         Row: {
+          amrap_rounds: number
           created_at: string | null
-          end_time: string
+          current_exercise_index: number
+          current_set_index: number
+          end_time: string | null
+          exercises: Json | null
           id: string
+          interval_step_index: number
+          is_interval_active: boolean
+          is_paused: boolean
+          is_resting: boolean
+          logged_sets: Json
+          rest_remaining: number
+          started_at: string | null
+          updated_at: string
           user_id: string
+          workout_id: string | null
+          workout_notes: string | null
+          workout_title: string | null
         }
         Insert: {
+          amrap_rounds?: number
           created_at?: string | null
-          end_time: string
+          current_exercise_index?: number
+          current_set_index?: number
+          end_time?: string | null
+          exercises?: Json | null
           id?: string
+          interval_step_index?: number
+          is_interval_active?: boolean
+          is_paused?: boolean
+          is_resting?: boolean
+          logged_sets?: Json
+          rest_remaining?: number
+          started_at?: string | null
+          updated_at?: string
           user_id: string
+          workout_id?: string | null
+          workout_notes?: string | null
+          workout_title?: string | null
         }
         Update: {
+          amrap_rounds?: number
           created_at?: string | null
-          end_time?: string
+          current_exercise_index?: number
+          current_set_index?: number
+          end_time?: string | null
+          exercises?: Json | null
+          id?: string
+          interval_step_index?: number
+          is_interval_active?: boolean
+          is_paused?: boolean
+          is_resting?: boolean
+          logged_sets?: Json
+          rest_remaining?: number
+          started_at?: string | null
+          updated_at?: string
+          user_id?: string
+          workout_id?: string | null
+          workout_notes?: string | null
+          workout_title?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "rest_timers_workout_id_fkey"
+            columns: ["workout_id"]
+            isOneToOne: false
+            referencedRelation: "workouts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      set_logs: {
+        Row: {
+          completed_at: string
+          completed_workout_id: string
+          created_at: string
+          distance_meters: number | null
+          duration_seconds: number | null
+          exercise_id: string | null
+          exercise_name: string
+          id: string
+          reps: number
+          rir: number | null
+          rpe: number | null
+          set_number: number
+          set_type: string
+          user_id: string
+          weight: number | null
+        }
+        Insert: {
+          completed_at?: string
+          completed_workout_id: string
+          created_at?: string
+          distance_meters?: number | null
+          duration_seconds?: number | null
+          exercise_id?: string | null
+          exercise_name: string
           id?: string
+          reps: number
+          rir?: number | null
+          rpe?: number | null
+          set_number: number
+          set_type?: string
+          user_id: string
+          weight?: number | null
+        }
+        Update: {
+          completed_at?: string
+          completed_workout_id?: string
+          created_at?: string
+          distance_meters?: number | null
+          duration_seconds?: number | null
+          exercise_id?: string | null
+          exercise_name?: string
+          id?: string
+          reps?: number
+          rir?: number | null
+          rpe?: number | null
+          set_number?: number
+          set_type?: string
+          user_id?: string
+          weight?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "set_logs_completed_workout_id_fkey"
+            columns: ["completed_workout_id"]
+            isOneToOne: false
+            referencedRelation: "completed_workouts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "set_logs_exercise_id_fkey"
+            columns: ["exercise_id"]
+            isOneToOne: false
+            referencedRelation: "exercises"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      training_schedules: {
+        Row: {
+          created_at: string
+          id: string
+          mode: string
+          slots: Json
+          start_date: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          mode?: string
+          slots?: Json
+          start_date?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          mode?: string
+          slots?: Json
+          start_date?: string
+          updated_at?: string
           user_id?: string
         }
         Relationships: []
@@ -533,6 +903,12 @@ export type Database = {
           permissions: string[]
         }[]
       }
+      delete_completed_session: {
+        Args: {
+          session_id: string
+        }
+        Returns: undefined
+      }
       generate_api_key: {
         Args: Record<PropertyKey, never>
         Returns: string
@@ -548,6 +924,10 @@ export type Database = {
           completed_at: string
         }[]
       }
+      get_logged_exercise_names: {
+        Args: Record<PropertyKey, never>
+        Returns: string[]
+      }
       get_trained_muscles_since: {
         Args: {
           start_date: string
@@ -556,6 +936,13 @@ export type Database = {
           muscle_name: string
         }[]
       }
+      merge_exercises: {
+        Args: {
+          source_name: string
+          target_template_id: string
+        }
+        Returns: undefined
+      }
       record_completed_workout: {
         Args: {
           workout_id_param: string
@@ -563,6 +950,14 @@ export type Database = {
         }
         Returns: undefined
       }
+      update_completed_session: {
+        Args: {
+          session_id: string
+          session: Json
+          sets: Json
+        }
+        Returns: undefined
+      }
       verify_api_key: {
         Args: {
           api_key_param: string
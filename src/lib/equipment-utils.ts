@@ -0,0 +1,69 @@
+import { GeneratorCandidate } from "@/lib/workout-generator";
+
+export type EquipmentPreset = {
+  name: string;
+  // Words matched against equipment names; null means every piece of equipment
+  keywords: string[] | null;
+};
+
+export type Substitute = {
+  candidate: GeneratorCandidate;
+  // Share of muscles the two exercises have in common, from 0 to 1
+  overlap: number;
+};
+
+export const EQUIPMENT_PROFILE_PRESETS: EquipmentPreset[] = [
+  { name: "Home gym", keywords: ["barbell", "dumbbell", "bench", "pull-up", "mat", "bodyweight", "kettlebell"] },
+  { name: "Commercial gym", keywords: null },
+  { name: "Hotel", keywords: ["dumbbell", "mat", "bodyweight", "swiss ball"] },
+];
+
+export const MAX_SUBSTITUTES = 8;
+
+/**
+ * The equipment a preset profile starts with
+ * @param preset The preset
+ * @param equipment The equipment catalogue
+ * @returns Ids of the matching equipment
+ */
+export const getPresetEquipmentIds = (preset: EquipmentPreset, equipment: { id: number; name: string }[]): number[] =>
+  equipment
+    .filter(item => !preset.keywords || preset.keywords.some(keyword => item.name.toLowerCase().includes(keyword)))
+    .map(item => item.id);
+
+const normalizeName = (name: string) => name.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+/**
+ * Alternatives for an exercise that train the same muscles with the given equipment
+ * @param exercise The exercise to replace, matched to the catalogue by template id or name
+ * @param candidates Catalogue exercises with their equipment and muscles
+ * @param equipmentIds Equipment that is available
+ * @returns Alternatives, closest muscle match first; empty when the exercise is not in the catalogue
+ */
+export const findSubstitutes = (
+  exercise: { name: string; template_id?: string | null; tracking_type?: string | null },
+  candidates: GeneratorCandidate[],
+  equipmentIds: number[]
+): Substitute[] => {
+  const current = candidates.find(candidate => candidate.id === exercise.template_id)
+    ?? candidates.find(candidate => normalizeName(candidate.name) === normalizeName(exercise.name));
+  if (!current || current.muscleIds.length === 0) return [];
+
+  const available = new Set(equipmentIds);
+  const trackingType = exercise.tracking_type || current.tracking_type;
+
+  return candidates
+    .filter(candidate =>
+      candidate.id !== current.id &&
+      candidate.tracking_type === trackingType &&
+      candidate.equipmentIds.every(id => available.has(id))
+    )
+    .map(candidate => {
+      const shared = candidate.muscleIds.filter(id => current.muscleIds.includes(id)).length;
+      const union = new Set([...candidate.muscleIds, ...current.muscleIds]).size;
+      return { candidate, overlap: union ? shared / union : 0 };
+    })
+    .filter(substitute => substitute.overlap > 0)
+    .sort((a, b) => b.overlap - a.overlap || a.candidate.name.localeCompare(b.candidate.name))
+    .slice(0, MAX_SUBSTITUTES);
+};
@@ -0,0 +1,170 @@
+import { v4 as uuidv4 } from "uuid";
+import { ExerciseGroupType } from "@/types/workout";
+import { getTotalSets } from "@/lib/set-types";
+
+export type GroupableExercise = {
+  sets: number;
+  group_id?: string | null;
+  group_type?: ExerciseGroupType | null;
+  group_rounds?: number | null;
+  warmup_sets?: number | null;
+  drop_sets?: number | null;
+};
+
+export type PlayerPosition = {
+  exerciseIndex: number;
+  setIndex: number;
+};
+
+export const GROUP_TYPE_LABELS: Record<ExerciseGroupType, string> = {
+  superset: "Superset",
+  circuit: "Circuit",
+  giant_set: "Giant set",
+};
+
+/**
+ * Finds the first and last index of the group an exercise belongs to
+ * @param exercises Ordered exercises of a routine
+ * @param index Index of the exercise
+ * @returns Inclusive start and end index; both equal index for ungrouped exercises
+ */
+export const getGroupRange = (exercises: GroupableExercise[], index: number): [number, number] => {
+  const groupId = exercises[index]?.group_id;
+  if (!groupId) return [index, index];
+
+  let start = index;
+  let end = index;
+  while (start > 0 && exercises[start - 1].group_id === groupId) start--;
+  while (end < exercises.length - 1 && exercises[end + 1].group_id === groupId) end++;
+
+  return [start, end];
+};
+
+/**
+ * Number of sets to perform for an exercise, using the group's rounds when grouped
+ * and counting warm-up and drop sets otherwise
+ */
+export const getSetCount = (exercises: GroupableExercise[], index: number): number => {
+  const exercise = exercises[index];
+  if (!exercise) return 0;
+  return exercise.group_id && exercise.group_rounds ? exercise.group_rounds : getTotalSets(exercise);
+};
+
+/**
+ * Works out where the player goes after the current set. Grouped exercises
+ * alternate one set at a time and repeat for each round.
+ * @param exercises Ordered exercises of a routine
+ * @param position The set that was just completed
+ * @returns The next set, or null when the workout is finished
+ */
+export const getNextPosition = (exercises: GroupableExercise[], position: PlayerPosition): PlayerPosition | null => {
+  const { exerciseIndex, setIndex } = position;
+  const [start, end] = getGroupRange(exercises, exerciseIndex);
+
+  if (start !== end) {
+    if (exerciseIndex < end) {
+      return { exerciseIndex: exerciseIndex + 1, setIndex };
+    }
+    if (setIndex < getSetCount(exercises, start) - 1) {
+      return { exerciseIndex: start, setIndex: setIndex + 1 };
+    }
+  } else if (setIndex < getSetCount(exercises, exerciseIndex) - 1) {
+    return { exerciseIndex, setIndex: setIndex + 1 };
+  }
+
+  return end < exercises.length - 1 ? { exerciseIndex: end + 1, setIndex: 0 } : null;
+};
+
+/**
+ * Grouped exercises are performed back to back, so rest only follows the
+ * last exercise of a group
+ */
+export const shouldRestAfter = (exercises: GroupableExercise[], exerciseIndex: number): boolean => {
+  const [, end] = getGroupRange(exercises, exerciseIndex);
+  return exerciseIndex === end;
+};
+
+const defaultGroupType = (size: number): ExerciseGroupType => size > 2 ? "giant_set" : "superset";
+
+/**
+ * Drops groups that are left with a single exercise or were split apart,
+ * keeping only the first contiguous run of each group
+ */
+export const normalizeGroups = <T extends GroupableExercise>(exercises: T[]): T[] => {
+  const seen = new Set<string>();
+  const result = exercises.map(exercise => ({ ...exercise }));
+
+  let index = 0;
+  while (index < result.length) {
+    const groupId = result[index].group_id;
+    if (!groupId) {
+      index++;
+      continue;
+    }
+
+    const [, end] = getGroupRange(result, index);
+    const size = end - index + 1;
+    if (seen.has(groupId) || size < 2) {
+      for (let i = index; i <= end; i++) {
+        result[i] = { ...result[i], group_id: null, group_type: null, group_rounds: null };
+      }
+    }
+    seen.add(groupId);
+    index = end + 1;
+  }
+
+  return result;
+};
+
+/**
+ * Groups an exercise with the one after it, merging any existing groups
+ */
+export const linkWithNext = <T extends GroupableExercise>(exercises: T[], index: number): T[] => {
+  if (index >= exercises.length - 1) return exercises;
+
+  const current = exercises[index];
+  const next = exercises[index + 1];
+  const groupId = current.group_id || next.group_id || uuidv4();
+  const [start] = getGroupRange(exercises, index);
+  const [, end] = getGroupRange(exercises, index + 1);
+  const rounds = current.group_rounds || next.group_rounds ||
+    Math.max(...exercises.slice(start, end + 1).map(exercise => exercise.sets));
+  const groupType = current.group_type || next.group_type || defaultGroupType(end - start + 1);
+
+  return exercises.map((exercise, i) => i >= start && i <= end
+    ? { ...exercise, group_id: groupId, group_type: groupType, group_rounds: rounds, sets: rounds }
+    : exercise
+  );
+};
+
+/**
+ * Splits a group between an exercise and the one after it
+ */
+export const unlinkFromNext = <T extends GroupableExercise>(exercises: T[], index: number): T[] => {
+  const groupId = exercises[index]?.group_id;
+  if (!groupId || exercises[index + 1]?.group_id !== groupId) return exercises;
+
+  const [, end] = getGroupRange(exercises, index);
+  const newGroupId = uuidv4();
+
+  return normalizeGroups(exercises.map((exercise, i) => i > index && i <= end
+    ? { ...exercise, group_id: newGroupId }
+    : exercise
+  ));
+};
+
+/**
+ * Updates the type or round count shared by every exercise in a group
+ */
+export const updateGroup = <T extends GroupableExercise>(
+  exercises: T[],
+  groupId: string,
+  changes: { group_type?: ExerciseGroupType; group_rounds?: number }
+): T[] => exercises.map(exercise => exercise.group_id === groupId
+  ? {
+      ...exercise,
+      ...changes,
+      ...(changes.group_rounds ? { sets: changes.group_rounds } : {})
+    }
+  : exercise
+);
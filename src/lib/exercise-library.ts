@@ -0,0 +1,168 @@
+import { ExerciseTemplate, MovementPattern } from "@/types/workout";
+import { getMuscleDisplayName } from "@/lib/muscle-utils";
+
+export const MOVEMENT_PATTERN_LABELS: Record<MovementPattern, string> = {
+  squat: "Squat",
+  hinge: "Hinge",
+  lunge: "Lunge",
+  horizontal_push: "Horizontal push",
+  vertical_push: "Vertical push",
+  horizontal_pull: "Horizontal pull",
+  vertical_pull: "Vertical pull",
+  carry: "Carry",
+  core: "Core",
+  isolation: "Isolation",
+  cardio: "Cardio",
+};
+
+export type ExerciseFilters = {
+  muscleId?: number | null;
+  equipmentId?: number | null;
+  movementPattern?: MovementPattern | null;
+};
+
+export type ExerciseSearchResult = {
+  template: ExerciseTemplate;
+  score: number;
+  // The alias the query matched, when it matched one better than the name
+  matchedAlias: string | null;
+};
+
+const normalize = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+
+/**
+ * Number of single-letter edits that turn one string into the other
+ */
+export const editDistance = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+/**
+ * Scores how well a search query matches a name
+ * @param query What the user typed
+ * @param text An exercise name, alias or muscle
+ * @returns 0 for no match, up to 100 for an exact match. Typos are
+ * tolerated at one per four letters of each query word.
+ */
+export const scoreMatch = (query: string, text: string): number => {
+  const q = normalize(query);
+  const t = normalize(text);
+  if (!q || !t) return 0;
+
+  if (t === q) return 100;
+  if (t.startsWith(q)) return 80;
+
+  const words = t.split(" ");
+  if (words.some(word => word.startsWith(q))) return 70;
+  if (t.includes(q)) return 60;
+
+  // "rd" for "Romanian Deadlift"
+  if (q.length > 1 && !q.includes(" ") && words.map(word => word[0]).join("") === q) return 55;
+
+  const typoMatch = q.split(" ").every(queryWord => {
+    const allowed = Math.floor(queryWord.length / 4);
+    return allowed > 0 && words.some(word => editDistance(queryWord, word.slice(0, queryWord.length)) <= allowed);
+  });
+  return typoMatch ? 40 : 0;
+};
+
+/**
+ * Whether a template passes the muscle, equipment and movement pattern filters
+ */
+export const matchesFilters = (template: ExerciseTemplate, filters: ExerciseFilters): boolean =>
+  (!filters.muscleId || (template.muscles || []).some(link => link.muscle.id === filters.muscleId)) &&
+  (!filters.equipmentId || (template.equipment_ids || []).includes(filters.equipmentId)) &&
+  (!filters.movementPattern || template.movement_pattern === filters.movementPattern);
+
+/**
+ * Scores a template against a query by its name, aliases and muscles.
+ * Muscle matches rank below name matches so "biceps" lists curls after "Biceps Curl".
+ */
+export const scoreExercise = (template: ExerciseTemplate, query: string): ExerciseSearchResult => {
+  const nameScore = scoreMatch(query, template.name);
+  let matchedAlias: string | null = null;
+  let aliasScore = 0;
+  for (const alias of template.aliases || []) {
+    // Slightly below the same match on the name itself
+    const score = scoreMatch(query, alias) - 1;
+    if (score > aliasScore) {
+      aliasScore = score;
+      matchedAlias = alias;
+    }
+  }
+
+  const muscleNames = template.muscles?.length
+    ? template.muscles.map(link => getMuscleDisplayName(link.muscle))
+    : (template.target_muscle || "").split(",");
+  const muscleScore = Math.max(0, ...muscleNames.map(name => scoreMatch(query, name) / 2));
+
+  return {
+    template,
+    score: Math.max(nameScore, aliasScore, muscleScore),
+    matchedAlias: aliasScore > nameScore ? matchedAlias : null,
+  };
+};
+
+/**
+ * Filters templates and ranks them against a search query
+ * @param templates The exercise catalogue
+ * @param query What the user typed; empty keeps every template that passes the filters
+ * @param filters Muscle, equipment and movement pattern to narrow down to
+ * @returns Matches, best first, then by name
+ */
+export const searchExercises = (
+  templates: ExerciseTemplate[],
+  query: string,
+  filters: ExerciseFilters = {}
+): ExerciseSearchResult[] => {
+  const filtered = templates.filter(template => matchesFilters(template, filters));
+
+  if (!normalize(query)) {
+    return filtered.map(template => ({ template, score: 0, matchedAlias: null }));
+  }
+
+  return filtered
+    .map(template => scoreExercise(template, query))
+    .filter(result => result.score > 0)
+    .sort((a, b) => b.score - a.score || a.template.name.localeCompare(b.template.name));
+};
+
+// Below this score a differently named template is not suggested as the same exercise
+const MERGE_SUGGESTION_MIN_SCORE = 40;
+
+/**
+ * Finds the template a differently spelled exercise name most likely refers to
+ * @param name A logged or custom exercise name
+ * @param templates Templates it could be merged into
+ * @returns The best match, or null when nothing is close or the name already is a template
+ */
+export const suggestMergeTarget = (name: string, templates: ExerciseTemplate[]): ExerciseTemplate | null => {
+  if (templates.some(template => normalize(template.name) === normalize(name))) return null;
+
+  // Only names and aliases count; sharing a muscle doesn't make two exercises the same
+  let best: ExerciseTemplate | null = null;
+  let bestScore = MERGE_SUGGESTION_MIN_SCORE - 1;
+  for (const template of templates) {
+    const score = Math.max(
+      scoreMatch(name, template.name),
+      ...(template.aliases || []).map(alias => scoreMatch(name, alias))
+    );
+    if (score > bestScore) {
+      best = template;
+      bestScore = score;
+    }
+  }
+  return best;
+};
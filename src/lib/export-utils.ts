@@ -2,10 +2,17 @@
 import { jsPDF } from "jspdf";
 import "jspdf-autotable";
 import { format, isSameDay, isWithinInterval, differenceInDays, addDays, endOfWeek, startOfWeek } from "date-fns";
+import { formatDuration } from "@/lib/tracking-utils";
+import { SET_TYPE_LABELS } from "@/lib/set-types";
+import { toDisplayWeight } from "@/lib/units";
+import { SetType, WeightUnit } from "@/types/workout";
 
 // Types for export functionality
 export type ExportOptions = {
   includeNotes?: boolean;
+  includeSets?: boolean;
+  // Unit for exported weights; stored values are converted from kg
+  weightUnit?: WeightUnit;
   dateRange?: {
     start: Date;
     end: Date;
@@ -20,6 +27,20 @@ export type WorkoutExportData = {
   exercise_count?: number;
 };
 
+export type SetExportData = {
+  workout_title: string;
+  completed_at: string;
+  exercise_name: string;
+  set_number: number;
+  reps: number;
+  weight: number | null;
+  duration_seconds?: number | null;
+  distance_meters?: number | null;
+  set_type?: string | null;
+  rpe?: number | null;
+  rir?: number | null;
+};
+
 // CSV Export functions
 export const exportToCSV = (data: any[], filename: string) => {
   // Convert data to CSV format
@@ -98,6 +119,24 @@ export const prepareWorkoutDataForExport = async (
   });
 };
 
+// One row per logged set; reps, time and distance are left blank when not tracked
+export const prepareSetDataForExport = (sets: SetExportData[], options: ExportOptions = {}) => {
+  const weightUnit = options.weightUnit || "kg";
+  return sets.map((set) => ({
+    Workout: set.workout_title,
+    Date: format(new Date(set.completed_at), "PP"),
+    Exercise: set.exercise_name,
+    Set: set.set_number,
+    Type: set.set_type ? SET_TYPE_LABELS[set.set_type as SetType] ?? set.set_type : "",
+    Reps: set.reps || "",
+    [`Weight (${weightUnit})`]: toDisplayWeight(set.weight, weightUnit) ?? "",
+    Time: set.duration_seconds ? formatDuration(set.duration_seconds) : "",
+    "Distance (m)": set.distance_meters ?? "",
+    RPE: set.rpe ?? "",
+    RIR: set.rir ?? "",
+  }));
+};
+
 // Streak calculation functions
 export const calculateCurrentStreak = (completedWorkouts: { completed_at: string }[]): number => {
   if (!completedWorkouts || completedWorkouts.length === 0) return 0;
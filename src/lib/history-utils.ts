@@ -0,0 +1,166 @@
+import { ExerciseSessionHistory, LoggedSet, TrackingType } from "@/types/workout";
+import { isWorkingSet } from "@/lib/set-types";
+
+export type LoggedSetRow = {
+  completed_workout_id: string;
+  reps: number;
+  weight: number | null;
+  duration_seconds?: number | null;
+  distance_meters?: number | null;
+  set_type?: string | null;
+  completed_workouts: {
+    completed_at: string;
+    // Set for free-form sessions, which have no routine
+    title?: string | null;
+    workouts: { title: string } | null;
+  } | null;
+};
+
+/**
+ * Collapses individual set logs into one summary per completed session.
+ * Warm-up sets are left out so they don't inflate volume or the top set.
+ * @param rows Set logs for a single exercise
+ * @returns Session summaries ordered from oldest to newest
+ */
+export const summarizeExerciseSessions = (rows: LoggedSetRow[]): ExerciseSessionHistory[] => {
+  const sessions = new Map<string, ExerciseSessionHistory>();
+
+  for (const row of rows.filter(isWorkingSet)) {
+    const weight = row.weight || 0;
+    let session = sessions.get(row.completed_workout_id);
+
+    if (!session) {
+      session = {
+        completed_workout_id: row.completed_workout_id,
+        completed_at: row.completed_workouts?.completed_at || "",
+        workout_title: row.completed_workouts?.workouts?.title || row.completed_workouts?.title || "Unknown Workout",
+        sets: 0,
+        total_reps: 0,
+        top_set_weight: 0,
+        top_set_reps: 0,
+        volume: 0,
+        total_duration: 0,
+        total_distance: 0,
+      };
+      sessions.set(row.completed_workout_id, session);
+    }
+
+    session.sets += 1;
+    session.total_reps += row.reps;
+    session.volume += weight * row.reps;
+    session.total_duration += row.duration_seconds || 0;
+    session.total_distance += Number(row.distance_meters) || 0;
+
+    // The top set is the heaviest one, with more reps breaking ties
+    if (
+      weight > session.top_set_weight ||
+      (weight === session.top_set_weight && row.reps > session.top_set_reps)
+    ) {
+      session.top_set_weight = weight;
+      session.top_set_reps = row.reps;
+    }
+  }
+
+  return Array.from(sessions.values()).sort(
+    (a, b) => new Date(a.completed_at).getTime() - new Date(b.completed_at).getTime()
+  );
+};
+
+export type SessionExerciseEntry = {
+  name: string;
+  exercise_id: string | null;
+  tracking_type: TrackingType;
+  sets: LoggedSet[];
+};
+
+const inferTrackingType = (sets: LoggedSet[]): TrackingType => {
+  const timed = sets.some(set => set.duration_seconds);
+  const distance = sets.some(set => set.distance_meters);
+  if (timed && distance) return "time_distance";
+  if (timed) return "time";
+  return distance ? "distance" : "reps";
+};
+
+/**
+ * Groups a session's logged sets by exercise, in the order the exercises were first done
+ */
+export const groupSetsByExercise = (sets: LoggedSet[]): SessionExerciseEntry[] => {
+  const exercises = new Map<string, LoggedSet[]>();
+  for (const set of sets) {
+    exercises.set(set.exercise_name, [...(exercises.get(set.exercise_name) || []), set]);
+  }
+
+  return Array.from(exercises.entries()).map(([name, exerciseSets]) => ({
+    name,
+    exercise_id: exerciseSets[0].exercise_id,
+    tracking_type: inferTrackingType(exerciseSets),
+    sets: [...exerciseSets].sort((a, b) => a.set_number - b.set_number),
+  }));
+};
+
+/**
+ * Turns edited exercises back into the session's set logs, numbering sets
+ * from one and moving them along when the session's date changed
+ * @param exercises Exercises with their sets, as edited
+ * @param completedAt When the session was done
+ * @param previousCompletedAt When the session was recorded before the edit, if it existed
+ * @returns Set logs ready to store
+ */
+export const flattenSessionExercises = (
+  exercises: SessionExerciseEntry[],
+  completedAt: string,
+  previousCompletedAt?: string | null
+): LoggedSet[] => {
+  const shift = previousCompletedAt
+    ? new Date(completedAt).getTime() - new Date(previousCompletedAt).getTime()
+    : 0;
+
+  return exercises.flatMap(exercise => exercise.sets.map((set, index) => ({
+    ...set,
+    exercise_id: exercise.exercise_id,
+    exercise_name: exercise.name,
+    set_number: index + 1,
+    completed_at: set.completed_at && previousCompletedAt
+      ? new Date(new Date(set.completed_at).getTime() + shift).toISOString()
+      : completedAt,
+  })));
+};
+
+export type ComparedSession = {
+  id: string;
+  completed_at: string;
+  workout_title: string;
+  sets: LoggedSet[];
+};
+
+export type SessionComparisonRow = {
+  exercise_name: string;
+  // One summary per compared session, in the same order; null where the exercise wasn't done
+  sessions: (ExerciseSessionHistory | null)[];
+};
+
+/**
+ * Lines up what was done for each exercise across several sessions
+ * @param sessions Sessions to compare, oldest first
+ * @returns One row per exercise, in the order of the latest session that
+ * has it, so a routine's exercises keep their usual order
+ */
+export const compareSessions = (sessions: ComparedSession[]): SessionComparisonRow[] => {
+  const summaries = sessions.map(session => new Map(
+    groupSetsByExercise(session.sets).map(exercise => [
+      exercise.name,
+      summarizeExerciseSessions(exercise.sets.map(set => ({
+        ...set,
+        completed_workout_id: session.id,
+        completed_workouts: { completed_at: session.completed_at, title: session.workout_title, workouts: null },
+      })))[0] || null,
+    ])
+  ));
+
+  const names = [...new Set([...summaries].reverse().flatMap(summary => [...summary.keys()]))];
+
+  return names.map(name => ({
+    exercise_name: name,
+    sessions: summaries.map(summary => summary.get(name) || null),
+  }));
+};
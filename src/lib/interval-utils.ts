@@ -0,0 +1,114 @@
+import { IntervalMode, IntervalSettings, IntervalStep } from "@/types/workout";
+import { formatDuration } from "@/lib/tracking-utils";
+
+export type TimedIntervalStep = IntervalStep & {
+  round: number;
+};
+
+export const INTERVAL_MODE_LABELS: Record<IntervalMode, string> = {
+  emom: "EMOM",
+  amrap: "AMRAP",
+  tabata: "Tabata",
+  custom: "Custom intervals",
+};
+
+export const INTERVAL_DEFAULTS: Record<IntervalMode, IntervalSettings> = {
+  emom: { interval_work: 60, interval_rest: null, interval_rounds: 10, interval_sequence: null },
+  amrap: { interval_work: 600, interval_rest: null, interval_rounds: 1, interval_sequence: null },
+  tabata: { interval_work: 20, interval_rest: 10, interval_rounds: 8, interval_sequence: null },
+  custom: {
+    interval_work: null,
+    interval_rest: null,
+    interval_rounds: 3,
+    interval_sequence: [
+      { label: "Work", seconds: 40, kind: "work" },
+      { label: "Rest", seconds: 20, kind: "rest" },
+    ],
+  },
+};
+
+/**
+ * Expands interval settings into the ordered list of timed steps to run
+ * @param settings The interval settings of an exercise
+ * @returns Steps in order, each tagged with its round; empty when no mode is set
+ */
+export const buildIntervalSteps = (settings: IntervalSettings): TimedIntervalStep[] => {
+  const mode = settings.interval_mode;
+  if (!mode) return [];
+
+  const defaults = INTERVAL_DEFAULTS[mode];
+  const work = settings.interval_work || defaults.interval_work || 0;
+  const rest = settings.interval_rest ?? defaults.interval_rest ?? 0;
+  const rounds = Math.max(1, settings.interval_rounds || defaults.interval_rounds || 1);
+  const steps: TimedIntervalStep[] = [];
+
+  switch (mode) {
+    case "amrap":
+      steps.push({ label: "AMRAP", seconds: work, kind: "work", round: 1 });
+      break;
+    case "emom":
+      for (let round = 1; round <= rounds; round++) {
+        steps.push({ label: "Work", seconds: work, kind: "work", round });
+      }
+      break;
+    case "tabata":
+      for (let round = 1; round <= rounds; round++) {
+        steps.push({ label: "Work", seconds: work, kind: "work", round });
+        // No point resting after the final round
+        if (rest > 0 && round < rounds) {
+          steps.push({ label: "Rest", seconds: rest, kind: "rest", round });
+        }
+      }
+      break;
+    case "custom": {
+      const sequence = (settings.interval_sequence || []).filter(step => step.seconds > 0);
+      for (let round = 1; round <= rounds; round++) {
+        sequence.forEach(step => steps.push({ ...step, round }));
+      }
+      break;
+    }
+  }
+
+  return steps.filter(step => step.seconds > 0);
+};
+
+/**
+ * Total running time of a list of interval steps
+ */
+export const totalIntervalSeconds = (steps: IntervalStep[]): number =>
+  steps.reduce((total, step) => total + step.seconds, 0);
+
+/**
+ * Time worked so far, counting only work steps
+ * @param steps The steps being run
+ * @param stepIndex Index of the current step
+ * @param remaining Seconds left on the current step
+ * @returns Seconds of work completed
+ */
+export const elapsedWorkSeconds = (steps: IntervalStep[], stepIndex: number, remaining: number): number =>
+  steps.reduce((total, step, index) => {
+    if (step.kind !== "work" || index > stepIndex) return total;
+    return total + (index === stepIndex ? step.seconds - remaining : step.seconds);
+  }, 0);
+
+/**
+ * Short summary of interval settings, e.g. "EMOM 10 × 1:00" or "Tabata 8 × 0:20/0:10"
+ */
+export const describeIntervals = (settings: IntervalSettings): string => {
+  const mode = settings.interval_mode;
+  if (!mode) return "";
+
+  const steps = buildIntervalSteps(settings);
+  const rounds = steps.length > 0 ? steps[steps.length - 1].round : 0;
+
+  switch (mode) {
+    case "amrap":
+      return `AMRAP ${formatDuration(steps[0]?.seconds)}`;
+    case "emom":
+      return `EMOM ${rounds} × ${formatDuration(steps[0]?.seconds)}`;
+    case "tabata":
+      return `Tabata ${rounds} × ${formatDuration(settings.interval_work)}/${formatDuration(settings.interval_rest)}`;
+    default:
+      return `${rounds} rounds · ${formatDuration(totalIntervalSeconds(steps))} total`;
+  }
+};
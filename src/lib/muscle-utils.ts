@@ -0,0 +1,91 @@
+import { Muscle, MuscleGroup, MuscleRole, TemplateMuscle } from "@/types/workout";
+
+export const MUSCLE_GROUPS: MuscleGroup[] = ["upper", "lower", "core", "push", "pull"];
+
+export const MUSCLE_GROUP_LABELS: Record<MuscleGroup, string> = {
+  upper: "Upper body",
+  lower: "Lower body",
+  core: "Core",
+  push: "Push",
+  pull: "Pull",
+};
+
+export const MUSCLE_ROLE_LABELS: Record<MuscleRole, string> = {
+  primary: "Primary",
+  secondary: "Secondary",
+};
+
+export const DEFAULT_LOCALE = "en";
+
+/**
+ * Reads stored display names, keeping only string values
+ */
+export const parseDisplayNames = (value: unknown): Record<string, string> => {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return {};
+  return Object.fromEntries(
+    Object.entries(value).filter((entry): entry is [string, string] => typeof entry[1] === "string" && entry[1] !== "")
+  );
+};
+
+/**
+ * Reads stored muscle groups, dropping unknown ones
+ */
+export const parseMuscleGroups = (value: unknown): MuscleGroup[] =>
+  Array.isArray(value) ? value.filter((group): group is MuscleGroup => MUSCLE_GROUPS.includes(group)) : [];
+
+/**
+ * Turns a stored muscle row into a muscle
+ */
+export const parseMuscle = (row: {
+  id: number;
+  name: string;
+  latin_name?: string | null;
+  display_names?: unknown;
+  muscle_groups?: unknown;
+}): Muscle => ({
+  id: row.id,
+  name: row.name,
+  latin_name: row.latin_name ?? null,
+  display_names: parseDisplayNames(row.display_names),
+  muscle_groups: parseMuscleGroups(row.muscle_groups),
+});
+
+/**
+ * Reads a template's muscle links as selected with `exercise_muscles (role, muscles (*))`
+ */
+export const parseTemplateMuscles = (value: unknown): TemplateMuscle[] => {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter(link => link?.muscles)
+    .map(link => ({
+      role: link.role === "secondary" ? "secondary" : "primary",
+      muscle: parseMuscle(link.muscles),
+    }));
+};
+
+/**
+ * A muscle's name in the user's language
+ * @param muscle The muscle
+ * @param locale A BCP 47 locale such as "de-AT"; defaults to the browser's
+ * @returns The name for the locale or its language, then English, then the catalogue name
+ */
+export const getMuscleDisplayName = (
+  muscle: Pick<Muscle, "name" | "display_names">,
+  locale: string = typeof navigator !== "undefined" ? navigator.language : DEFAULT_LOCALE
+): string => {
+  const names = muscle.display_names || {};
+  const language = locale.split("-")[0];
+  return names[locale] || names[language] || names[DEFAULT_LOCALE] || muscle.name;
+};
+
+/**
+ * Lists a template's muscles by display name, primary muscles first
+ * @param muscles The template's muscles
+ * @param role Only list muscles with this role
+ */
+export const formatTemplateMuscles = (muscles: TemplateMuscle[] | undefined, role?: MuscleRole): string =>
+  (muscles || [])
+    .filter(link => !role || link.role === role)
+    .sort((a, b) => (a.role === b.role ? 0 : a.role === "primary" ? -1 : 1))
+    .map(link => getMuscleDisplayName(link.muscle))
+    .join(", ");
@@ -0,0 +1,203 @@
+import { differenceInHours, format, subDays } from "date-fns";
+import { Muscle } from "@/types/workout";
+import { GeneratorCandidate } from "@/lib/workout-generator";
+import { isWorkingSet } from "@/lib/set-types";
+import { getMuscleDisplayName } from "@/lib/muscle-utils";
+
+export type BodyRegion =
+  | "chest" | "shoulders" | "biceps" | "triceps" | "forearms" | "abs" | "obliques"
+  | "traps" | "lats" | "lower_back" | "glutes" | "quads" | "hamstrings" | "calves";
+
+export type RecoveryStatus = "recovered" | "recovering" | "fatigued" | "neglected";
+
+export type MuscleSet = {
+  exercise_name: string;
+  template_id: string | null;
+  set_type?: string | null;
+  completed_at: string;
+};
+
+export type MuscleLoad = {
+  muscleId: number;
+  // Display name in the user's language
+  name: string;
+  region: BodyRegion | null;
+  weeklySets: number;
+  lastTrained: string | null;
+  // 0 just after training, 1 once fully recovered
+  recovery: number;
+  status: RecoveryStatus;
+};
+
+export type RegionLoad = {
+  region: BodyRegion;
+  weeklySets: number;
+  recovery: number;
+};
+
+export const BODY_REGION_LABELS: Record<BodyRegion, string> = {
+  chest: "Chest",
+  shoulders: "Shoulders",
+  biceps: "Biceps",
+  triceps: "Triceps",
+  forearms: "Forearms",
+  abs: "Abs",
+  obliques: "Obliques",
+  traps: "Traps",
+  lats: "Lats",
+  lower_back: "Lower back",
+  glutes: "Glutes",
+  quads: "Quads",
+  hamstrings: "Hamstrings",
+  calves: "Calves",
+};
+
+// Catalogue muscle names (Latin or English) and the body region they belong to
+const MUSCLE_REGIONS: Record<string, BodyRegion> = {
+  "pectoralis major": "chest",
+  "chest": "chest",
+  "anterior deltoid": "shoulders",
+  "deltoideus": "shoulders",
+  "shoulders": "shoulders",
+  "biceps brachii": "biceps",
+  "brachialis": "biceps",
+  "biceps": "biceps",
+  "triceps brachii": "triceps",
+  "triceps": "triceps",
+  "brachioradialis": "forearms",
+  "forearms": "forearms",
+  "rectus abdominis": "abs",
+  "abs": "abs",
+  "obliquus externus abdominis": "obliques",
+  "serratus anterior": "obliques",
+  "obliques": "obliques",
+  "trapezius": "traps",
+  "traps": "traps",
+  "latissimus dorsi": "lats",
+  "lats": "lats",
+  "erector spinae": "lower_back",
+  "lower back": "lower_back",
+  "gluteus maximus": "glutes",
+  "glutes": "glutes",
+  "quadriceps femoris": "quads",
+  "quads": "quads",
+  "biceps femoris": "hamstrings",
+  "hamstrings": "hamstrings",
+  "gastrocnemius": "calves",
+  "soleus": "calves",
+  "calves": "calves",
+};
+
+// Weekly working sets per muscle below which it counts as under-trained
+export const MIN_WEEKLY_SETS = 4;
+// Weekly working sets per muscle at which the heatmap is at full heat
+export const TARGET_WEEKLY_SETS = 15;
+// Days without a set before a muscle is flagged as neglected
+export const NEGLECTED_AFTER_DAYS = 7;
+
+// A set counts this much towards the volume of the muscles it only works as helpers
+export const SECONDARY_SET_WEIGHT = 0.5;
+
+/**
+ * The body region a catalogue muscle belongs to, by its Latin, catalogue or English name
+ */
+export const getMuscleRegion = (muscle: Pick<Muscle, "name" | "latin_name" | "display_names">): BodyRegion | null => {
+  const names = [muscle.latin_name, muscle.name, muscle.display_names?.en].filter(Boolean);
+  for (const name of names) {
+    const region = MUSCLE_REGIONS[name.trim().toLowerCase()];
+    if (region) return region;
+  }
+  return null;
+};
+
+/**
+ * Hours a muscle needs to recover from a day's training. A light day
+ * needs a day; every working set adds six hours, up to four days.
+ */
+export const recoveryHoursNeeded = (sets: number): number => Math.min(96, 24 + sets * 6);
+
+const normalizeName = (name: string) => name.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+/**
+ * Works out training volume and recovery per muscle
+ * @param sets Logged sets from at least the last week
+ * @param candidates Catalogue exercises with the muscles they train
+ * @param muscles The muscle catalogue
+ * @param now The current time
+ * @returns One entry per muscle, in catalogue order
+ */
+export const computeMuscleLoads = (
+  sets: MuscleSet[],
+  candidates: GeneratorCandidate[],
+  muscles: Muscle[],
+  now: Date = new Date()
+): MuscleLoad[] => {
+  const byId = new Map(candidates.map(candidate => [candidate.id, candidate]));
+  const byName = new Map(candidates.map(candidate => [normalizeName(candidate.name), candidate]));
+  const weekStart = subDays(now, 7);
+
+  const weekly = new Map<number, number>();
+  const last = new Map<number, string>();
+  // Sets per muscle per calendar day, to size the recovery after the last session
+  const daily = new Map<string, number>();
+
+  sets.filter(isWorkingSet).forEach(set => {
+    const exercise = (set.template_id && byId.get(set.template_id)) || byName.get(normalizeName(set.exercise_name));
+    if (!exercise) return;
+
+    const day = format(new Date(set.completed_at), "yyyy-MM-dd");
+    const worked = [
+      ...exercise.muscleIds.map(muscleId => ({ muscleId, share: 1 })),
+      ...exercise.secondaryMuscleIds.map(muscleId => ({ muscleId, share: SECONDARY_SET_WEIGHT })),
+    ];
+    worked.forEach(({ muscleId, share }) => {
+      if (new Date(set.completed_at) >= weekStart) {
+        weekly.set(muscleId, (weekly.get(muscleId) || 0) + share);
+      }
+      if (!last.has(muscleId) || set.completed_at > last.get(muscleId)) {
+        last.set(muscleId, set.completed_at);
+      }
+      daily.set(`${muscleId}:${day}`, (daily.get(`${muscleId}:${day}`) || 0) + share);
+    });
+  });
+
+  return muscles.map(muscle => {
+    const weeklySets = weekly.get(muscle.id) || 0;
+    const lastTrained = last.get(muscle.id) ?? null;
+    const hoursSince = lastTrained ? differenceInHours(now, new Date(lastTrained)) : Infinity;
+    const lastDaySets = lastTrained ? daily.get(`${muscle.id}:${format(new Date(lastTrained), "yyyy-MM-dd")}`) || 0 : 0;
+    const recovery = lastTrained ? Math.min(1, hoursSince / recoveryHoursNeeded(lastDaySets)) : 1;
+
+    let status: RecoveryStatus = "recovered";
+    if (hoursSince >= NEGLECTED_AFTER_DAYS * 24) status = "neglected";
+    else if (recovery < 0.5) status = "fatigued";
+    else if (recovery < 1) status = "recovering";
+
+    return {
+      muscleId: muscle.id,
+      name: getMuscleDisplayName(muscle),
+      region: getMuscleRegion(muscle),
+      weeklySets,
+      lastTrained,
+      recovery,
+      status,
+    };
+  });
+};
+
+/**
+ * Sums muscle loads into body regions. A region is as recovered as its least recovered muscle.
+ */
+export const groupByRegion = (loads: MuscleLoad[]): Map<BodyRegion, RegionLoad> => {
+  const regions = new Map<BodyRegion, RegionLoad>();
+  loads.forEach(load => {
+    if (!load.region) return;
+    const current = regions.get(load.region);
+    regions.set(load.region, {
+      region: load.region,
+      weeklySets: (current?.weeklySets || 0) + load.weeklySets,
+      recovery: Math.min(current?.recovery ?? 1, load.recovery),
+    });
+  });
+  return regions;
+};
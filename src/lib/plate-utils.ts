@@ -0,0 +1,112 @@
+import { PlateInventoryItem } from "@/types/workout";
+
+export type PlateLoad = {
+  // Plates for one side of the bar, heaviest first
+  plates: number[];
+  loadedWeight: number;
+  remainder: number;
+};
+
+export type WarmupSet = {
+  percent: number;
+  weight: number;
+  reps: number;
+};
+
+export const DEFAULT_BAR_WEIGHT = 20;
+
+export const DEFAULT_PLATE_INVENTORY: PlateInventoryItem[] = [
+  { weight: 25, count: 4 },
+  { weight: 20, count: 2 },
+  { weight: 15, count: 2 },
+  { weight: 10, count: 2 },
+  { weight: 5, count: 2 },
+  { weight: 2.5, count: 2 },
+  { weight: 1.25, count: 2 },
+];
+
+// Empty bar, then 40%, 60% and 80% of the working weight with fewer reps each step
+export const WARMUP_RAMP: { percent: number; reps: number }[] = [
+  { percent: 0, reps: 10 },
+  { percent: 40, reps: 5 },
+  { percent: 60, reps: 3 },
+  { percent: 80, reps: 2 },
+];
+
+/**
+ * Reads a stored plate inventory, falling back to the default set
+ * @param value The raw inventory from the profile
+ * @returns Valid inventory items
+ */
+export const parsePlateInventory = (value: unknown): PlateInventoryItem[] => {
+  if (!Array.isArray(value)) return DEFAULT_PLATE_INVENTORY;
+  return value.filter((item): item is PlateInventoryItem =>
+    typeof item?.weight === "number" && typeof item?.count === "number" && item.weight > 0
+  );
+};
+
+/**
+ * Works out which plates to load on each side of the bar. Plates come in
+ * pairs, so only half of each plate count can go on one side.
+ * @param targetWeight Total weight including the bar
+ * @param barWeight Weight of the empty bar
+ * @param inventory Plates available
+ * @returns Plates per side, the weight actually loaded and what could not be loaded
+ */
+export const calculatePlates = (
+  targetWeight: number,
+  barWeight: number,
+  inventory: PlateInventoryItem[]
+): PlateLoad => {
+  const plates: number[] = [];
+  let perSide = Math.max(0, (targetWeight - barWeight) / 2);
+
+  const sorted = [...inventory].sort((a, b) => b.weight - a.weight);
+  for (const plate of sorted) {
+    let available = Math.floor(plate.count / 2);
+    // Small tolerance so floating point leftovers don't skip a plate
+    while (available > 0 && perSide >= plate.weight - 1e-9) {
+      plates.push(plate.weight);
+      perSide -= plate.weight;
+      available--;
+    }
+  }
+
+  const loadedWeight = barWeight + plates.reduce((total, plate) => total + plate, 0) * 2;
+  return {
+    plates,
+    loadedWeight: Math.round(loadedWeight * 100) / 100,
+    remainder: Math.round(Math.max(0, targetWeight - loadedWeight) * 100) / 100,
+  };
+};
+
+/**
+ * Builds a warm-up ramp towards a working weight. Each step is rounded down
+ * to a weight that can be loaded, and steps that would not be lighter than
+ * the working weight are dropped.
+ * @param workingWeight The first working set weight
+ * @param barWeight Weight of the empty bar
+ * @param inventory Plates available
+ * @param count Number of warm-up sets wanted; the heaviest steps are kept
+ * @returns Warm-up sets, lightest first
+ */
+export const generateWarmupSets = (
+  workingWeight: number,
+  barWeight: number,
+  inventory: PlateInventoryItem[],
+  count: number = WARMUP_RAMP.length
+): WarmupSet[] => {
+  const sets: WarmupSet[] = [];
+
+  for (const step of WARMUP_RAMP) {
+    const target = Math.max(barWeight, workingWeight * step.percent / 100);
+    const weight = calculatePlates(target, barWeight, inventory).loadedWeight;
+
+    if (weight >= workingWeight) continue;
+    if (sets.length > 0 && sets[sets.length - 1].weight === weight) continue;
+
+    sets.push({ percent: step.percent, weight, reps: step.reps });
+  }
+
+  return sets.slice(Math.max(0, sets.length - count));
+};
@@ -0,0 +1,215 @@
+import { isWorkingSet } from "@/lib/set-types";
+
+export type OneRepMaxFormula = "epley" | "brzycki";
+
+export type PersonalRecordType = "heaviest_weight" | "best_reps" | "estimated_1rm" | "session_volume";
+
+export type RecordSet = {
+  exercise_name: string;
+  completed_workout_id: string;
+  reps: number;
+  weight: number | null;
+  set_type?: string | null;
+  completed_at: string;
+};
+
+export type RecordEntry = {
+  value: number;
+  weight: number;
+  reps: number;
+  completed_at: string;
+};
+
+export type ExercisePersonalRecords = {
+  exercise_name: string;
+  heaviestWeight: RecordEntry | null;
+  bestRepsByWeight: RecordEntry[];
+  bestEstimatedOneRepMax: Record<OneRepMaxFormula, RecordEntry | null>;
+  bestSessionVolume: RecordEntry | null;
+};
+
+export type NewPersonalRecord = {
+  exercise_name: string;
+  type: PersonalRecordType;
+  value: number;
+  previous: number;
+  weight: number;
+  reps: number;
+  // Formula behind an estimated 1RM record
+  formula?: OneRepMaxFormula;
+};
+
+export const ONE_REP_MAX_FORMULA_LABELS: Record<OneRepMaxFormula, string> = {
+  epley: "Epley",
+  brzycki: "Brzycki",
+};
+
+export const PERSONAL_RECORD_LABELS: Record<PersonalRecordType, string> = {
+  heaviest_weight: "Heaviest weight",
+  best_reps: "Most reps at weight",
+  estimated_1rm: "Estimated 1RM",
+  session_volume: "Session volume",
+};
+
+/**
+ * Estimates a one-rep max from a set
+ * @param weight Weight lifted
+ * @param reps Reps completed
+ * @param formula Epley (default) or Brzycki
+ * @returns Estimated one-rep max rounded to one decimal
+ */
+export const estimateOneRepMax = (weight: number, reps: number, formula: OneRepMaxFormula = "epley"): number => {
+  if (!weight || reps <= 0) return 0;
+  if (reps === 1) return weight;
+
+  const estimate = formula === "brzycki"
+    // Brzycki breaks down past 36 reps, so cap the rep count
+    ? weight * 36 / (37 - Math.min(reps, 36))
+    : weight * (1 + reps / 30);
+
+  return Math.round(estimate * 10) / 10;
+};
+
+const isBetter = (candidate: RecordEntry, current: RecordEntry | null) =>
+  !current || candidate.value > current.value;
+
+/**
+ * Computes the all-time personal records for one exercise from its logged sets,
+ * ignoring warm-up sets
+ * @param exerciseName The exercise the sets belong to
+ * @param sets Logged sets of that exercise
+ * @returns Best lifts for each record type
+ */
+export const computePersonalRecords = (exerciseName: string, sets: RecordSet[]): ExercisePersonalRecords => {
+  const records: ExercisePersonalRecords = {
+    exercise_name: exerciseName,
+    heaviestWeight: null,
+    bestRepsByWeight: [],
+    bestEstimatedOneRepMax: { epley: null, brzycki: null },
+    bestSessionVolume: null,
+  };
+  const repsByWeight = new Map<number, RecordEntry>();
+  const sessionVolumes = new Map<string, RecordEntry>();
+
+  for (const set of sets) {
+    if (set.reps <= 0 || !isWorkingSet(set)) continue;
+    const weight = set.weight || 0;
+    const entry = { weight, reps: set.reps, completed_at: set.completed_at };
+
+    if (weight > 0) {
+      if (isBetter({ ...entry, value: weight }, records.heaviestWeight) ||
+          (weight === records.heaviestWeight.weight && set.reps > records.heaviestWeight.reps)) {
+        records.heaviestWeight = { ...entry, value: weight };
+      }
+
+      for (const formula of ["epley", "brzycki"] as OneRepMaxFormula[]) {
+        const candidate = { ...entry, value: estimateOneRepMax(weight, set.reps, formula) };
+        if (isBetter(candidate, records.bestEstimatedOneRepMax[formula])) {
+          records.bestEstimatedOneRepMax[formula] = candidate;
+        }
+      }
+    }
+
+    const repsCandidate = { ...entry, value: set.reps };
+    if (isBetter(repsCandidate, repsByWeight.get(weight) || null)) {
+      repsByWeight.set(weight, repsCandidate);
+    }
+
+    const session = sessionVolumes.get(set.completed_workout_id);
+    sessionVolumes.set(set.completed_workout_id, {
+      value: (session?.value || 0) + weight * set.reps,
+      weight: Math.max(session?.weight || 0, weight),
+      reps: (session?.reps || 0) + set.reps,
+      completed_at: set.completed_at,
+    });
+  }
+
+  for (const volume of sessionVolumes.values()) {
+    if (volume.value > 0 && isBetter(volume, records.bestSessionVolume)) {
+      records.bestSessionVolume = volume;
+    }
+  }
+
+  records.bestRepsByWeight = Array.from(repsByWeight.values()).sort((a, b) => b.weight - a.weight);
+
+  return records;
+};
+
+/**
+ * Compares a session against earlier history and lists the records it broke.
+ * Exercises without earlier history are skipped so a first session does not
+ * flood the summary with trivial records.
+ * @param previousSets Sets logged before the session
+ * @param sessionSets Sets logged in the session
+ * @returns New personal records set in the session
+ */
+export const detectNewPersonalRecords = (previousSets: RecordSet[], sessionSets: RecordSet[]): NewPersonalRecord[] => {
+  const newRecords: NewPersonalRecord[] = [];
+  const exerciseNames = [...new Set(sessionSets.map(set => set.exercise_name))];
+
+  for (const exerciseName of exerciseNames) {
+    const previous = previousSets.filter(set => set.exercise_name === exerciseName);
+    if (previous.length === 0) continue;
+
+    const before = computePersonalRecords(exerciseName, previous);
+    const current = computePersonalRecords(
+      exerciseName,
+      sessionSets.filter(set => set.exercise_name === exerciseName)
+    );
+
+    if (current.heaviestWeight && current.heaviestWeight.value > (before.heaviestWeight?.value || 0)) {
+      newRecords.push({
+        exercise_name: exerciseName,
+        type: "heaviest_weight",
+        value: current.heaviestWeight.value,
+        previous: before.heaviestWeight?.value || 0,
+        weight: current.heaviestWeight.weight,
+        reps: current.heaviestWeight.reps,
+      });
+    }
+
+    for (const entry of current.bestRepsByWeight) {
+      const previousBest = before.bestRepsByWeight.find(record => record.weight === entry.weight);
+      if (previousBest && entry.value > previousBest.value) {
+        newRecords.push({
+          exercise_name: exerciseName,
+          type: "best_reps",
+          value: entry.value,
+          previous: previousBest.value,
+          weight: entry.weight,
+          reps: entry.reps,
+        });
+      }
+    }
+
+    // The formulas weigh rep counts differently, so either one can set a record
+    for (const formula of ["epley", "brzycki"] as OneRepMaxFormula[]) {
+      const currentOneRepMax = current.bestEstimatedOneRepMax[formula];
+      const previousOneRepMax = before.bestEstimatedOneRepMax[formula];
+      if (currentOneRepMax && currentOneRepMax.value > (previousOneRepMax?.value || 0)) {
+        newRecords.push({
+          exercise_name: exerciseName,
+          type: "estimated_1rm",
+          value: currentOneRepMax.value,
+          previous: previousOneRepMax?.value || 0,
+          weight: currentOneRepMax.weight,
+          reps: currentOneRepMax.reps,
+          formula,
+        });
+      }
+    }
+
+    if (current.bestSessionVolume && current.bestSessionVolume.value > (before.bestSessionVolume?.value || 0)) {
+      newRecords.push({
+        exercise_name: exerciseName,
+        type: "session_volume",
+        value: current.bestSessionVolume.value,
+        previous: before.bestSessionVolume?.value || 0,
+        weight: current.bestSessionVolume.weight,
+        reps: current.bestSessionVolume.reps,
+      });
+    }
+  }
+
+  return newRecords;
+};
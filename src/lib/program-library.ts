@@ -0,0 +1,391 @@
+import { ExerciseTemplate, ProgramWeek, ProgressionSettings, WeightUnit } from "@/types/workout";
+import { DEFAULT_PROGRAM_WEEK } from "@/lib/program-utils";
+import { percentageWeight } from "@/lib/progression-utils";
+
+export type LibraryExercise = {
+  name: string;
+  // Other names the exercise may go by in the template catalogue
+  aliases?: string[];
+  sets: number;
+  reps: number;
+  rest_time?: number;
+  progression: ProgressionSettings;
+};
+
+export type LibraryRoutine = {
+  title: string;
+  label: string;
+  duration: number;
+  exercises: LibraryExercise[];
+};
+
+export type LibraryProgram = {
+  id: string;
+  name: string;
+  description: string;
+  level: "Beginner" | "Intermediate";
+  routines: LibraryRoutine[];
+  // Routine indexes in the order they are trained each week
+  schedule: number[];
+  weeks: ProgramWeek[];
+};
+
+export type LibraryExerciseRow = ProgressionSettings & {
+  name: string;
+  template_id: string | null;
+  sets: number;
+  reps: number;
+  weight: number | null;
+  notes: string | null;
+  rest_time: number;
+  order: number;
+};
+
+const linear = (increment: number): ProgressionSettings => ({
+  progression_type: "linear",
+  progression_increment: increment,
+  deload_after: 3,
+  deload_percent: 10,
+});
+
+const double = (min: number, max: number, increment = 2.5): ProgressionSettings => ({
+  progression_type: "double",
+  progression_increment: increment,
+  rep_range_min: min,
+  rep_range_max: max,
+});
+
+// 5/3/1 raises the training max once a cycle. Deload weeks aren't scored, so the
+// increment is spread over the three training weeks of the four-week cycle.
+const wendler = (cycleIncrement: number): ProgressionSettings => ({
+  progression_type: "percentage",
+  progression_increment: cycleIncrement / 3,
+  training_max_percent: 85,
+});
+
+const SQUAT = { name: "Squat", aliases: ["Barbell Squat", "Back Squat", "Barbell Back Squat"] };
+const BENCH = { name: "Bench Press", aliases: ["Barbell Bench Press", "Flat Bench Press"] };
+const DEADLIFT = { name: "Deadlift", aliases: ["Barbell Deadlift", "Conventional Deadlift"] };
+const PRESS = { name: "Overhead Press", aliases: ["Military Press", "Shoulder Press", "Barbell Overhead Press"] };
+const ROW = { name: "Barbell Row", aliases: ["Bent Over Row", "Bent Over Barbell Row", "Pendlay Row"] };
+const PULLDOWN = { name: "Lat Pulldown", aliases: ["Lat Pull Down", "Pulldown"] };
+const DB_ROW = { name: "Dumbbell Row", aliases: ["One Arm Dumbbell Row", "Dumbbell Bent Over Row"] };
+const CURL = { name: "Biceps Curl", aliases: ["Barbell Curl", "Bicep Curl", "Dumbbell Curl"] };
+const PUSHDOWN = { name: "Triceps Pushdown", aliases: ["Tricep Pushdown", "Cable Pushdown"] };
+const LATERAL_RAISE = { name: "Lateral Raise", aliases: ["Dumbbell Lateral Raise", "Side Lateral Raise"] };
+const LEG_CURL = { name: "Leg Curl", aliases: ["Lying Leg Curl", "Seated Leg Curl"] };
+const CALF_RAISE = { name: "Calf Raise", aliases: ["Standing Calf Raise", "Calf Raises"] };
+const LEG_PRESS = { name: "Leg Press" };
+const INCLINE_DB_PRESS = { name: "Incline Dumbbell Press", aliases: ["Incline Dumbbell Bench Press"] };
+
+const FIVE_THREE_ONE_WEEKS: ProgramWeek[] = [
+  { label: "5s week", intensity_percent: 100, volume_percent: 100, deload: false },
+  { label: "3s week", intensity_percent: 105, volume_percent: 100, reps: 3, deload: false },
+  { label: "5/3/1 week", intensity_percent: 110, volume_percent: 100, reps: 1, deload: false },
+  { label: "Deload", intensity_percent: 70, volume_percent: 100, deload: true },
+];
+
+const repeatWeeks = (count: number): ProgramWeek[] =>
+  Array.from({ length: count }, (_, i) => ({ ...DEFAULT_PROGRAM_WEEK, label: `Week ${i + 1}` }));
+
+export const PROGRAM_LIBRARY: LibraryProgram[] = [
+  {
+    id: "starting-strength",
+    name: "Starting Strength",
+    description: "Mark Rippetoe's novice program: two full-body workouts alternated three times a week, adding weight every session.",
+    level: "Beginner",
+    routines: [
+      {
+        title: "Starting Strength A",
+        label: "A",
+        duration: 60,
+        exercises: [
+          { ...SQUAT, sets: 3, reps: 5, rest_time: 180, progression: linear(5) },
+          { ...BENCH, sets: 3, reps: 5, rest_time: 180, progression: linear(2.5) },
+          { ...DEADLIFT, sets: 1, reps: 5, rest_time: 180, progression: linear(5) },
+        ],
+      },
+      {
+        title: "Starting Strength B",
+        label: "B",
+        duration: 60,
+        exercises: [
+          { ...SQUAT, sets: 3, reps: 5, rest_time: 180, progression: linear(5) },
+          { ...PRESS, sets: 3, reps: 5, rest_time: 180, progression: linear(2.5) },
+          { name: "Power Clean", aliases: ["Clean"], sets: 5, reps: 3, rest_time: 120, progression: linear(2.5) },
+        ],
+      },
+    ],
+    schedule: [0, 1, 0, 1, 0, 1],
+    weeks: repeatWeeks(6).map((week, i) => ({ ...week, label: `Weeks ${i * 2 + 1}–${i * 2 + 2}` })),
+  },
+  {
+    id: "gzclp",
+    name: "GZCLP",
+    description: "Cody Lefever's linear progression in three tiers: heavy T1 triples, T2 sets of ten and high-rep T3 accessories, four days a week.",
+    level: "Beginner",
+    routines: [
+      {
+        title: "GZCLP Day 1",
+        label: "Squat",
+        duration: 60,
+        exercises: [
+          { ...SQUAT, sets: 5, reps: 3, rest_time: 180, progression: linear(5) },
+          { ...BENCH, sets: 3, reps: 10, rest_time: 120, progression: linear(2.5) },
+          { ...PULLDOWN, sets: 3, reps: 15, rest_time: 60, progression: double(15, 25) },
+        ],
+      },
+      {
+        title: "GZCLP Day 2",
+        label: "Press",
+        duration: 60,
+        exercises: [
+          { ...PRESS, sets: 5, reps: 3, rest_time: 180, progression: linear(2.5) },
+          { ...DEADLIFT, sets: 3, reps: 10, rest_time: 120, progression: linear(5) },
+          { ...DB_ROW, sets: 3, reps: 15, rest_time: 60, progression: double(15, 25) },
+        ],
+      },
+      {
+        title: "GZCLP Day 3",
+        label: "Bench",
+        duration: 60,
+        exercises: [
+          { ...BENCH, sets: 5, reps: 3, rest_time: 180, progression: linear(2.5) },
+          { ...SQUAT, sets: 3, reps: 10, rest_time: 120, progression: linear(5) },
+          { ...PULLDOWN, sets: 3, reps: 15, rest_time: 60, progression: double(15, 25) },
+        ],
+      },
+      {
+        title: "GZCLP Day 4",
+        label: "Deadlift",
+        duration: 60,
+        exercises: [
+          { ...DEADLIFT, sets: 5, reps: 3, rest_time: 180, progression: linear(5) },
+          { ...PRESS, sets: 3, reps: 10, rest_time: 120, progression: linear(2.5) },
+          { ...DB_ROW, sets: 3, reps: 15, rest_time: 60, progression: double(15, 25) },
+        ],
+      },
+    ],
+    schedule: [0, 1, 2, 3],
+    weeks: repeatWeeks(12),
+  },
+  {
+    id: "531",
+    name: "5/3/1",
+    description: "Jim Wendler's four-week cycles of 5s, 3s and a 5/3/1 week off a training max, with a deload to finish each cycle.",
+    level: "Intermediate",
+    routines: [
+      {
+        title: "5/3/1 Press",
+        label: "Press",
+        duration: 60,
+        exercises: [
+          { ...PRESS, sets: 3, reps: 5, rest_time: 180, progression: wendler(2.5) },
+          { name: "Chin-up", aliases: ["Chin Up", "Chin-ups", "Pull-up"], sets: 5, reps: 10, rest_time: 90, progression: double(8, 12) },
+        ],
+      },
+      {
+        title: "5/3/1 Deadlift",
+        label: "Deadlift",
+        duration: 60,
+        exercises: [
+          { ...DEADLIFT, sets: 3, reps: 5, rest_time: 180, progression: wendler(5) },
+          { name: "Hanging Leg Raise", aliases: ["Leg Raise", "Hanging Leg Raises"], sets: 5, reps: 10, rest_time: 60, progression: double(10, 15) },
+        ],
+      },
+      {
+        title: "5/3/1 Bench",
+        label: "Bench",
+        duration: 60,
+        exercises: [
+          { ...BENCH, sets: 3, reps: 5, rest_time: 180, progression: wendler(2.5) },
+          { ...DB_ROW, sets: 5, reps: 10, rest_time: 90, progression: double(10, 12) },
+        ],
+      },
+      {
+        title: "5/3/1 Squat",
+        label: "Squat",
+        duration: 60,
+        exercises: [
+          { ...SQUAT, sets: 3, reps: 5, rest_time: 180, progression: wendler(5) },
+          { ...LEG_CURL, sets: 5, reps: 10, rest_time: 60, progression: double(10, 12) },
+        ],
+      },
+    ],
+    schedule: [0, 1, 2, 3],
+    weeks: FIVE_THREE_ONE_WEEKS,
+  },
+  {
+    id: "ppl",
+    name: "Push Pull Legs",
+    description: "A six-day hypertrophy split running push, pull and legs twice a week, with double progression on every lift.",
+    level: "Intermediate",
+    routines: [
+      {
+        title: "PPL Push",
+        label: "Push",
+        duration: 70,
+        exercises: [
+          { ...BENCH, sets: 4, reps: 6, rest_time: 150, progression: double(6, 10) },
+          { ...PRESS, sets: 3, reps: 8, rest_time: 120, progression: double(8, 12) },
+          { ...INCLINE_DB_PRESS, sets: 3, reps: 8, rest_time: 90, progression: double(8, 12, 2) },
+          { ...LATERAL_RAISE, sets: 3, reps: 12, rest_time: 60, progression: double(12, 20, 1) },
+          { ...PUSHDOWN, sets: 3, reps: 10, rest_time: 60, progression: double(10, 15) },
+        ],
+      },
+      {
+        title: "PPL Pull",
+        label: "Pull",
+        duration: 70,
+        exercises: [
+          { ...DEADLIFT, sets: 3, reps: 5, rest_time: 180, progression: linear(5) },
+          { ...PULLDOWN, sets: 3, reps: 8, rest_time: 90, progression: double(8, 12) },
+          { ...ROW, sets: 3, reps: 8, rest_time: 90, progression: double(8, 12) },
+          { name: "Face Pull", aliases: ["Cable Face Pull"], sets: 3, reps: 15, rest_time: 60, progression: double(15, 20) },
+          { ...CURL, sets: 3, reps: 8, rest_time: 60, progression: double(8, 12, 1) },
+        ],
+      },
+      {
+        title: "PPL Legs",
+        label: "Legs",
+        duration: 70,
+        exercises: [
+          { ...SQUAT, sets: 4, reps: 6, rest_time: 180, progression: double(6, 10, 5) },
+          { name: "Romanian Deadlift", aliases: ["RDL", "Stiff Leg Deadlift"], sets: 3, reps: 8, rest_time: 120, progression: double(8, 12, 5) },
+          { ...LEG_PRESS, sets: 3, reps: 10, rest_time: 90, progression: double(10, 15, 5) },
+          { ...LEG_CURL, sets: 3, reps: 10, rest_time: 60, progression: double(10, 15) },
+          { ...CALF_RAISE, sets: 4, reps: 10, rest_time: 60, progression: double(10, 15) },
+        ],
+      },
+    ],
+    schedule: [0, 1, 2, 0, 1, 2],
+    weeks: repeatWeeks(8),
+  },
+  {
+    id: "phul",
+    name: "PHUL",
+    description: "Power Hypertrophy Upper Lower: two heavy days in the 3–5 rep range and two volume days, four days a week.",
+    level: "Intermediate",
+    routines: [
+      {
+        title: "PHUL Upper Power",
+        label: "Upper Power",
+        duration: 75,
+        exercises: [
+          { ...BENCH, sets: 4, reps: 3, rest_time: 180, progression: double(3, 5) },
+          { ...ROW, sets: 4, reps: 3, rest_time: 180, progression: double(3, 5) },
+          { ...PRESS, sets: 3, reps: 5, rest_time: 120, progression: double(5, 8) },
+          { ...PULLDOWN, sets: 3, reps: 6, rest_time: 90, progression: double(6, 10) },
+          { ...CURL, sets: 3, reps: 6, rest_time: 60, progression: double(6, 10, 1) },
+          { name: "Skull Crusher", aliases: ["Skullcrusher", "Lying Triceps Extension"], sets: 3, reps: 6, rest_time: 60, progression: double(6, 10, 1) },
+        ],
+      },
+      {
+        title: "PHUL Lower Power",
+        label: "Lower Power",
+        duration: 75,
+        exercises: [
+          { ...SQUAT, sets: 4, reps: 3, rest_time: 180, progression: double(3, 5, 5) },
+          { ...DEADLIFT, sets: 4, reps: 3, rest_time: 180, progression: double(3, 5, 5) },
+          { ...LEG_PRESS, sets: 4, reps: 10, rest_time: 120, progression: double(10, 15, 5) },
+          { ...LEG_CURL, sets: 4, reps: 6, rest_time: 90, progression: double(6, 10) },
+          { ...CALF_RAISE, sets: 4, reps: 6, rest_time: 60, progression: double(6, 10) },
+        ],
+      },
+      {
+        title: "PHUL Upper Hypertrophy",
+        label: "Upper Hypertrophy",
+        duration: 75,
+        exercises: [
+          { ...INCLINE_DB_PRESS, sets: 4, reps: 8, rest_time: 90, progression: double(8, 12, 2) },
+          { name: "Dumbbell Fly", aliases: ["Dumbbell Flyes", "Chest Fly"], sets: 3, reps: 8, rest_time: 60, progression: double(8, 12, 1) },
+          { name: "Seated Cable Row", aliases: ["Cable Row", "Seated Row"], sets: 4, reps: 8, rest_time: 90, progression: double(8, 12) },
+          { ...DB_ROW, sets: 3, reps: 8, rest_time: 60, progression: double(8, 12, 2) },
+          { ...LATERAL_RAISE, sets: 3, reps: 8, rest_time: 60, progression: double(8, 12, 1) },
+          { ...CURL, sets: 3, reps: 8, rest_time: 60, progression: double(8, 12, 1) },
+          { ...PUSHDOWN, sets: 3, reps: 8, rest_time: 60, progression: double(8, 12) },
+        ],
+      },
+      {
+        title: "PHUL Lower Hypertrophy",
+        label: "Lower Hypertrophy",
+        duration: 75,
+        exercises: [
+          { name: "Front Squat", aliases: ["Barbell Front Squat"], sets: 4, reps: 8, rest_time: 150, progression: double(8, 12, 5) },
+          { name: "Lunge", aliases: ["Lunges", "Dumbbell Lunge", "Walking Lunge"], sets: 3, reps: 8, rest_time: 90, progression: double(8, 12, 2) },
+          { name: "Leg Extension", aliases: ["Leg Extensions"], sets: 4, reps: 10, rest_time: 60, progression: double(10, 15) },
+          { ...LEG_CURL, sets: 4, reps: 10, rest_time: 60, progression: double(10, 15) },
+          { ...CALF_RAISE, sets: 4, reps: 8, rest_time: 60, progression: double(8, 12) },
+        ],
+      },
+    ],
+    schedule: [0, 1, 2, 3],
+    weeks: repeatWeeks(8),
+  },
+];
+
+const normalizeName = (name: string) => name.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+/**
+ * Finds the catalogue template for a library exercise by its name or aliases
+ * @param exercise The library exercise
+ * @param templates The exercise template catalogue
+ * @returns The matching template, or undefined when there is none
+ */
+export const findLibraryTemplate = (
+  exercise: LibraryExercise,
+  templates: Pick<ExerciseTemplate, "id" | "name">[]
+): Pick<ExerciseTemplate, "id" | "name"> | undefined => {
+  const names = [exercise.name, ...(exercise.aliases || [])].map(normalizeName);
+  for (const name of names) {
+    const template = templates.find(t => normalizeName(t.name) === name);
+    if (template) return template;
+  }
+  return undefined;
+};
+
+/**
+ * The distinct lifts of a program that take a starting weight
+ * @returns One entry per exercise name; percentage lifts ask for a training max instead
+ */
+export const getStartingLifts = (program: LibraryProgram): { name: string; usesTrainingMax: boolean }[] => {
+  const lifts = new Map<string, boolean>();
+  program.routines.forEach(routine => routine.exercises.forEach(exercise => {
+    const usesTrainingMax = exercise.progression.progression_type === "percentage";
+    lifts.set(exercise.name, (lifts.get(exercise.name) ?? false) || usesTrainingMax);
+  }));
+  return [...lifts].map(([name, usesTrainingMax]) => ({ name, usesTrainingMax }));
+};
+
+/**
+ * Turns a library routine into exercise rows ready to insert
+ * @param routine The library routine
+ * @param templates The exercise template catalogue, used to link and name exercises
+ * @param startingWeights Starting weight (or training max) in kg by library exercise name
+ * @param unit The user's weight unit, which percentage-based weights are rounded in
+ * @returns Exercise rows without a workout id
+ */
+export const buildLibraryExercises = (
+  routine: LibraryRoutine,
+  templates: Pick<ExerciseTemplate, "id" | "name">[],
+  startingWeights: Record<string, number>,
+  unit?: WeightUnit
+): LibraryExerciseRow[] =>
+  routine.exercises.map((exercise, index) => {
+    const template = findLibraryTemplate(exercise, templates);
+    const start = startingWeights[exercise.name] || null;
+    const isPercentage = exercise.progression.progression_type === "percentage";
+
+    return {
+      ...exercise.progression,
+      name: template?.name || exercise.name,
+      template_id: template?.id || null,
+      sets: exercise.sets,
+      reps: exercise.reps,
+      training_max: isPercentage ? start : null,
+      weight: isPercentage ? percentageWeight(start, exercise.progression.training_max_percent ?? null, unit) : start,
+      notes: null,
+      rest_time: exercise.rest_time ?? 90,
+      order: index,
+    };
+  });
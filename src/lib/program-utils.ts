@@ -0,0 +1,135 @@
+import { Program, ProgramDay, ProgramWeek, WeightUnit } from "@/types/workout";
+import { roundWeight } from "@/lib/progression-utils";
+import { DEFAULT_WEIGHT_UNIT } from "@/lib/units";
+
+export type ProgramPosition = {
+  week: number;
+  day: number;
+  weekPlan: ProgramWeek;
+  dayPlan: ProgramDay;
+};
+
+export type ProgramAdvance = {
+  current_week: number;
+  current_day: number;
+  finished: boolean;
+};
+
+export const DEFAULT_PROGRAM_WEEK: ProgramWeek = {
+  label: null,
+  intensity_percent: 100,
+  volume_percent: 100,
+  deload: false,
+};
+
+// Three building weeks, then a lighter week with fewer sets
+export const DEFAULT_PROGRAM_WEEKS: ProgramWeek[] = [
+  { label: "Accumulate", intensity_percent: 100, volume_percent: 100, deload: false },
+  { label: "Build", intensity_percent: 102.5, volume_percent: 100, deload: false },
+  { label: "Overreach", intensity_percent: 105, volume_percent: 100, deload: false },
+  { label: "Deload", intensity_percent: 70, volume_percent: 50, deload: true },
+];
+
+/**
+ * Reads stored program days, dropping anything malformed
+ */
+export const parseProgramDays = (value: unknown): ProgramDay[] => {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter((day) => day && typeof day === "object")
+    .map((day) => ({
+      workout_id: typeof day.workout_id === "string" ? day.workout_id : null,
+      label: typeof day.label === "string" ? day.label : null,
+    }));
+};
+
+/**
+ * Reads stored program weeks, filling in missing percentages with 100
+ */
+export const parseProgramWeeks = (value: unknown): ProgramWeek[] => {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter((week) => week && typeof week === "object")
+    .map((week) => ({
+      label: typeof week.label === "string" ? week.label : null,
+      intensity_percent: typeof week.intensity_percent === "number" ? week.intensity_percent : 100,
+      volume_percent: typeof week.volume_percent === "number" ? week.volume_percent : 100,
+      reps: typeof week.reps === "number" && week.reps > 0 ? week.reps : null,
+      deload: week.deload === true,
+    }));
+};
+
+/**
+ * The next session of a running program
+ * @param program The program
+ * @returns Week and day plans, or null when the program is empty or finished
+ */
+export const getProgramPosition = (program: Program): ProgramPosition | null => {
+  if (program.completed_at) return null;
+  const weekPlan = program.weeks[program.current_week];
+  const dayPlan = program.days[program.current_day];
+  if (!weekPlan || !dayPlan) return null;
+  return { week: program.current_week, day: program.current_day, weekPlan, dayPlan };
+};
+
+/**
+ * Moves a program on by one session, rolling over into the next week
+ * @param program The program at its current position
+ * @returns The new position, and whether the last session has been done
+ */
+export const advanceProgram = (program: Program): ProgramAdvance => {
+  const nextDay = program.current_day + 1;
+  if (nextDay < program.days.length) {
+    return { current_week: program.current_week, current_day: nextDay, finished: false };
+  }
+
+  const nextWeek = program.current_week + 1;
+  if (nextWeek < program.weeks.length) {
+    return { current_week: nextWeek, current_day: 0, finished: false };
+  }
+
+  return { current_week: program.current_week, current_day: program.current_day, finished: true };
+};
+
+/**
+ * Sessions done so far out of the whole program
+ */
+export const getProgramProgress = (program: Program): { done: number; total: number } => {
+  const total = program.weeks.length * program.days.length;
+  if (program.completed_at) return { done: total, total };
+  return { done: program.current_week * program.days.length + program.current_day, total };
+};
+
+/**
+ * Scales an exercise's working weight and set count for a program week, and
+ * sets the week's reps when it has them
+ * @param exercise The exercise as stored on the routine
+ * @param week The week's intensity and volume
+ * @param unit The user's weight unit, which the scaled weight is rounded in
+ * @returns The exercise to perform this week
+ */
+export const applyProgramWeek = <T extends { sets: number; reps: number; weight: number | null; group_rounds?: number | null }>(
+  exercise: T,
+  week: ProgramWeek,
+  unit: WeightUnit = DEFAULT_WEIGHT_UNIT
+): T => {
+  const scaleSets = (sets: number) => Math.max(1, Math.round(sets * week.volume_percent / 100));
+
+  return {
+    ...exercise,
+    weight: exercise.weight === null ? null : roundWeight(exercise.weight * week.intensity_percent / 100, unit),
+    sets: scaleSets(exercise.sets),
+    reps: week.reps || exercise.reps,
+    group_rounds: exercise.group_rounds ? scaleSets(exercise.group_rounds) : exercise.group_rounds,
+  };
+};
+
+/**
+ * Short summary of a program week, e.g. "105% weight" or "Deload: 70% weight, 50% sets"
+ */
+export const describeProgramWeek = (week: ProgramWeek): string => {
+  const parts = [`${week.intensity_percent}% weight`];
+  if (week.volume_percent !== 100) parts.push(`${week.volume_percent}% sets`);
+  if (week.reps) parts.push(`${week.reps} reps`);
+  return `${week.deload ? "Deload: " : ""}${parts.join(", ")}`;
+};
@@ -0,0 +1,129 @@
+import { ProgressionSettings, ProgressionType, WeightUnit } from "@/types/workout";
+import { DEFAULT_WEIGHT_UNIT, fromDisplayWeight, toDisplayWeight } from "@/lib/units";
+
+export type ProgressionState = ProgressionSettings & {
+  sets: number;
+  reps: number;
+  weight: number | null;
+  failed_sessions: number;
+};
+
+export type Prescription = {
+  reps: number;
+  weight: number | null;
+  training_max: number | null;
+  failed_sessions: number;
+  deloaded: boolean;
+};
+
+export const PROGRESSION_LABELS: Record<ProgressionType, string> = {
+  none: "None",
+  linear: "Linear",
+  double: "Double progression",
+  percentage: "Percentage of training max",
+};
+
+export const DEFAULT_PROGRESSION_INCREMENT = 2.5;
+
+/**
+ * Rounds a weight in kg to the nearest 0.5 step of the user's unit, so
+ * pound weights stay on whole and half pounds
+ * @param weight The raw weight in kg
+ * @param unit The unit the weight is loaded and shown in
+ * @returns Rounded weight in kg
+ */
+export const roundWeight = (weight: number, unit: WeightUnit = DEFAULT_WEIGHT_UNIT): number => {
+  if (unit === "kg") return Math.round(weight * 2) / 2;
+  return fromDisplayWeight(Math.round(toDisplayWeight(weight, unit) * 2) / 2, unit);
+};
+
+/**
+ * Calculates the working weight for a percentage-based exercise
+ * @param trainingMax The training max
+ * @param percent Percentage of the training max to lift
+ * @returns Working weight, or null when either value is missing
+ */
+export const percentageWeight = (
+  trainingMax: number | null,
+  percent: number | null,
+  unit: WeightUnit = DEFAULT_WEIGHT_UNIT
+): number | null => {
+  if (!trainingMax || !percent) return null;
+  return roundWeight(trainingMax * percent / 100, unit);
+};
+
+/**
+ * Checks whether every prescribed set was completed at the prescribed reps
+ * @param state The prescription the session was performed against
+ * @param sessionSets Sets logged for the exercise in that session
+ * @returns True when the session counts as a success
+ */
+export const isSuccessfulSession = (state: ProgressionState, sessionSets: { reps: number }[]): boolean => {
+  if (sessionSets.length < state.sets) return false;
+  return sessionSets.every(set => set.reps >= state.reps);
+};
+
+/**
+ * Works out the next prescription for an exercise from its last session
+ * @param state Current prescription and progression settings
+ * @param sessionSets Sets logged for the exercise in the last session
+ * @param unit The user's weight unit, which new weights are rounded in
+ * @returns The prescription for the next session
+ */
+export const applyProgression = (
+  state: ProgressionState,
+  sessionSets: { reps: number }[],
+  unit: WeightUnit = DEFAULT_WEIGHT_UNIT
+): Prescription => {
+  const increment = state.progression_increment ?? DEFAULT_PROGRESSION_INCREMENT;
+  const success = isSuccessfulSession(state, sessionSets);
+  const next: Prescription = {
+    reps: state.reps,
+    weight: state.weight,
+    training_max: state.training_max ?? null,
+    failed_sessions: success ? 0 : state.failed_sessions + 1,
+    deloaded: false,
+  };
+
+  if (success) {
+    switch (state.progression_type) {
+      case "linear":
+        next.weight = roundWeight((state.weight || 0) + increment, unit);
+        break;
+      case "double": {
+        const maxReps = state.rep_range_max ?? state.reps;
+        if (state.reps >= maxReps) {
+          next.weight = roundWeight((state.weight || 0) + increment, unit);
+          next.reps = state.rep_range_min ?? state.reps;
+        } else {
+          next.reps = state.reps + 1;
+        }
+        break;
+      }
+      case "percentage":
+        next.training_max = roundWeight((state.training_max || 0) + increment, unit);
+        break;
+    }
+  }
+
+  // Back off after too many failed sessions in a row
+  if (state.deload_after && next.failed_sessions >= state.deload_after) {
+    const factor = 1 - (state.deload_percent ?? 10) / 100;
+    if (state.progression_type === "percentage") {
+      next.training_max = roundWeight((next.training_max || 0) * factor, unit);
+    } else {
+      next.weight = roundWeight((next.weight || 0) * factor, unit);
+    }
+    if (state.progression_type === "double" && state.rep_range_min) {
+      next.reps = state.rep_range_min;
+    }
+    next.failed_sessions = 0;
+    next.deloaded = true;
+  }
+
+  if (state.progression_type === "percentage") {
+    next.weight = percentageWeight(next.training_max, state.training_max_percent ?? null, unit) ?? next.weight;
+  }
+
+  return next;
+};
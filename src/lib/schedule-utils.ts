@@ -0,0 +1,145 @@
+import {
+  differenceInCalendarDays,
+  eachDayOfInterval,
+  endOfMonth,
+  endOfWeek,
+  format,
+  getDay,
+  isBefore,
+  isSameMonth,
+  parseISO,
+  startOfDay,
+  startOfMonth,
+  startOfWeek,
+} from "date-fns";
+import { ScheduleMode, ScheduleSlot, TrainingSchedule } from "@/types/workout";
+
+export type ScheduledSession = {
+  id: string;
+  workout_id: string | null;
+  completed_at: string;
+};
+
+// completed: the planned routine (or any routine on a planned day) was done
+// extra: a session on a rest or unplanned day
+export type CalendarDayStatus = "completed" | "missed" | "planned" | "rest" | "extra" | "none";
+
+export type CalendarDay = {
+  date: Date;
+  inMonth: boolean;
+  slot: ScheduleSlot | null;
+  sessions: ScheduledSession[];
+  status: CalendarDayStatus;
+};
+
+export const SCHEDULE_MODE_LABELS: Record<ScheduleMode, string> = {
+  weekly: "Weekly",
+  rotation: "Rotating cycle",
+};
+
+// Weekly slots start on Monday
+export const WEEKDAY_LABELS = ["Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday", "Sunday"];
+
+const WEEK_OPTIONS = { weekStartsOn: 1 as const };
+
+/**
+ * A weekly plan with every day set to rest
+ */
+export const createWeeklySlots = (): ScheduleSlot[] =>
+  WEEKDAY_LABELS.map(() => ({ workout_id: null, label: null }));
+
+/**
+ * Reads stored schedule slots, dropping anything malformed
+ * @param value The raw slots from the database
+ * @returns Valid slots
+ */
+export const parseScheduleSlots = (value: unknown): ScheduleSlot[] => {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter((slot) => slot && typeof slot === "object")
+    .map((slot) => ({
+      workout_id: typeof slot.workout_id === "string" ? slot.workout_id : null,
+      label: typeof slot.label === "string" ? slot.label : null,
+    }));
+};
+
+/**
+ * Works out which slot of the schedule applies to a date
+ * @param schedule The training schedule
+ * @param date The day to look up
+ * @returns Index into the schedule's slots, or null when the schedule is empty
+ */
+export const getSlotIndex = (schedule: TrainingSchedule, date: Date): number | null => {
+  const count = schedule.slots.length;
+  if (count === 0) return null;
+
+  if (schedule.mode === "weekly") {
+    // getDay counts from Sunday; weekly slots count from Monday
+    const index = (getDay(date) + 6) % 7;
+    return index < count ? index : null;
+  }
+
+  const offset = differenceInCalendarDays(date, parseISO(schedule.start_date));
+  return ((offset % count) + count) % count;
+};
+
+/**
+ * The slot planned for a date
+ * @param schedule The training schedule, if the user has one
+ * @param date The day to look up
+ * @returns The slot, or null when nothing is scheduled
+ */
+export const getScheduledSlot = (schedule: TrainingSchedule | null, date: Date): ScheduleSlot | null => {
+  if (!schedule) return null;
+  const index = getSlotIndex(schedule, date);
+  return index === null ? null : schedule.slots[index];
+};
+
+/**
+ * First and last day shown on a month calendar, padded to whole weeks
+ */
+export const getCalendarRange = (month: Date): { start: Date; end: Date } => ({
+  start: startOfWeek(startOfMonth(month), WEEK_OPTIONS),
+  end: endOfWeek(endOfMonth(month), WEEK_OPTIONS),
+});
+
+/**
+ * Lays out a month of planned and completed sessions
+ * @param month Any day in the month to show
+ * @param schedule The training schedule, if the user has one; it applies from its start date
+ * @param sessions Completed sessions within the calendar range
+ * @param today Days before this are counted as missed when nothing was done
+ * @returns One entry per day, in whole Monday-first weeks
+ */
+export const buildMonthCalendar = (
+  month: Date,
+  schedule: TrainingSchedule | null,
+  sessions: ScheduledSession[],
+  today: Date = new Date()
+): CalendarDay[] => {
+  const sessionsByDay = new Map<string, ScheduledSession[]>();
+  for (const session of sessions) {
+    const key = format(new Date(session.completed_at), "yyyy-MM-dd");
+    sessionsByDay.set(key, [...(sessionsByDay.get(key) || []), session]);
+  }
+
+  // Nothing was planned before the schedule started
+  const scheduleStart = schedule ? parseISO(schedule.start_date) : null;
+
+  return eachDayOfInterval(getCalendarRange(month)).map((date) => {
+    const slot = scheduleStart && !isBefore(date, scheduleStart) ? getScheduledSlot(schedule, date) : null;
+    const daySessions = sessionsByDay.get(format(date, "yyyy-MM-dd")) || [];
+    const isPlanned = !!slot?.workout_id;
+
+    let status: CalendarDayStatus;
+    if (daySessions.length > 0) {
+      status = isPlanned ? "completed" : "extra";
+    } else if (isPlanned) {
+      status = isBefore(date, startOfDay(today)) ? "missed" : "planned";
+    } else {
+      status = slot ? "rest" : "none";
+    }
+
+    return { date, inMonth: isSameMonth(date, month), slot, sessions: daySessions, status };
+  });
+};
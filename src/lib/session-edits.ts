@@ -0,0 +1,113 @@
+import { GroupableExercise, getGroupRange, getSetCount, updateGroup } from "@/lib/exercise-groups";
+
+// Stands in for a routine id when a session is started without a routine
+export const EMPTY_WORKOUT_ID = "empty";
+
+export type EditableExercise = GroupableExercise & {
+  name: string;
+  // Added during the session; not part of the saved routine
+  added?: boolean;
+  // Sets added during the session on top of the prescription
+  added_sets?: number;
+  // Sets already done when the exercise was skipped, to pick up from later
+  resume_set?: number;
+};
+
+/**
+ * Moves an exercise one place up or down. Grouped exercises move together
+ * with the rest of their group, and jump over whole groups.
+ * @param exercises Ordered exercises of the session
+ * @param index Index of the exercise to move
+ * @param direction -1 to move earlier, 1 to move later
+ * @returns The reordered exercises, or the same list when it can't move
+ */
+export const moveExercise = <T extends EditableExercise>(exercises: T[], index: number, direction: -1 | 1): T[] => {
+  const [start, end] = getGroupRange(exercises, index);
+
+  if (direction < 0) {
+    if (start === 0) return exercises;
+    const [previousStart] = getGroupRange(exercises, start - 1);
+    return [
+      ...exercises.slice(0, previousStart),
+      ...exercises.slice(start, end + 1),
+      ...exercises.slice(previousStart, start),
+      ...exercises.slice(end + 1),
+    ];
+  }
+
+  if (end === exercises.length - 1) return exercises;
+  const [, nextEnd] = getGroupRange(exercises, end + 1);
+  return [
+    ...exercises.slice(0, start),
+    ...exercises.slice(end + 1, nextEnd + 1),
+    ...exercises.slice(start, end + 1),
+    ...exercises.slice(nextEnd + 1),
+  ];
+};
+
+/**
+ * Moves an exercise, with its group, to the end of the session to come back to later
+ * @param exercises Ordered exercises of the session
+ * @param index Index of the exercise to skip
+ * @param setIndex The set it was skipped at, which is where it picks up again
+ */
+export const deferExercise = <T extends EditableExercise>(exercises: T[], index: number, setIndex: number): T[] => {
+  const [start, end] = getGroupRange(exercises, index);
+  return [
+    ...exercises.slice(0, start),
+    ...exercises.slice(end + 1),
+    ...exercises.slice(start, end + 1).map(exercise => ({ ...exercise, resume_set: setIndex })),
+  ];
+};
+
+/**
+ * Adds one more set to an exercise, or one more round to its group
+ */
+export const addExtraSet = <T extends EditableExercise>(exercises: T[], index: number): T[] => {
+  const exercise = exercises[index];
+  if (!exercise) return exercises;
+
+  if (exercise.group_id && exercise.group_rounds) {
+    return updateGroup(exercises, exercise.group_id, { group_rounds: exercise.group_rounds + 1 })
+      .map(item => item.group_id === exercise.group_id
+        ? { ...item, added_sets: (item.added_sets || 0) + 1 }
+        : item
+      );
+  }
+
+  return exercises.map((item, i) => i === index
+    ? { ...item, sets: item.sets + 1, added_sets: (item.added_sets || 0) + 1 }
+    : item
+  );
+};
+
+/**
+ * The set to start on when arriving at an exercise, which is where it was
+ * left for exercises skipped part-way through
+ */
+export const getResumeSetIndex = (exercises: EditableExercise[], index: number): number => {
+  const [start] = getGroupRange(exercises, index);
+  return Math.max(0, Math.min(exercises[start]?.resume_set || 0, getSetCount(exercises, start) - 1));
+};
+
+/**
+ * Sets, reps and weight an exercise was actually done with in a session,
+ * counting only working sets, to save as its prescription
+ * @param exercise The exercise as prescribed for the session
+ * @param loggedSets Sets logged in the session
+ * @returns The prescription, unchanged for an exercise without logged sets
+ */
+export const getPerformedPrescription = (
+  exercise: { name: string; sets: number; reps: number; weight: number | null },
+  loggedSets: { exercise_name: string; reps: number; weight: number | null; set_type?: string | null }[]
+): { sets: number; reps: number; weight: number | null } => {
+  const workingSets = loggedSets.filter(set =>
+    set.exercise_name === exercise.name && set.set_type !== "warmup" && set.set_type !== "drop"
+  );
+  if (workingSets.length === 0) {
+    return { sets: exercise.sets, reps: exercise.reps, weight: exercise.weight };
+  }
+
+  const lastSet = workingSets[workingSets.length - 1];
+  return { sets: workingSets.length, reps: lastSet.reps, weight: lastSet.weight };
+};
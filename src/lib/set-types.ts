@@ -0,0 +1,123 @@
+import { PlateInventoryItem, SetType, WeightUnit } from "@/types/workout";
+import { roundWeight } from "@/lib/progression-utils";
+import { WarmupSet, generateWarmupSets } from "@/lib/plate-utils";
+
+export type SetPrescription = {
+  sets: number;
+  warmup_sets?: number | null;
+  drop_sets?: number | null;
+  last_set_to_failure?: boolean | null;
+  group_id?: string | null;
+};
+
+export const SET_TYPE_LABELS: Record<SetType, string> = {
+  warmup: "Warm-up",
+  working: "Working",
+  drop: "Drop set",
+  failure: "Failure",
+};
+
+// Each drop set strips this share of the weight from the one before it
+export const DROP_SET_FACTOR = 0.8;
+
+/**
+ * Total sets to perform for an exercise: warm-ups, working sets and drop sets
+ */
+export const getTotalSets = (exercise: SetPrescription): number =>
+  (exercise.warmup_sets || 0) + exercise.sets + (exercise.drop_sets || 0);
+
+/**
+ * Works out the type of a set from the exercise prescription. Grouped
+ * exercises run their sets as rounds, so every set is a working set.
+ * @param exercise The exercise prescription
+ * @param setIndex Zero-based index of the set
+ * @returns The set type
+ */
+export const getSetType = (exercise: SetPrescription, setIndex: number): SetType => {
+  if (exercise.group_id) return "working";
+
+  const warmups = exercise.warmup_sets || 0;
+  if (setIndex < warmups) return "warmup";
+  if (setIndex >= warmups + exercise.sets) return "drop";
+  if (exercise.last_set_to_failure && setIndex === warmups + exercise.sets - 1) return "failure";
+  return "working";
+};
+
+/**
+ * Drop sets follow the previous set straight away, without a rest
+ */
+export const chainsIntoDropSet = (exercise: SetPrescription, setIndex: number): boolean =>
+  setIndex + 1 < getTotalSets(exercise) && getSetType(exercise, setIndex + 1) === "drop";
+
+/**
+ * Warm-up sets are left out of volume and personal records
+ */
+export const isWorkingSet = (set: { set_type?: string | null }): boolean =>
+  set.set_type !== "warmup";
+
+/**
+ * Total volume (weight × reps) of the working sets in a list of logged sets
+ */
+export const calculateVolume = (sets: { reps: number; weight: number | null; set_type?: string | null }[]): number =>
+  sets.filter(isWorkingSet).reduce((total, set) => total + (set.weight || 0) * set.reps, 0);
+
+/**
+ * Weight for a drop set, taking DROP_SET_FACTOR off for each drop so far
+ * @param exercise The exercise prescription with its working weight
+ * @param setIndex Zero-based index of the drop set
+ * @param unit The user's weight unit, which the reduced weight is rounded in
+ * @returns The reduced weight, or null when the exercise has no weight
+ */
+export const getDropSetWeight = (
+  exercise: SetPrescription & { weight: number | null },
+  setIndex: number,
+  unit?: WeightUnit
+): number | null => {
+  if (exercise.weight === null) return null;
+  const dropNumber = setIndex - (exercise.warmup_sets || 0) - exercise.sets + 1;
+  return roundWeight(exercise.weight * Math.pow(DROP_SET_FACTOR, Math.max(0, dropNumber)), unit);
+};
+
+/**
+ * Warm-up set from the ramp towards the exercise's working weight
+ * @param exercise The exercise prescription with its working weight
+ * @param setIndex Zero-based index of the warm-up set
+ * @param barWeight Weight of the empty bar
+ * @param inventory Plates available
+ * @returns The warm-up step, or undefined when there is none for this set
+ */
+export const getWarmupSet = (
+  exercise: SetPrescription & { weight: number | null },
+  setIndex: number,
+  barWeight: number,
+  inventory: PlateInventoryItem[]
+): WarmupSet | undefined => {
+  if (!exercise.weight || getSetType(exercise, setIndex) !== "warmup") return undefined;
+  return generateWarmupSets(exercise.weight, barWeight, inventory, exercise.warmup_sets || undefined)[setIndex];
+};
+
+/**
+ * Weight to load for a set: a step of the warm-up ramp, a reduced drop set,
+ * or the working weight plus any increase for the last set
+ * @param exercise The exercise prescription with its working weight
+ * @param setIndex Zero-based index of the set
+ * @param options Bar and plates for warm-ups, the increase for the last set and the
+ * user's weight unit for rounding drop sets
+ * @returns The weight, or null when the exercise has no weight
+ */
+export const getPrescribedWeight = (
+  exercise: SetPrescription & { weight: number | null },
+  setIndex: number,
+  options: { barWeight: number; inventory: PlateInventoryItem[]; lastSetIncrease?: number; unit?: WeightUnit }
+): number | null => {
+  if (exercise.weight === null) return null;
+
+  switch (getSetType(exercise, setIndex)) {
+    case "warmup":
+      return getWarmupSet(exercise, setIndex, options.barWeight, options.inventory)?.weight ?? exercise.weight;
+    case "drop":
+      return getDropSetWeight(exercise, setIndex, options.unit);
+    default:
+      return exercise.weight + (options.lastSetIncrease || 0);
+  }
+};
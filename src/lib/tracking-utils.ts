@@ -0,0 +1,66 @@
+import { TrackingType } from "@/types/workout";
+
+export const TRACKING_TYPE_LABELS: Record<TrackingType, string> = {
+  reps: "Reps",
+  time: "Time",
+  distance: "Distance",
+  time_distance: "Time + distance",
+};
+
+export const tracksReps = (type: TrackingType | string | null | undefined): boolean =>
+  !type || type === "reps";
+
+export const tracksTime = (type: TrackingType | string | null | undefined): boolean =>
+  type === "time" || type === "time_distance";
+
+export const tracksDistance = (type: TrackingType | string | null | undefined): boolean =>
+  type === "distance" || type === "time_distance";
+
+/**
+ * Formats a duration as m:ss, or h:mm:ss for an hour or longer
+ * @param seconds Duration in seconds
+ * @returns Formatted duration
+ */
+export const formatDuration = (seconds: number | null | undefined): string => {
+  if (!seconds) return "0:00";
+
+  const hours = Math.floor(seconds / 3600);
+  const mins = Math.floor((seconds % 3600) / 60);
+  const secs = Math.round(seconds % 60);
+  const pad = (value: number) => value.toString().padStart(2, "0");
+
+  return hours > 0 ? `${hours}:${pad(mins)}:${pad(secs)}` : `${mins}:${pad(secs)}`;
+};
+
+/**
+ * Formats a distance, switching to kilometres from 1000 m
+ * @param meters Distance in metres
+ * @returns Formatted distance with unit
+ */
+export const formatDistance = (meters: number | null | undefined): string => {
+  if (!meters) return "0 m";
+  return meters >= 1000 ? `${Math.round(meters / 10) / 100} km` : `${Math.round(meters)} m`;
+};
+
+/**
+ * Describes the target of a single set, e.g. "10 reps", "1:00" or "400 m in 2:00"
+ * @param exercise The exercise prescription
+ * @returns Human readable set target
+ */
+export const formatSetTarget = (exercise: {
+  tracking_type?: TrackingType | string | null;
+  reps: number;
+  duration_seconds?: number | null;
+  distance_meters?: number | null;
+}): string => {
+  switch (exercise.tracking_type) {
+    case "time":
+      return formatDuration(exercise.duration_seconds);
+    case "distance":
+      return formatDistance(exercise.distance_meters);
+    case "time_distance":
+      return `${formatDistance(exercise.distance_meters)} in ${formatDuration(exercise.duration_seconds)}`;
+    default:
+      return `${exercise.reps} reps`;
+  }
+};
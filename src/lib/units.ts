@@ -0,0 +1,95 @@
+import { HeightUnit, WeightUnit } from "@/types/workout";
+
+// Weights are stored in kg and heights in cm; these helpers convert at display and input time
+export const KG_PER_LB = 0.45359237;
+export const CM_PER_INCH = 2.54;
+
+export const DEFAULT_WEIGHT_UNIT: WeightUnit = "kg";
+export const DEFAULT_HEIGHT_UNIT: HeightUnit = "cm";
+
+export const WEIGHT_UNIT_LABELS: Record<WeightUnit, string> = {
+  kg: "Kilograms (kg)",
+  lb: "Pounds (lb)",
+};
+
+export const HEIGHT_UNIT_LABELS: Record<HeightUnit, string> = {
+  cm: "Centimetres (cm)",
+  ft_in: "Feet and inches (ft/in)",
+};
+
+const round = (value: number, decimals: number) => {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+};
+
+/**
+ * Reads a stored weight unit, falling back to kg
+ */
+export const parseWeightUnit = (value: unknown): WeightUnit =>
+  value === "lb" ? "lb" : DEFAULT_WEIGHT_UNIT;
+
+/**
+ * Reads a stored height unit, falling back to cm
+ */
+export const parseHeightUnit = (value: unknown): HeightUnit =>
+  value === "ft_in" ? "ft_in" : DEFAULT_HEIGHT_UNIT;
+
+/**
+ * Converts a stored weight in kg to the user's unit
+ * @param kg The weight in kg
+ * @param unit The unit to display
+ * @returns The weight in the display unit, rounded to two decimals
+ */
+export const toDisplayWeight = (kg: number | null, unit: WeightUnit): number | null => {
+  if (kg === null || kg === undefined) return null;
+  return round(unit === "lb" ? kg / KG_PER_LB : kg, 2);
+};
+
+/**
+ * Converts a weight entered in the user's unit to kg for storage
+ * @param value The weight in the display unit
+ * @param unit The unit it was entered in
+ * @returns The weight in kg
+ */
+export const fromDisplayWeight = (value: number | null, unit: WeightUnit): number | null => {
+  if (value === null || value === undefined) return null;
+  return round(unit === "lb" ? value * KG_PER_LB : value, 4);
+};
+
+/**
+ * Formats a stored weight in kg with the user's unit, e.g. "100 kg" or "220.46 lb"
+ */
+export const formatWeight = (kg: number | null, unit: WeightUnit): string =>
+  kg === null || kg === undefined ? "" : `${toDisplayWeight(kg, unit)} ${unit}`;
+
+/**
+ * Splits a height in cm into whole feet and inches
+ * @param cm The height in cm
+ * @returns Feet and inches, with inches rounded to one decimal
+ */
+export const cmToFeetInches = (cm: number): { feet: number; inches: number } => {
+  const totalInches = cm / CM_PER_INCH;
+  let feet = Math.floor(totalInches / 12);
+  let inches = round(totalInches - feet * 12, 1);
+  if (inches >= 12) {
+    feet += 1;
+    inches = 0;
+  }
+  return { feet, inches };
+};
+
+/**
+ * Converts feet and inches to cm for storage
+ */
+export const feetInchesToCm = (feet: number, inches: number): number =>
+  round((feet * 12 + inches) * CM_PER_INCH, 1);
+
+/**
+ * Formats a stored height in cm with the user's unit, e.g. "180 cm" or "5′ 10.9″"
+ */
+export const formatHeight = (cm: number | null, unit: HeightUnit): string => {
+  if (cm === null || cm === undefined) return "";
+  if (unit === "cm") return `${round(cm, 1)} cm`;
+  const { feet, inches } = cmToFeetInches(cm);
+  return `${feet}′ ${inches}″`;
+};
@@ -0,0 +1,101 @@
+import { CuePreferences } from "@/types/workout";
+
+export const BEEP_SECOND_OPTIONS = [10, 5, 3, 2, 1];
+
+export const DEFAULT_CUE_PREFERENCES: CuePreferences = {
+  beeps: true,
+  beep_seconds: [10, 3, 2, 1],
+  voice: false,
+  vibration: true,
+};
+
+/**
+ * Reads stored cue preferences, falling back to the defaults for anything missing
+ * @param value The raw preferences from the profile
+ * @returns Complete preferences
+ */
+export const parseCuePreferences = (value: unknown): CuePreferences => {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return DEFAULT_CUE_PREFERENCES;
+  const stored = value as Partial<Record<keyof CuePreferences, unknown>>;
+
+  return {
+    beeps: typeof stored.beeps === "boolean" ? stored.beeps : DEFAULT_CUE_PREFERENCES.beeps,
+    beep_seconds: Array.isArray(stored.beep_seconds)
+      ? stored.beep_seconds.filter((second): second is number => typeof second === "number" && second > 0)
+      : DEFAULT_CUE_PREFERENCES.beep_seconds,
+    voice: typeof stored.voice === "boolean" ? stored.voice : DEFAULT_CUE_PREFERENCES.voice,
+    vibration: typeof stored.vibration === "boolean" ? stored.vibration : DEFAULT_CUE_PREFERENCES.vibration,
+  };
+};
+
+let audioContext: AudioContext | null = null;
+
+const resumeAudio = (context: AudioContext) => {
+  if (context.state !== "suspended") return;
+  context.resume().catch((error) => console.error("Error resuming audio:", error));
+};
+
+/**
+ * Creates or resumes the audio used for beeps. Browsers, Safari on iOS in
+ * particular, only allow this during a tap or click, so call it from one.
+ */
+export const unlockAudio = () => {
+  if (typeof window === "undefined" || !window.AudioContext) return;
+
+  audioContext = audioContext || new AudioContext();
+  resumeAudio(audioContext);
+};
+
+/**
+ * Plays a short beep, or a longer and higher one when a countdown ends.
+ * Stays silent until the audio has been unlocked by a tap.
+ */
+export const playBeep = (final = false) => {
+  if (!audioContext) return;
+  resumeAudio(audioContext);
+
+  const oscillator = audioContext.createOscillator();
+  const gain = audioContext.createGain();
+  const duration = final ? 0.6 : 0.15;
+
+  oscillator.frequency.value = final ? 1320 : 880;
+  gain.gain.setValueAtTime(0.3, audioContext.currentTime);
+  gain.gain.exponentialRampToValueAtTime(0.001, audioContext.currentTime + duration);
+  oscillator.connect(gain);
+  gain.connect(audioContext.destination);
+  oscillator.start();
+  oscillator.stop(audioContext.currentTime + duration);
+};
+
+/**
+ * Reads text aloud, cutting off anything still being spoken
+ */
+export const speak = (text: string) => {
+  if (typeof window === "undefined" || !window.speechSynthesis) return;
+
+  window.speechSynthesis.cancel();
+  window.speechSynthesis.speak(new SpeechSynthesisUtterance(text));
+};
+
+/**
+ * Vibrates the device where supported
+ * @param pattern Milliseconds to vibrate, or alternating vibrate and pause lengths
+ */
+export const vibrate = (pattern: number | number[]) => {
+  if (typeof navigator === "undefined" || !navigator.vibrate) return;
+  navigator.vibrate(pattern);
+};
+
+/**
+ * What to announce when a rest starts
+ * @param next The upcoming exercise and set, or null when the workout is done
+ * @returns e.g. "Next: Bench Press, set 2. 8 reps at 80 kg"
+ */
+export const describeNextSet = (
+  next: { name: string; setLabel: string; setNumber: number; target: string; weight: string } | null
+): string => {
+  if (!next) return "Last set done. Time to finish the workout.";
+
+  const load = next.weight ? ` at ${next.weight}` : "";
+  return `Next: ${next.name}, ${next.setLabel.toLowerCase()} ${next.setNumber}. ${next.target}${load}`;
+};
@@ -0,0 +1,152 @@
+import { ProgressionSettings, TrackingType, WorkoutGoal } from "@/types/workout";
+
+export type GoalPrescription = {
+  sets: number;
+  reps: number;
+  rest_time: number;
+  // Time a set takes, used to fit the session into the requested length
+  work_seconds: number;
+  progression: ProgressionSettings;
+};
+
+export type GeneratorCandidate = {
+  id: string;
+  name: string;
+  tracking_type: TrackingType;
+  equipmentIds: number[];
+  // Muscles the exercise mainly trains
+  muscleIds: number[];
+  // Muscles it works as helpers
+  secondaryMuscleIds: number[];
+};
+
+export type GeneratorOptions = {
+  goal: WorkoutGoal;
+  minutes: number;
+  muscleIds: number[];
+  equipmentIds: number[];
+};
+
+export type GeneratedExercise = ProgressionSettings & {
+  name: string;
+  template_id: string;
+  sets: number;
+  reps: number;
+  weight: number | null;
+  notes: string | null;
+  rest_time: number;
+  tracking_type: TrackingType;
+  duration_seconds: number | null;
+  order: number;
+  // Target muscles this exercise covers
+  muscleIds: number[];
+};
+
+export const GOAL_LABELS: Record<WorkoutGoal, string> = {
+  strength: "Strength",
+  hypertrophy: "Hypertrophy",
+  endurance: "Endurance",
+};
+
+export const GOAL_PRESCRIPTIONS: Record<WorkoutGoal, GoalPrescription> = {
+  strength: {
+    sets: 4,
+    reps: 5,
+    rest_time: 150,
+    work_seconds: 25,
+    progression: { progression_type: "linear", progression_increment: 2.5, deload_after: 3, deload_percent: 10 },
+  },
+  hypertrophy: {
+    sets: 3,
+    reps: 10,
+    rest_time: 90,
+    work_seconds: 40,
+    progression: { progression_type: "double", progression_increment: 2.5, rep_range_min: 8, rep_range_max: 12 },
+  },
+  endurance: {
+    sets: 3,
+    reps: 15,
+    rest_time: 45,
+    work_seconds: 55,
+    progression: { progression_type: "double", progression_increment: 1, rep_range_min: 15, rep_range_max: 20 },
+  },
+};
+
+// Time to set up each exercise on top of its sets and rests
+const SETUP_SECONDS = 60;
+
+export const MAX_GENERATED_EXERCISES = 10;
+
+/**
+ * Estimated time an exercise takes at a goal's prescription, in seconds
+ */
+export const estimateExerciseSeconds = (prescription: GoalPrescription): number =>
+  prescription.sets * (prescription.work_seconds + prescription.rest_time) + SETUP_SECONDS;
+
+/**
+ * Picks exercises for a session, spreading them over the target muscles in turn
+ * @param options Goal, session length, target muscles and available equipment
+ * @param candidates Catalogue exercises with their equipment and muscles
+ * @param random Tie-breaker between equally good exercises, so regenerating varies the pick
+ * @returns The exercises in the order they should be performed
+ */
+export const generateWorkout = (
+  options: GeneratorOptions,
+  candidates: GeneratorCandidate[],
+  random: () => number = Math.random
+): GeneratedExercise[] => {
+  const prescription = GOAL_PRESCRIPTIONS[options.goal];
+  const targets = options.muscleIds;
+  const available = new Set(options.equipmentIds);
+  const targetHits = (candidate: GeneratorCandidate) => candidate.muscleIds.filter(id => targets.includes(id));
+
+  // Exercises without listed equipment need none; distance work does not fit a set-based session
+  const ranked = candidates
+    .filter(candidate =>
+      !candidate.tracking_type.includes("distance") &&
+      candidate.equipmentIds.every(id => available.has(id)) &&
+      targetHits(candidate).length > 0
+    )
+    .map(candidate => ({ candidate, score: targetHits(candidate).length + random() }))
+    .sort((a, b) => b.score - a.score)
+    .map(({ candidate }) => candidate);
+
+  const limit = Math.min(
+    MAX_GENERATED_EXERCISES,
+    Math.max(1, Math.floor(options.minutes * 60 / estimateExerciseSeconds(prescription)))
+  );
+  const picked: GeneratorCandidate[] = [];
+  const hits = new Map<number, number>();
+
+  while (picked.length < limit) {
+    const leastTrained = [...targets].sort((a, b) => (hits.get(a) || 0) - (hits.get(b) || 0))[0];
+    const remaining = ranked.filter(candidate => !picked.includes(candidate));
+    const next = remaining.find(candidate => candidate.muscleIds.includes(leastTrained)) ?? remaining[0];
+    if (!next) break;
+
+    picked.push(next);
+    targetHits(next).forEach(id => hits.set(id, (hits.get(id) || 0) + 1));
+  }
+
+  // Multi-muscle exercises first, while the lifter is fresh
+  return picked
+    .sort((a, b) => targetHits(b).length - targetHits(a).length)
+    .map((candidate, index) => {
+      const timed = candidate.tracking_type === "time";
+      return {
+        // Progression works on weight, so timed holds are left alone
+        ...(timed ? { progression_type: "none" as const } : prescription.progression),
+        name: candidate.name,
+        template_id: candidate.id,
+        sets: prescription.sets,
+        reps: timed ? 0 : prescription.reps,
+        weight: null,
+        notes: null,
+        rest_time: prescription.rest_time,
+        tracking_type: candidate.tracking_type,
+        duration_seconds: timed ? prescription.work_seconds : null,
+        order: index,
+        muscleIds: targetHits(candidate),
+      };
+    });
+};
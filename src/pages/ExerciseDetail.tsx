@@ -0,0 +1,166 @@
+import { useState } from "react";
+import { Link, useNavigate, useParams } from "react-router-dom";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { ChevronLeft, Pencil, Trash2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { useToast } from "@/components/ui/use-toast";
+import { CustomExerciseDialog } from "@/components/CustomExerciseDialog";
+import { ExerciseHistoryTracker } from "@/components/ExerciseHistoryTracker";
+import { ExerciseMediaContent } from "@/components/workout-player/ExerciseMedia";
+import { exerciseService } from "@/api/services/exercise.service";
+import { MOVEMENT_PATTERN_LABELS } from "@/lib/exercise-library";
+import { formatTemplateMuscles } from "@/lib/muscle-utils";
+import { TRACKING_TYPE_LABELS } from "@/lib/tracking-utils";
+
+const ExerciseDetail = () => {
+  const { id } = useParams<{ id: string }>();
+  const [isEditing, setIsEditing] = useState(false);
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: template, isLoading, error } = useQuery({
+    queryKey: ["exerciseLibrary", id],
+    queryFn: () => exerciseService.getLibraryExercise(id),
+    enabled: !!id,
+  });
+
+  const { data: equipment = [] } = useQuery({
+    queryKey: ["equipment"],
+    queryFn: () => exerciseService.getEquipment(),
+  });
+
+  // Instructions are written one step per line; older templates only have a description
+  const steps = (template?.instructions || "")
+    .split("\n")
+    .map(step => step.trim())
+    .filter(Boolean);
+  const equipmentNames = equipment
+    .filter(item => template?.equipment_ids?.includes(item.id))
+    .map(item => item.name);
+
+  const handleDelete = async () => {
+    if (!confirm(`Delete ${template.name}? Your logged sets keep their history.`)) return;
+
+    try {
+      await exerciseService.deleteCustomExercise(template.id);
+      queryClient.invalidateQueries({ queryKey: ["exerciseLibrary"] });
+      queryClient.invalidateQueries({ queryKey: ["generatorCandidates"] });
+      toast({
+        title: "Exercise deleted",
+        description: `${template.name} was removed from your exercises.`,
+      });
+      navigate("/exercises");
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error deleting exercise",
+        description: (error as Error).message,
+      });
+    }
+  };
+
+  const primaryMuscles = formatTemplateMuscles(template?.muscles, "primary") || template?.target_muscle;
+  const secondaryMuscles = formatTemplateMuscles(template?.muscles, "secondary");
+
+  return (
+    <div className="min-h-screen bg-gray-50/50 dark:bg-slate-900 dark:text-white">
+      <div className="container py-8 space-y-6">
+        <Link to="/exercises">
+          <Button variant="ghost" className="pl-0">
+            <ChevronLeft className="mr-1 h-4 w-4" />
+            Exercise Library
+          </Button>
+        </Link>
+
+        {isLoading ? (
+          <div className="h-96 bg-gray-100 dark:bg-gray-800 animate-pulse rounded-lg" />
+        ) : error || !template ? (
+          <p className="py-8 text-center text-muted-foreground">This exercise could not be found.</p>
+        ) : (
+          <>
+            <div>
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <h1 className="text-4xl font-bold dark:text-white">{template.name}</h1>
+                {template.user_id && (
+                  <div className="flex gap-2">
+                    <Button variant="outline" onClick={() => setIsEditing(true)}>
+                      <Pencil className="mr-2 h-4 w-4" />
+                      Edit
+                    </Button>
+                    <Button variant="outline" onClick={handleDelete}>
+                      <Trash2 className="mr-2 h-4 w-4" />
+                      Delete
+                    </Button>
+                  </div>
+                )}
+              </div>
+              {template.aliases?.length > 0 && (
+                <p className="text-gray-500 dark:text-gray-400 mt-2">Also known as {template.aliases.join(", ")}</p>
+              )}
+              <div className="flex flex-wrap gap-2 mt-3">
+                {template.user_id && <Badge variant="outline">Custom</Badge>}
+                {template.movement_pattern && (
+                  <Badge>{MOVEMENT_PATTERN_LABELS[template.movement_pattern]}</Badge>
+                )}
+                {template.tracking_type && (
+                  <Badge variant="outline">{TRACKING_TYPE_LABELS[template.tracking_type]}</Badge>
+                )}
+                {equipmentNames.map(name => (
+                  <Badge key={name} variant="secondary">{name}</Badge>
+                ))}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <Card>
+                <CardContent className="pt-6">
+                  <ExerciseMediaContent exercise={template} />
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>How to do it</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4 text-sm">
+                  {steps.length > 0 ? (
+                    <ol className="list-decimal space-y-1 pl-5">
+                      {steps.map((step, index) => (
+                        <li key={index}>{step}</li>
+                      ))}
+                    </ol>
+                  ) : (
+                    <p>{template.description}</p>
+                  )}
+                  {primaryMuscles && (
+                    <p>
+                      <span className="font-medium">Trains: </span>
+                      {primaryMuscles}
+                    </p>
+                  )}
+                  {secondaryMuscles && (
+                    <p>
+                      <span className="font-medium">Also works: </span>
+                      {secondaryMuscles}
+                    </p>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+
+            <ExerciseHistoryTracker exerciseName={template.name} />
+
+            {template.user_id && (
+              <CustomExerciseDialog open={isEditing} onOpenChange={setIsEditing} exercise={template} />
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ExerciseDetail;
@@ -0,0 +1,173 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { Home, Plus, Search } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CustomExerciseDialog } from "@/components/CustomExerciseDialog";
+import { MergeExercisesDialog } from "@/components/MergeExercisesDialog";
+import { exerciseService } from "@/api/services/exercise.service";
+import { muscleService } from "@/api/services/muscle.service";
+import { MovementPattern } from "@/types/workout";
+import { MOVEMENT_PATTERN_LABELS, searchExercises } from "@/lib/exercise-library";
+import { formatTemplateMuscles, getMuscleDisplayName } from "@/lib/muscle-utils";
+
+const ALL = "all";
+
+const ExerciseLibrary = () => {
+  const [query, setQuery] = useState("");
+  const [muscleId, setMuscleId] = useState(ALL);
+  const [equipmentId, setEquipmentId] = useState(ALL);
+  const [movementPattern, setMovementPattern] = useState(ALL);
+  const [isCreatingCustom, setIsCreatingCustom] = useState(false);
+
+  const { data: templates = [], isLoading } = useQuery({
+    queryKey: ["exerciseLibrary"],
+    queryFn: () => exerciseService.getLibrary(),
+  });
+
+  const { data: muscles = [] } = useQuery({
+    queryKey: ["muscles"],
+    queryFn: () => muscleService.getMuscles(),
+  });
+
+  const { data: equipment = [] } = useQuery({
+    queryKey: ["equipment"],
+    queryFn: () => exerciseService.getEquipment(),
+  });
+
+  const results = searchExercises(templates, query, {
+    muscleId: muscleId === ALL ? null : Number(muscleId),
+    equipmentId: equipmentId === ALL ? null : Number(equipmentId),
+    movementPattern: movementPattern === ALL ? null : movementPattern as MovementPattern,
+  });
+
+  const hasFilters = query || muscleId !== ALL || equipmentId !== ALL || movementPattern !== ALL;
+
+  const clearFilters = () => {
+    setQuery("");
+    setMuscleId(ALL);
+    setEquipmentId(ALL);
+    setMovementPattern(ALL);
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50/50 dark:bg-slate-900 dark:text-white">
+      <div className="container py-8 space-y-6">
+        <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
+          <div>
+            <h1 className="text-4xl font-bold dark:text-white">Exercise Library</h1>
+            <p className="text-gray-500 dark:text-gray-400 mt-2">Browse exercises, how to do them and how you've done</p>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <Button onClick={() => setIsCreatingCustom(true)}>
+              <Plus className="mr-2 h-4 w-4" />
+              New Exercise
+            </Button>
+            <MergeExercisesDialog />
+            <Link to="/">
+              <Button variant="outline" className="dark:border-gray-700 dark:text-gray-200">
+                <Home className="mr-2 h-4 w-4" />
+                Back to Dashboard
+              </Button>
+            </Link>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+          <div className="relative md:col-span-4">
+            <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder="Search by name or nickname, e.g. RDL"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              className="pl-8"
+            />
+          </div>
+          <Select value={muscleId} onValueChange={setMuscleId}>
+            <SelectTrigger>
+              <SelectValue placeholder="Muscle" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All muscles</SelectItem>
+              {muscles.map(muscle => (
+                <SelectItem key={muscle.id} value={String(muscle.id)}>{getMuscleDisplayName(muscle)}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={equipmentId} onValueChange={setEquipmentId}>
+            <SelectTrigger>
+              <SelectValue placeholder="Equipment" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All equipment</SelectItem>
+              {equipment.map(item => (
+                <SelectItem key={item.id} value={String(item.id)}>{item.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={movementPattern} onValueChange={setMovementPattern}>
+            <SelectTrigger>
+              <SelectValue placeholder="Movement pattern" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All movement patterns</SelectItem>
+              {(Object.keys(MOVEMENT_PATTERN_LABELS) as MovementPattern[]).map(pattern => (
+                <SelectItem key={pattern} value={pattern}>{MOVEMENT_PATTERN_LABELS[pattern]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="ghost" onClick={clearFilters} disabled={!hasFilters}>
+            Clear filters
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+            {[1, 2, 3].map(i => (
+              <div key={i} className="h-32 bg-gray-100 dark:bg-gray-800 animate-pulse rounded-lg" />
+            ))}
+          </div>
+        ) : results.length === 0 ? (
+          <p className="py-8 text-center text-muted-foreground">No exercises match your search.</p>
+        ) : (
+          <>
+            <p className="text-sm text-muted-foreground">{results.length} exercises</p>
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+              {results.map(({ template, matchedAlias }) => (
+                <Link key={template.id} to={`/exercises/${template.id}`}>
+                  <Card className="h-full transition-colors hover:border-primary">
+                    <CardHeader className="pb-2">
+                      <CardTitle className="text-lg flex items-center gap-2">
+                        {template.name}
+                        {template.user_id && <Badge variant="outline">Custom</Badge>}
+                      </CardTitle>
+                      {matchedAlias && (
+                        <p className="text-xs text-muted-foreground">Also known as {matchedAlias}</p>
+                      )}
+                    </CardHeader>
+                    <CardContent className="space-y-2">
+                      <p className="text-sm text-muted-foreground">
+                        {formatTemplateMuscles(template.muscles, "primary") || template.target_muscle}
+                      </p>
+                      {template.movement_pattern && (
+                        <Badge variant="secondary">{MOVEMENT_PATTERN_LABELS[template.movement_pattern]}</Badge>
+                      )}
+                    </CardContent>
+                  </Card>
+                </Link>
+              ))}
+            </div>
+          </>
+        )}
+      </div>
+
+      <CustomExerciseDialog open={isCreatingCustom} onOpenChange={setIsCreatingCustom} />
+    </div>
+  );
+};
+
+export default ExerciseLibrary;
@@ -7,24 +7,38 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
-import { Dumbbell, Plus, Calendar, Award, History, LineChart, Settings, LogOut, Download, CreditCard } from "lucide-react";
+import { Dumbbell, Plus, Calendar, CalendarDays, Award, History, LineChart, Settings, LogOut, Download, CreditCard, PlayCircle, Layers, BookOpen, Zap } from "lucide-react";
 import { WorkoutCard } from "@/components/WorkoutCard";
 import { WorkoutStats } from "@/components/WorkoutStats";
+import { MuscleHeatmap } from "@/components/MuscleHeatmap";
 import { WorkoutPlayer } from "@/components/WorkoutPlayer";
 import { CreateWorkoutDialog } from "@/components/CreateWorkoutDialog";
+import { ProgramLibraryDialog } from "@/components/ProgramLibraryDialog";
+import { WorkoutGeneratorDialog } from "@/components/WorkoutGeneratorDialog";
 import { EditWorkoutDialog } from "@/components/EditWorkoutDialog";
 import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { ExerciseHistoryTracker } from "@/components/ExerciseHistoryTracker";
+import { WorkoutHistory } from "@/components/WorkoutHistory";
 import { ThemeToggle } from "@/components/ThemeToggle";
 import { WeightTracker } from "@/components/WeightTracker";
 import { WorkoutExport } from "@/components/WorkoutExport";
 import { SubscriptionManager } from "@/components/SubscriptionManager";
+import { TodaysWorkout } from "@/components/TodaysWorkout";
+import { TrainingCalendar } from "@/components/TrainingCalendar";
+import { TrainingScheduleEditor } from "@/components/TrainingScheduleEditor";
+import { ProgramManager } from "@/components/ProgramManager";
+import { sessionService } from "@/api/services/session.service";
+import { ActiveWorkoutSession } from "@/types/workout";
+import { EMPTY_WORKOUT_ID } from "@/lib/session-edits";
+import { formatDistanceToNow } from "date-fns";
 
 const Index = () => {
   const navigate = useNavigate();
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [activeWorkoutId, setActiveWorkoutId] = useState<string | null>(null);
+  const [resumeActiveWorkout, setResumeActiveWorkout] = useState(false);
+  const [pendingSession, setPendingSession] = useState<ActiveWorkoutSession | null>(null);
   const [dailyCalories, setDailyCalories] = useState<number>(2000);
   const [consumedCalories, setConsumedCalories] = useState<number>(0);
   const [editWorkoutId, setEditWorkoutId] = useState<string | null>(null);
@@ -50,6 +64,36 @@ const Index = () => {
     fetchNutritionData();
   }, [navigate]);
 
+  // Look for an interrupted session whenever the player is not open
+  useEffect(() => {
+    if (activeWorkoutId) return;
+    sessionService.getActiveSession().then(setPendingSession);
+  }, [activeWorkoutId]);
+
+  const handleStartWorkout = (id: string) => {
+    setResumeActiveWorkout(false);
+    setActiveWorkoutId(id);
+  };
+
+  const handleResumeWorkout = () => {
+    if (!pendingSession) return;
+    setResumeActiveWorkout(true);
+    setActiveWorkoutId(pendingSession.workout_id);
+  };
+
+  const handleDiscardSession = async () => {
+    try {
+      await sessionService.clearSession();
+      setPendingSession(null);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error discarding workout",
+        description: (error as Error).message,
+      });
+    }
+  };
+
   const fetchNutritionData = async () => {
     try {
       const { data: { user } } = await supabase.auth.getUser();
@@ -208,7 +252,19 @@ const Index = () => {
           </div>
         </div>
         <div className="grid grid-cols-2 sm:grid-cols-3 md:flex gap-2 items-center">
+          <Button onClick={() => handleStartWorkout(EMPTY_WORKOUT_ID)}>
+            <Zap className="mr-2 h-4 w-4" />
+            Empty Workout
+          </Button>
           <CreateWorkoutDialog />
+          <ProgramLibraryDialog />
+          <WorkoutGeneratorDialog onCreated={handleEditWorkout} />
+          <Link to="/exercises">
+            <Button variant="outline" className="w-full sm:w-auto">
+              <BookOpen className="mr-2 h-4 w-4" />
+              Exercises
+            </Button>
+          </Link>
           <Link to="/settings">
             <Button variant="outline" className="bg-primary/5 dark:bg-primary/10">
               <Settings className="mr-2 h-4 w-4" />
@@ -223,16 +279,45 @@ const Index = () => {
         </div>
       </div>
 
+      {pendingSession && !activeWorkoutId && (
+        <Card className="border-primary/40 bg-primary/5 animate-fade-in">
+          <CardHeader className="pb-2">
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <PlayCircle className="h-5 w-5 text-primary" />
+              Resume workout
+            </CardTitle>
+            <CardDescription>
+              {pendingSession.workout_title} — started {formatDistanceToNow(new Date(pendingSession.started_at), { addSuffix: true })},
+              exercise {pendingSession.current_exercise_index + 1}, set {pendingSession.current_set_index + 1}
+            </CardDescription>
+          </CardHeader>
+          <CardFooter className="gap-2">
+            <Button onClick={handleResumeWorkout}>Resume</Button>
+            <Button variant="outline" onClick={handleDiscardSession}>Discard</Button>
+          </CardFooter>
+        </Card>
+      )}
+
+      {!activeWorkoutId && routines && (
+        <TodaysWorkout routines={routines} onStart={handleStartWorkout} />
+      )}
+
       <Tabs defaultValue="workouts" className="w-full">
-        <TabsList className="grid grid-cols-5">
+        <TabsList className="grid grid-cols-7">
           <TabsTrigger value="workouts">
             <Dumbbell className="h-4 w-4 mr-2" /> Workouts
           </TabsTrigger>
+          <TabsTrigger value="schedule">
+            <CalendarDays className="h-4 w-4 mr-2" /> Schedule
+          </TabsTrigger>
+          <TabsTrigger value="programs">
+            <Layers className="h-4 w-4 mr-2" /> Programs
+          </TabsTrigger>
           <TabsTrigger value="stats">
             <Award className="h-4 w-4 mr-2" /> Stats
           </TabsTrigger>
           <TabsTrigger value="history">
-            <LineChart className="h-4 w-4 mr-2" /> Exercise History
+            <LineChart className="h-4 w-4 mr-2" /> History
           </TabsTrigger>
           <TabsTrigger value="export">
             <Download className="h-4 w-4 mr-2" /> Export
@@ -258,7 +343,7 @@ const Index = () => {
                       title={routine.title}
                       duration={routine.duration ? `${routine.duration} min` : ""}
                       exercises={routine.exercises}
-                      onClick={() => setActiveWorkoutId(routine.id)}
+                      onClick={() => handleStartWorkout(routine.id)}
                       onDelete={() => handleDeleteWorkout(routine.id)}
                       onEdit={() => handleEditWorkout(routine.id)}
                     />
@@ -273,12 +358,27 @@ const Index = () => {
           </div>
         </TabsContent>
         
+        <TabsContent value="schedule">
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 animate-fade-up">
+            <TrainingCalendar routines={routines || []} />
+            <TrainingScheduleEditor routines={routines || []} />
+          </div>
+        </TabsContent>
+
+        <TabsContent value="programs">
+          <ProgramManager routines={routines || []} onStartWorkout={handleStartWorkout} />
+        </TabsContent>
+        
         <TabsContent value="stats">
           <WorkoutStats />
+          <MuscleHeatmap />
         </TabsContent>
         
         <TabsContent value="history">
-          <ExerciseHistoryTracker />
+          <div className="space-y-4">
+            <WorkoutHistory routines={routines || []} />
+            <ExerciseHistoryTracker />
+          </div>
         </TabsContent>
 
         <TabsContent value="export">
@@ -296,6 +396,7 @@ const Index = () => {
 
       <WorkoutPlayer 
         workoutId={activeWorkoutId} 
+        resume={resumeActiveWorkout}
         onClose={() => setActiveWorkoutId(null)} 
       />
 
@@ -17,6 +17,11 @@ import { useNavigate } from "react-router-dom";
 import { z } from "zod";
 import { useTheme } from "@/components/ThemeProvider";
 import { ApiKeyManager } from "@/components/ApiKeyManager";
+import { PlateInventorySettings } from "@/components/PlateInventorySettings";
+import { EquipmentProfileSettings } from "@/components/EquipmentProfileSettings";
+import { UnitSettings } from "@/components/UnitSettings";
+import { WorkoutCueSettings } from "@/components/WorkoutCueSettings";
+import { useUnits } from "@/hooks/useUnits";
 
 const profileFormSchema = z.object({
   username: z
@@ -45,6 +50,7 @@ const Settings = () => {
   const { theme, setTheme } = useTheme();
   const [p2fEnabled, setP2fEnabled] = useState(false);
   const [p2fWeight, setP2fWeight] = useState(5);
+  const { weightUnit, toDisplayWeight, fromDisplayWeight, formatWeight } = useUnits();
 
   useEffect(() => {
     const fetchUserData = async () => {
@@ -206,7 +212,7 @@ const Settings = () => {
       setP2fWeight(weight);
       toast({
         title: "Settings updated",
-        description: `Push to Failure weight set to ${weight} kg.`,
+        description: `Push to Failure weight set to ${formatWeight(weight)}.`,
       });
     } catch (error: any) {
       toast({
@@ -413,7 +419,7 @@ const Settings = () => {
                         <div className="flex flex-col space-y-1 flex-grow">
                           <span className="font-medium">P2F Weight Increase</span>
                           <span className="text-sm text-gray-500">
-                            Amount of weight (kg) to add to your last set
+                            Amount of weight ({weightUnit}) to add to your last set
                           </span>
                         </div>
                         <div className="flex items-center gap-2">
@@ -421,8 +427,8 @@ const Settings = () => {
                             type="number"
                             min="0.5"
                             step="0.5"
-                            value={p2fWeight}
-                            onChange={(e) => setP2fWeight(Number(e.target.value))}
+                            value={toDisplayWeight(p2fWeight)}
+                            onChange={(e) => setP2fWeight(fromDisplayWeight(Number(e.target.value)))}
                             className="w-20"
                             disabled={loading}
                           />
@@ -440,9 +446,17 @@ const Settings = () => {
                 </div>
               </CardContent>
             </Card>
+            
+            <UnitSettings />
+
+            <PlateInventorySettings />
+
+            <EquipmentProfileSettings />
           </TabsContent>
           
           <TabsContent value="notifications" className="space-y-6">
+            <WorkoutCueSettings />
+
             <Card>
               <CardHeader>
                 <CardTitle>Notifications</CardTitle>
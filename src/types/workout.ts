@@ -1,5 +1,32 @@
 
-export interface Exercise {
+export type ExerciseGroupType = "superset" | "circuit" | "giant_set";
+
+export type TrackingType = "reps" | "time" | "distance" | "time_distance";
+
+export type SetType = "warmup" | "working" | "drop" | "failure";
+
+export type IntervalMode = "emom" | "amrap" | "tabata" | "custom";
+
+export type WeightUnit = "kg" | "lb";
+
+export type HeightUnit = "cm" | "ft_in";
+
+// A type alias rather than an interface so steps can be stored as JSON
+export type IntervalStep = {
+  label: string;
+  seconds: number;
+  kind: "work" | "rest";
+};
+
+export interface IntervalSettings {
+  interval_mode?: IntervalMode | null;
+  interval_work?: number | null;
+  interval_rest?: number | null;
+  interval_rounds?: number | null;
+  interval_sequence?: IntervalStep[] | null;
+}
+
+export interface Exercise extends IntervalSettings {
   id: string;
   name: string;
   sets: number;
@@ -8,14 +35,210 @@ export interface Exercise {
   notes: string | null;
   rest_time?: number | null;
   order?: number;
+  group_id?: string | null;
+  group_type?: ExerciseGroupType | null;
+  group_rounds?: number | null;
+  tracking_type?: TrackingType;
+  duration_seconds?: number | null;
+  distance_meters?: number | null;
+  warmup_sets?: number;
+  drop_sets?: number;
+  last_set_to_failure?: boolean;
 }
 
+export type ProgressionType = "none" | "linear" | "double" | "percentage";
+
+export type WorkoutGoal = "strength" | "hypertrophy" | "endurance";
+
+export interface ProgressionSettings {
+  progression_type: ProgressionType;
+  progression_increment?: number | null;
+  rep_range_min?: number | null;
+  rep_range_max?: number | null;
+  training_max?: number | null;
+  training_max_percent?: number | null;
+  deload_after?: number | null;
+  deload_percent?: number | null;
+}
+
+export type MuscleRole = "primary" | "secondary";
+
+export type MuscleGroup = "upper" | "lower" | "core" | "push" | "pull";
+
+export interface Muscle {
+  id: number;
+  name: string;
+  latin_name?: string | null;
+  // Display names by locale, e.g. { en: "Biceps", de: "Bizeps" }
+  display_names: Record<string, string>;
+  muscle_groups: MuscleGroup[];
+}
+
+export interface TemplateMuscle {
+  role: MuscleRole;
+  muscle: Muscle;
+}
+
+export type MovementPattern =
+  | "squat" | "hinge" | "lunge" | "horizontal_push" | "vertical_push"
+  | "horizontal_pull" | "vertical_pull" | "carry" | "core" | "isolation" | "cardio";
+
 export interface ExerciseTemplate {
   id: string;
   name: string;
   description: string;
+  // Deprecated free-text muscle list; use muscles
   target_muscle: string;
   media_url: string;
+  tracking_type?: TrackingType;
+  muscles?: TemplateMuscle[];
+  // Other names the exercise goes by, e.g. "RDL"
+  aliases?: string[];
+  movement_pattern?: MovementPattern | null;
+  instructions?: string | null;
+  equipment_ids?: number[];
+  // Set for the user's own custom exercises, null for the catalogue
+  user_id?: string | null;
+}
+
+export interface CustomExercise {
+  name: string;
+  description: string;
+  instructions: string | null;
+  media_url: string | null;
+  tracking_type: TrackingType;
+  muscles: { muscle_id: number; role: MuscleRole }[];
+  equipment_ids: number[];
+}
+
+export interface SetLog {
+  id: string;
+  completed_workout_id: string;
+  user_id: string;
+  exercise_id: string | null;
+  exercise_name: string;
+  set_number: number;
+  reps: number;
+  weight: number | null;
+  duration_seconds?: number | null;
+  distance_meters?: number | null;
+  set_type?: SetType;
+  rpe?: number | null;
+  rir?: number | null;
+  completed_at: string;
+}
+
+export type LoggedSet = Omit<SetLog, "id" | "completed_workout_id" | "user_id">;
+
+export interface ActiveWorkoutSession {
+  workout_id: string;
+  workout_title: string;
+  current_exercise_index: number;
+  current_set_index: number;
+  started_at: string;
+  is_resting: boolean;
+  is_paused: boolean;
+  rest_ends_at: string | null;
+  rest_remaining: number;
+  // An interval block in progress runs on the rest countdown above
+  is_interval_active?: boolean;
+  interval_step_index?: number;
+  amrap_rounds?: number;
+  logged_sets: LoggedSet[];
+  workout_notes: string;
+  // The session's exercises once they were added to, reordered or given extra sets
+  exercises?: Exercise[] | null;
+  updated_at: string;
+}
+
+// A completed session as logged or edited by hand
+export interface SessionEntry {
+  workout_id: string | null;
+  // Title of a session without a routine
+  title: string | null;
+  completed_at: string;
+  duration: number;
+  notes: string | null;
+  sets: LoggedSet[];
+}
+
+export interface ExerciseSessionHistory {
+  completed_workout_id: string;
+  completed_at: string;
+  workout_title: string;
+  sets: number;
+  total_reps: number;
+  top_set_weight: number;
+  top_set_reps: number;
+  volume: number;
+  total_duration: number;
+  total_distance: number;
+}
+
+// A type alias so the inventory can be stored as JSON
+export type PlateInventoryItem = {
+  weight: number;
+  count: number;
+};
+
+// A type alias rather than an interface so preferences can be stored as JSON
+export type CuePreferences = {
+  beeps: boolean;
+  // Seconds left on a countdown at which to beep
+  beep_seconds: number[];
+  voice: boolean;
+  vibration: boolean;
+};
+
+export type ScheduleMode = "weekly" | "rotation";
+
+// A type alias so slots can be stored as JSON; a null workout is a rest day
+export type ScheduleSlot = {
+  workout_id: string | null;
+  label?: string | null;
+};
+
+export interface TrainingSchedule {
+  id?: string;
+  mode: ScheduleMode;
+  slots: ScheduleSlot[];
+  start_date: string;
+}
+
+// A type alias so days can be stored as JSON
+export type ProgramDay = {
+  workout_id: string | null;
+  label?: string | null;
+};
+
+// Percentages scale the routine's working weights and set counts for the week
+export type ProgramWeek = {
+  label?: string | null;
+  intensity_percent: number;
+  volume_percent: number;
+  // Reps for every exercise this week in place of the routine's, e.g. 5/3/1's 3s week
+  reps?: number | null;
+  deload: boolean;
+};
+
+export interface Program {
+  id?: string;
+  name: string;
+  description?: string | null;
+  days: ProgramDay[];
+  weeks: ProgramWeek[];
+  is_active?: boolean;
+  current_week: number;
+  current_day: number;
+  started_at?: string | null;
+  completed_at?: string | null;
+}
+
+export interface EquipmentProfile {
+  id?: string;
+  name: string;
+  equipment_ids: number[];
+  is_default?: boolean;
 }
 
 // Add new types for weight tracking
@@ -36,6 +259,8 @@ export interface UserProfile {
   workout_goal?: number;
   hour_goal?: number;
   height?: number;
+  weight_unit?: WeightUnit;
+  height_unit?: HeightUnit;
   updated_at?: string;
   status?: string;
 }
@@ -5,8 +5,19 @@ import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4';
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-api-key',
+  'Access-Control-Expose-Headers': 'x-weight-unit',
 };
 
+// Weights are stored in kg and converted to the caller's unit on the way in and out
+const KG_PER_LB = 0.45359237;
+
+type WeightUnit = 'kg' | 'lb';
+
+type Row = Record<string, unknown>;
+
+const EXERCISE_WEIGHT_FIELDS = ['weight', 'training_max', 'progression_increment'];
+const WEIGHT_RECORD_FIELDS = ['weight'];
+
 serve(async (req) => {
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
@@ -60,13 +71,19 @@ serve(async (req) => {
     // Check if user has pro status
     const { data: profileData, error: profileError } = await supabaseAdmin
       .from('profiles')
-      .select('status')
+      .select('status, weight_unit')
       .eq('id', user_id)
       .single();
       
     const isPro = profileData?.status === 'pro';
     console.log('User pro status:', isPro);
 
+    // The profile preference can be overridden per request with ?units=kg or ?units=lb
+    const requestedUnit = url.searchParams.get('units');
+    const weightUnit: WeightUnit = requestedUnit === 'kg' || requestedUnit === 'lb'
+      ? requestedUnit
+      : profileData?.weight_unit === 'lb' ? 'lb' : 'kg';
+
     // Handle different endpoints
     const pathParts = url.pathname.split('/');
     const endpoint = pathParts[pathParts.length - 1];
@@ -79,21 +96,21 @@ serve(async (req) => {
         result = await handleWorkouts(req, supabaseAdmin, user_id);
         break;
       case 'exercises':
-        result = await handleExercises(req, supabaseAdmin, user_id);
+        result = await handleExercises(req, supabaseAdmin, user_id, weightUnit);
         break;
       case 'weights':
         // Weight endpoint requires pro status
         if (!isPro) {
           throw new Error('Pro subscription required for weight tracking');
         }
-        result = await handleWeights(req, supabaseAdmin, user_id);
+        result = await handleWeights(req, supabaseAdmin, user_id, weightUnit);
         break;
       case 'stats':
         // Stats endpoint requires pro status
         if (!isPro) {
           throw new Error('Pro subscription required for detailed stats');
         }
-        result = await handleStats(req, supabaseAdmin, user_id);
+        result = await handleStats(req, supabaseAdmin, user_id, weightUnit);
         break;
       case 'subscription':
         result = await handleSubscription(req, supabaseAdmin, user_id);
@@ -104,7 +121,8 @@ serve(async (req) => {
         result = { 
           message: "API is working correctly", 
           endpoints: ["workouts", "exercises", "weights", "stats", "subscription"],
-          user: { id: user_id, pro: isPro }
+          user: { id: user_id, pro: isPro },
+          units: { weight: weightUnit }
         };
         break;
       default:
@@ -112,7 +130,7 @@ serve(async (req) => {
     }
 
     return new Response(JSON.stringify(result), {
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      headers: { ...corsHeaders, 'Content-Type': 'application/json', 'X-Weight-Unit': weightUnit },
     });
   } catch (error) {
     console.error('API Error:', error.message);
@@ -151,7 +169,7 @@ async function handleWorkouts(req: Request, supabase: any, userId: string) {
   }
 }
 
-async function handleExercises(req: Request, supabase: any, userId: string) {
+async function handleExercises(req: Request, supabase: any, userId: string, unit: WeightUnit) {
   switch (req.method) {
     case 'GET':
       const { data, error } = await supabase
@@ -159,14 +177,14 @@ async function handleExercises(req: Request, supabase: any, userId: string) {
         .select('*')
         .eq('user_id', userId);
       if (error) throw error;
-      return data;
+      return toWeightUnit(data, EXERCISE_WEIGHT_FIELDS, unit);
 
     default:
       throw new Error(`Method ${req.method} not allowed`);
   }
 }
 
-async function handleWeights(req: Request, supabase: any, userId: string) {
+async function handleWeights(req: Request, supabase: any, userId: string, unit: WeightUnit) {
   switch (req.method) {
     case 'GET':
       const { data, error } = await supabase
@@ -175,24 +193,24 @@ async function handleWeights(req: Request, supabase: any, userId: string) {
         .eq('user_id', userId)
         .order('date', { ascending: true });
       if (error) throw error;
-      return data;
+      return toWeightUnit(data, WEIGHT_RECORD_FIELDS, unit);
       
     case 'POST':
       const body = await req.json();
       const { data: newWeight, error: createError } = await supabase
         .from('weight_records')
-        .insert([{ ...body, user_id: userId }])
+        .insert(fromWeightUnit([{ ...body, user_id: userId }], WEIGHT_RECORD_FIELDS, unit))
         .select()
         .single();
       if (createError) throw createError;
-      return newWeight;
+      return toWeightUnit([newWeight], WEIGHT_RECORD_FIELDS, unit)[0];
 
     default:
       throw new Error(`Method ${req.method} not allowed`);
   }
 }
 
-async function handleStats(req: Request, supabase: any, userId: string) {
+async function handleStats(req: Request, supabase: any, userId: string, unit: WeightUnit) {
   // Only support GET for stats
   if (req.method !== 'GET') {
     throw new Error(`Method ${req.method} not allowed`);
@@ -236,7 +254,7 @@ async function handleStats(req: Request, supabase: any, userId: string) {
       hour: profile?.hour_goal || 10
     },
     completedWorkouts,
-    weightRecords
+    weightRecords: toWeightUnit(weightRecords, WEIGHT_RECORD_FIELDS, unit)
   };
 }
 
@@ -269,3 +287,27 @@ async function handleSubscription(req: Request, supabase: any, userId: string) {
     payments: payments || []
   };
 }
+
+function convertWeights(rows: Row[], fields: string[], factor: number, decimals: number) {
+  if (!rows || factor === 1) return rows;
+  return rows.map((row) => {
+    const converted = { ...row };
+    for (const field of fields) {
+      const value = converted[field];
+      if (typeof value === 'number') {
+        converted[field] = Math.round(value * factor * 10 ** decimals) / 10 ** decimals;
+      }
+    }
+    return converted;
+  });
+}
+
+// Stored kg to the caller's unit
+function toWeightUnit(rows: Row[], fields: string[], unit: WeightUnit) {
+  return convertWeights(rows, fields, unit === 'lb' ? 1 / KG_PER_LB : 1, 2);
+}
+
+// The caller's unit to kg for storage
+function fromWeightUnit(rows: Row[], fields: string[], unit: WeightUnit) {
+  return convertWeights(rows, fields, unit === 'lb' ? KG_PER_LB : 1, 4);
+}
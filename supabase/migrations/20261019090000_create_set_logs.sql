@@ -0,0 +1,34 @@
+-- Per-set performance log for completed workout sessions
+create table if not exists public.set_logs (
+  id uuid primary key default gen_random_uuid(),
+  completed_workout_id uuid not null references public.completed_workouts(id) on delete cascade,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  exercise_id uuid references public.exercises(id) on delete set null,
+  exercise_name text not null,
+  set_number integer not null,
+  reps integer not null,
+  weight numeric,
+  completed_at timestamptz not null default now(),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists set_logs_completed_workout_id_idx on public.set_logs(completed_workout_id);
+create index if not exists set_logs_user_exercise_idx on public.set_logs(user_id, exercise_name);
+
+alter table public.set_logs enable row level security;
+
+create policy "Users can view their own set logs"
+  on public.set_logs for select
+  using (auth.uid() = user_id);
+
+create policy "Users can insert their own set logs"
+  on public.set_logs for insert
+  with check (auth.uid() = user_id);
+
+create policy "Users can update their own set logs"
+  on public.set_logs for update
+  using (auth.uid() = user_id);
+
+create policy "Users can delete their own set logs"
+  on public.set_logs for delete
+  using (auth.uid() = user_id);
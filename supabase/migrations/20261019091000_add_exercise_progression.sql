@@ -0,0 +1,13 @@
+-- Per-exercise progressive overload schemes
+alter table public.exercises
+  add column if not exists progression_type text not null default 'none'
+    check (progression_type in ('none', 'linear', 'double', 'percentage')),
+  add column if not exists progression_increment numeric,
+  add column if not exists rep_range_min integer,
+  add column if not exists rep_range_max integer,
+  add column if not exists training_max numeric,
+  add column if not exists training_max_percent numeric,
+  add column if not exists deload_after integer,
+  add column if not exists deload_percent numeric,
+  add column if not exists failed_sessions integer not null default 0,
+  add column if not exists last_progressed_session_id uuid references public.completed_workouts(id) on delete set null;
@@ -0,0 +1,37 @@
+-- Store the in-progress workout session on rest_timers so it can be resumed
+-- after a reload or on another device. Each user has at most one active session.
+delete from public.rest_timers
+  where id in (
+    select id from (
+      select id, row_number() over (
+        partition by user_id order by created_at desc nulls last, id
+      ) as position
+      from public.rest_timers
+    ) ranked
+    where position > 1
+  );
+
+alter table public.rest_timers
+  alter column end_time drop not null,
+  add column if not exists workout_id uuid references public.workouts(id) on delete cascade,
+  add column if not exists workout_title text,
+  add column if not exists current_exercise_index integer not null default 0,
+  add column if not exists current_set_index integer not null default 0,
+  add column if not exists started_at timestamptz,
+  add column if not exists is_resting boolean not null default false,
+  add column if not exists is_paused boolean not null default false,
+  add column if not exists rest_remaining integer not null default 0,
+  add column if not exists logged_sets jsonb not null default '[]'::jsonb,
+  add column if not exists workout_notes text,
+  add column if not exists updated_at timestamptz not null default now();
+
+alter table public.rest_timers
+  add constraint rest_timers_user_id_key unique (user_id);
+
+alter table public.rest_timers enable row level security;
+
+drop policy if exists "Users can manage their own rest timers" on public.rest_timers;
+create policy "Users can manage their own rest timers"
+  on public.rest_timers for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
@@ -0,0 +1,6 @@
+-- Group consecutive exercises into supersets, circuits and giant sets
+alter table public.exercises
+  add column if not exists group_id uuid,
+  add column if not exists group_type text
+    check (group_type in ('superset', 'circuit', 'giant_set')),
+  add column if not exists group_rounds integer;
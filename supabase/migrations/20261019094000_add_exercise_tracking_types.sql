@@ -0,0 +1,14 @@
+-- Track exercises by time, distance or both instead of reps
+alter table public.exercises
+  add column if not exists tracking_type text not null default 'reps'
+    check (tracking_type in ('reps', 'time', 'distance', 'time_distance')),
+  add column if not exists duration_seconds integer,
+  add column if not exists distance_meters numeric;
+
+alter table public.exercise_templates
+  add column if not exists tracking_type text not null default 'reps'
+    check (tracking_type in ('reps', 'time', 'distance', 'time_distance'));
+
+alter table public.set_logs
+  add column if not exists duration_seconds integer,
+  add column if not exists distance_meters numeric;
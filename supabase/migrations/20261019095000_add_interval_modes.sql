@@ -0,0 +1,8 @@
+-- Conditioning blocks: EMOM, AMRAP, Tabata and custom work/rest sequences
+alter table public.exercises
+  add column if not exists interval_mode text
+    check (interval_mode in ('emom', 'amrap', 'tabata', 'custom')),
+  add column if not exists interval_work integer,
+  add column if not exists interval_rest integer,
+  add column if not exists interval_rounds integer,
+  add column if not exists interval_sequence jsonb;
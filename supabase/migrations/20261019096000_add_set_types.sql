@@ -0,0 +1,11 @@
+-- Warm-up, drop and failure sets in the prescription, and set type plus effort in the log
+alter table public.exercises
+  add column if not exists warmup_sets integer not null default 0,
+  add column if not exists drop_sets integer not null default 0,
+  add column if not exists last_set_to_failure boolean not null default false;
+
+alter table public.set_logs
+  add column if not exists set_type text not null default 'working'
+    check (set_type in ('warmup', 'working', 'drop', 'failure')),
+  add column if not exists rpe numeric check (rpe between 1 and 10),
+  add column if not exists rir integer check (rir >= 0);
@@ -0,0 +1,5 @@
+-- Bar weight and plate inventory for the plate calculator and warm-up ramps
+alter table public.profiles
+  add column if not exists bar_weight numeric not null default 20,
+  add column if not exists plate_inventory jsonb not null default
+    '[{"weight":25,"count":4},{"weight":20,"count":2},{"weight":15,"count":2},{"weight":10,"count":2},{"weight":5,"count":2},{"weight":2.5,"count":2},{"weight":1.25,"count":2}]'::jsonb;
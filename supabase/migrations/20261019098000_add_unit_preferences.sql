@@ -0,0 +1,6 @@
+-- Display units for weights and height; values are always stored in kg and cm
+alter table public.profiles
+  add column if not exists weight_unit text not null default 'kg'
+    check (weight_unit in ('kg', 'lb')),
+  add column if not exists height_unit text not null default 'cm'
+    check (height_unit in ('cm', 'ft_in'));
@@ -0,0 +1,31 @@
+-- When each routine should be done: a fixed weekly plan or a rotating cycle of days
+create table if not exists public.training_schedules (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null unique references auth.users(id) on delete cascade,
+  mode text not null default 'weekly' check (mode in ('weekly', 'rotation')),
+  -- Weekly: seven slots, Monday first. Rotation: one slot per day of the cycle.
+  -- Each slot is {"workout_id": uuid | null, "label": text | null}; a null workout is a rest day.
+  slots jsonb not null default '[]'::jsonb,
+  -- Day the rotation cycle starts counting from
+  start_date date not null default current_date,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+alter table public.training_schedules enable row level security;
+
+create policy "Users can view their own training schedule"
+  on public.training_schedules for select
+  using (auth.uid() = user_id);
+
+create policy "Users can insert their own training schedule"
+  on public.training_schedules for insert
+  with check (auth.uid() = user_id);
+
+create policy "Users can update their own training schedule"
+  on public.training_schedules for update
+  using (auth.uid() = user_id);
+
+create policy "Users can delete their own training schedule"
+  on public.training_schedules for delete
+  using (auth.uid() = user_id);
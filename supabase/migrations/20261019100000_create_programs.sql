@@ -0,0 +1,49 @@
+-- Multi-week training programs that run routines in order with planned intensity changes
+create table if not exists public.programs (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  name text not null,
+  description text,
+  -- Sessions of a program week, in order: [{"workout_id": uuid, "label": text | null}]
+  days jsonb not null default '[]'::jsonb,
+  -- One entry per week: [{"label": text | null, "intensity_percent": number, "volume_percent": number, "deload": boolean}]
+  weeks jsonb not null default '[]'::jsonb,
+  is_active boolean not null default false,
+  -- Zero-based position of the next session to perform
+  current_week integer not null default 0,
+  current_day integer not null default 0,
+  started_at timestamptz,
+  completed_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists programs_user_id_idx on public.programs(user_id);
+
+-- Only one program can be running at a time
+create unique index if not exists programs_one_active_per_user_idx
+  on public.programs(user_id) where is_active;
+
+alter table public.programs enable row level security;
+
+create policy "Users can view their own programs"
+  on public.programs for select
+  using (auth.uid() = user_id);
+
+create policy "Users can insert their own programs"
+  on public.programs for insert
+  with check (auth.uid() = user_id);
+
+create policy "Users can update their own programs"
+  on public.programs for update
+  using (auth.uid() = user_id);
+
+create policy "Users can delete their own programs"
+  on public.programs for delete
+  using (auth.uid() = user_id);
+
+-- Which program session a completed workout counted towards
+alter table public.completed_workouts
+  add column if not exists program_id uuid references public.programs(id) on delete set null,
+  add column if not exists program_week integer,
+  add column if not exists program_day integer;
@@ -0,0 +1,33 @@
+-- Named sets of available equipment, e.g. a home gym or a hotel gym
+create table if not exists public.equipment_profiles (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  name text not null,
+  equipment_ids integer[] not null default '{}',
+  -- The profile used when swapping exercises unless another is picked
+  is_default boolean not null default false,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create unique index if not exists equipment_profiles_one_default_per_user
+  on public.equipment_profiles (user_id)
+  where is_default;
+
+alter table public.equipment_profiles enable row level security;
+
+create policy "Users can view their own equipment profiles"
+  on public.equipment_profiles for select
+  using (auth.uid() = user_id);
+
+create policy "Users can insert their own equipment profiles"
+  on public.equipment_profiles for insert
+  with check (auth.uid() = user_id);
+
+create policy "Users can update their own equipment profiles"
+  on public.equipment_profiles for update
+  using (auth.uid() = user_id);
+
+create policy "Users can delete their own equipment profiles"
+  on public.equipment_profiles for delete
+  using (auth.uid() = user_id);
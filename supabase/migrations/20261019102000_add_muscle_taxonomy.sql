@@ -0,0 +1,75 @@
+-- Muscles get a Latin name, display names per locale and the groups they belong to
+alter table public.muscles
+  add column if not exists latin_name text,
+  -- {"en": "Biceps", "de": "Bizeps", ...}
+  add column if not exists display_names jsonb not null default '{}'::jsonb,
+  add column if not exists muscle_groups text[] not null default '{}'
+    check (muscle_groups <@ array['upper', 'lower', 'core', 'push', 'pull']);
+
+-- Whether an exercise mainly trains a muscle or only works it as a helper
+alter table public.exercise_muscles
+  add column if not exists role text not null default 'primary'
+    check (role in ('primary', 'secondary'));
+
+-- Existing muscle names are the Latin ones
+update public.muscles
+  set latin_name = name
+  where latin_name is null;
+
+with taxonomy (latin_name, en, de, muscle_groups) as (
+  values
+    ('Pectoralis major', 'Chest', 'Brust', array['upper', 'push']),
+    ('Anterior deltoid', 'Front shoulders', 'Vordere Schulter', array['upper', 'push']),
+    ('Deltoideus', 'Shoulders', 'Schultern', array['upper', 'push']),
+    ('Serratus anterior', 'Serratus', 'Sägemuskel', array['upper', 'push']),
+    ('Triceps brachii', 'Triceps', 'Trizeps', array['upper', 'push']),
+    ('Biceps brachii', 'Biceps', 'Bizeps', array['upper', 'pull']),
+    ('Brachialis', 'Brachialis', 'Oberarmmuskel', array['upper', 'pull']),
+    ('Latissimus dorsi', 'Lats', 'Latissimus', array['upper', 'pull']),
+    ('Trapezius', 'Traps', 'Trapez', array['upper', 'pull']),
+    ('Rectus abdominis', 'Abs', 'Bauchmuskeln', array['core']),
+    ('Obliquus externus abdominis', 'Obliques', 'Seitliche Bauchmuskeln', array['core']),
+    ('Gluteus maximus', 'Glutes', 'Gesäß', array['lower']),
+    ('Quadriceps femoris', 'Quads', 'Quadrizeps', array['lower', 'push']),
+    ('Biceps femoris', 'Hamstrings', 'Beinbeuger', array['lower', 'pull']),
+    ('Gastrocnemius', 'Calves', 'Waden', array['lower']),
+    ('Soleus', 'Soleus', 'Schollenmuskel', array['lower'])
+)
+update public.muscles m
+  set display_names = jsonb_build_object('en', t.en, 'de', t.de),
+      muscle_groups = t.muscle_groups
+  from taxonomy t
+  where lower(m.latin_name) = lower(t.latin_name)
+    and m.display_names = '{}'::jsonb;
+
+-- Carry over the free-text target_muscle values, which may list several muscles
+insert into public.muscles (name, latin_name)
+select distinct trim(part), trim(part)
+  from public.exercise_templates,
+       unnest(string_to_array(target_muscle, ',')) as part
+  where trim(part) <> ''
+    and not exists (
+      select 1 from public.muscles m
+        where lower(m.name) = lower(trim(part))
+           or lower(m.latin_name) = lower(trim(part))
+           or lower(m.display_names ->> 'en') = lower(trim(part))
+    );
+
+-- The first muscle listed is the primary one, the rest are secondary
+insert into public.exercise_muscles (exercise_id, muscle_id, role)
+select distinct on (t.id, m.id)
+       t.id, m.id, case when part.position = 1 then 'primary' else 'secondary' end
+  from public.exercise_templates t,
+       unnest(string_to_array(t.target_muscle, ',')) with ordinality as part(value, position)
+  join public.muscles m
+    on lower(m.name) = lower(trim(part.value))
+    or lower(m.latin_name) = lower(trim(part.value))
+    or lower(m.display_names ->> 'en') = lower(trim(part.value))
+  where not exists (
+    select 1 from public.exercise_muscles em
+      where em.exercise_id = t.id and em.muscle_id = m.id
+  )
+  order by t.id, m.id, part.position;
+
+comment on column public.exercise_templates.target_muscle is
+  'Deprecated: use exercise_muscles. Kept for older clients.';
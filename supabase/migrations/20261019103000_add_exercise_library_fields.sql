@@ -0,0 +1,56 @@
+-- Library metadata for exercise templates: other names they go by,
+-- the movement pattern they train and step-by-step instructions
+alter table public.exercise_templates
+  add column if not exists aliases text[] not null default '{}',
+  add column if not exists movement_pattern text
+    check (movement_pattern in (
+      'squat', 'hinge', 'lunge', 'horizontal_push', 'vertical_push',
+      'horizontal_pull', 'vertical_pull', 'carry', 'core', 'isolation', 'cardio'
+    )),
+  add column if not exists instructions text;
+
+-- Common abbreviations and alternative names
+with known_aliases (name, aliases) as (
+  values
+    ('Romanian Deadlift', array['RDL', 'Romanian DL', 'Stiff-leg deadlift']),
+    ('Overhead Press', array['OHP', 'Military press', 'Shoulder press']),
+    ('Bench Press', array['BP', 'Flat bench', 'Barbell bench press']),
+    ('Incline Bench Press', array['Incline BP', 'Incline bench']),
+    ('Deadlift', array['DL', 'Conventional deadlift']),
+    ('Squat', array['Back squat', 'BB squat']),
+    ('Front Squat', array['FS']),
+    ('Bulgarian Split Squat', array['BSS', 'Rear-foot elevated split squat']),
+    ('Pull-up', array['Pullup']),
+    ('Lat Pulldown', array['Pulldown', 'Lat pull-down']),
+    ('Barbell Row', array['Bent-over row', 'BB row', 'Pendlay row']),
+    ('Good Morning', array['GM']),
+    ('Hip Thrust', array['Barbell hip thrust']),
+    ('Dips', array['Dip', 'Parallel bar dip']),
+    ('Face Pull', array['Facepull']),
+    ('Farmer''s Walk', array['Farmer carry', 'Farmers carry'])
+)
+update public.exercise_templates t
+  set aliases = k.aliases
+  from known_aliases k
+  where lower(t.name) = lower(k.name)
+    and t.aliases = '{}';
+
+-- Best-effort movement patterns from exercise names; more specific patterns first
+update public.exercise_templates
+  set movement_pattern = case
+    when name ~* '(deadlift|good morning|hip thrust|swing|hyperextension)' then 'hinge'
+    when name ~* '(lunge|split squat|step-up|step up)' then 'lunge'
+    when name ~* '(squat|leg press|hack)' then 'squat'
+    when name ~* '(overhead|military|shoulder press|push press|handstand)' then 'vertical_push'
+    when name ~* '(bench|push-up|push up|pushup|dip|chest press)' then 'horizontal_push'
+    when name ~* '(pull-up|pull up|pullup|chin|pulldown|pull-down)' then 'vertical_pull'
+    when name ~* '(plank|crunch|sit-up|sit up|leg raise|russian twist|ab wheel)' then 'core'
+    when name ~* '(running|treadmill|bike|cycling|rowing machine|jump rope|burpee|sprint)' then 'cardio'
+    when name ~* '(row|face pull)' then 'horizontal_pull'
+    when name ~* '(carry|farmer)' then 'carry'
+    when name ~* '(curl|extension|raise|fly|flye|kickback|shrug)' then 'isolation'
+  end
+  where movement_pattern is null;
+
+create index if not exists exercise_templates_aliases_idx
+  on public.exercise_templates using gin (aliases);
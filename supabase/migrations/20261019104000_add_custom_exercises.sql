@@ -0,0 +1,113 @@
+-- Custom exercises are exercise templates owned by a user; catalogue
+-- exercises have no owner
+alter table public.exercise_templates
+  add column if not exists user_id uuid references auth.users(id) on delete cascade;
+
+create index if not exists exercise_templates_user_id_idx
+  on public.exercise_templates (user_id);
+
+-- One custom exercise per name and user
+create unique index if not exists exercise_templates_user_name_idx
+  on public.exercise_templates (user_id, lower(name))
+  where user_id is not null;
+
+alter table public.exercise_templates enable row level security;
+
+create policy "Everyone can view catalogue exercises"
+  on public.exercise_templates for select
+  using (user_id is null);
+
+create policy "Users can view their own exercises"
+  on public.exercise_templates for select
+  using (auth.uid() = user_id);
+
+create policy "Users can insert their own exercises"
+  on public.exercise_templates for insert
+  with check (auth.uid() = user_id);
+
+create policy "Users can update their own exercises"
+  on public.exercise_templates for update
+  using (auth.uid() = user_id);
+
+create policy "Users can delete their own exercises"
+  on public.exercise_templates for delete
+  using (auth.uid() = user_id);
+
+create policy "Admins can manage catalogue exercises"
+  on public.exercise_templates for all
+  using (user_id is null and exists (select 1 from public.admins where admins.user_id = auth.uid()))
+  with check (user_id is null and exists (select 1 from public.admins where admins.user_id = auth.uid()));
+
+-- Muscle and equipment links follow the exercise they belong to
+alter table public.exercise_muscles enable row level security;
+alter table public.exercise_equipment enable row level security;
+
+create policy "Users can view muscles of visible exercises"
+  on public.exercise_muscles for select
+  using (exists (select 1 from public.exercise_templates t where t.id = exercise_id));
+
+create policy "Users can manage muscles of their own exercises"
+  on public.exercise_muscles for all
+  using (exists (select 1 from public.exercise_templates t where t.id = exercise_id and t.user_id = auth.uid()))
+  with check (exists (select 1 from public.exercise_templates t where t.id = exercise_id and t.user_id = auth.uid()));
+
+create policy "Admins can manage muscles of catalogue exercises"
+  on public.exercise_muscles for all
+  using (exists (select 1 from public.admins where admins.user_id = auth.uid()))
+  with check (exists (select 1 from public.admins where admins.user_id = auth.uid()));
+
+create policy "Users can view equipment of visible exercises"
+  on public.exercise_equipment for select
+  using (exists (select 1 from public.exercise_templates t where t.id = exercise_id));
+
+create policy "Users can manage equipment of their own exercises"
+  on public.exercise_equipment for all
+  using (exists (select 1 from public.exercise_templates t where t.id = exercise_id and t.user_id = auth.uid()))
+  with check (exists (select 1 from public.exercise_templates t where t.id = exercise_id and t.user_id = auth.uid()));
+
+create policy "Admins can manage equipment of catalogue exercises"
+  on public.exercise_equipment for all
+  using (exists (select 1 from public.admins where admins.user_id = auth.uid()))
+  with check (exists (select 1 from public.admins where admins.user_id = auth.uid()));
+
+-- Moves the caller's history and routines from one exercise name to an
+-- exercise template, for when two names refer to the same exercise.
+-- A custom exercise with the old name is deleted afterwards.
+create or replace function public.merge_exercises(source_name text, target_template_id uuid)
+returns void
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  target_name text;
+  source_template_id uuid;
+begin
+  select name into target_name
+    from exercise_templates
+    where id = target_template_id;
+
+  if target_name is null then
+    raise exception 'Exercise % not found', target_template_id;
+  end if;
+
+  select id into source_template_id
+    from exercise_templates
+    where user_id = auth.uid() and lower(name) = lower(source_name) and id <> target_template_id;
+
+  update set_logs
+    set exercise_name = target_name
+    where user_id = auth.uid() and lower(exercise_name) = lower(source_name);
+
+  update exercises e
+    set name = target_name, template_id = target_template_id
+    from workouts w
+    where w.id = e.workout_id
+      and w.user_id = auth.uid()
+      and (lower(e.name) = lower(source_name) or e.template_id = source_template_id);
+
+  if source_template_id is not null then
+    delete from exercise_templates where id = source_template_id;
+  end if;
+end;
+$$;
@@ -0,0 +1,5 @@
+-- Exercises added, skipped, reordered or given extra sets during a session
+-- are kept with the active session until the workout is finished. Null while
+-- the session still follows the saved routine.
+alter table public.rest_timers
+  add column if not exists exercises jsonb;
@@ -0,0 +1,5 @@
+-- Free-form sessions are started without a routine. They keep their own
+-- title, and only link to a routine when saved as one at the end.
+alter table public.completed_workouts
+  alter column workout_id drop not null,
+  add column if not exists title text;
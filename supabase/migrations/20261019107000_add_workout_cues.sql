@@ -0,0 +1,4 @@
+-- Audio, voice and vibration cues played by the workout player during rests and intervals
+alter table public.profiles
+  add column if not exists workout_cues jsonb not null default
+    '{"beeps":true,"beep_seconds":[10,3,2,1],"voice":false,"vibration":true}'::jsonb;
@@ -0,0 +1,30 @@
+-- Deletes one of the caller's sessions. Routine exercises marked as progressed
+-- from it are pointed at the latest remaining session instead, which has
+-- already been counted, so progression is never applied twice.
+create or replace function public.delete_completed_session(session_id uuid)
+returns void
+language plpgsql
+security invoker
+set search_path = public
+as $$
+begin
+  update exercises e
+    set last_progressed_session_id = (
+      select l.completed_workout_id
+        from set_logs l
+        where l.exercise_id = e.id
+          and l.completed_workout_id <> session_id
+          and l.set_type in ('working', 'failure')
+        order by l.completed_at desc
+        limit 1
+    )
+    where e.last_progressed_session_id = session_id;
+
+  delete from completed_workouts
+    where id = session_id and user_id = auth.uid();
+
+  if not found then
+    raise exception 'Session % not found', session_id;
+  end if;
+end;
+$$;
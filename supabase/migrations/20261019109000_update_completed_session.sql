@@ -0,0 +1,46 @@
+-- Replaces the details and all set logs of one of the caller's sessions in a
+-- single transaction, so a failed edit never leaves the session without sets
+create or replace function public.update_completed_session(session_id uuid, session jsonb, sets jsonb)
+returns void
+language plpgsql
+security invoker
+set search_path = public
+as $$
+begin
+  update completed_workouts
+    set workout_id = (session->>'workout_id')::uuid,
+        title = session->>'title',
+        completed_at = (session->>'completed_at')::timestamptz,
+        duration = (session->>'duration')::integer,
+        notes = session->>'notes'
+    where id = session_id and user_id = auth.uid();
+
+  if not found then
+    raise exception 'Session % not found', session_id;
+  end if;
+
+  delete from set_logs where completed_workout_id = session_id;
+
+  insert into set_logs (
+    completed_workout_id, user_id, exercise_id, exercise_name, set_number, reps, weight,
+    set_type, rpe, rir, duration_seconds, distance_meters, completed_at
+  )
+  select
+    session_id, auth.uid(), s.exercise_id, s.exercise_name, s.set_number, s.reps, s.weight,
+    coalesce(s.set_type, 'working'), s.rpe, s.rir, s.duration_seconds, s.distance_meters,
+    coalesce(s.completed_at, (session->>'completed_at')::timestamptz)
+  from jsonb_to_recordset(sets) as s(
+    exercise_id uuid,
+    exercise_name text,
+    set_number integer,
+    reps integer,
+    weight numeric,
+    set_type text,
+    rpe numeric,
+    rir integer,
+    duration_seconds integer,
+    distance_meters numeric,
+    completed_at timestamptz
+  );
+end;
+$$;
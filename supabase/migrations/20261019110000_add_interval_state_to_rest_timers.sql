@@ -0,0 +1,6 @@
+-- Interval blocks run on the same countdown as rests; keep their step and
+-- AMRAP round count with the active session so they can be resumed too
+alter table public.rest_timers
+  add column if not exists is_interval_active boolean not null default false,
+  add column if not exists interval_step_index integer not null default 0,
+  add column if not exists amrap_rounds integer not null default 0;
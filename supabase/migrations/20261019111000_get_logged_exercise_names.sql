@@ -0,0 +1,14 @@
+-- Distinct names of the exercises the caller has logged sets for. Selecting
+-- the set logs themselves stops at the API's row limit once there are many.
+create or replace function public.get_logged_exercise_names()
+returns setof text
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  select distinct exercise_name
+    from set_logs
+    where user_id = auth.uid()
+    order by exercise_name;
+$$;